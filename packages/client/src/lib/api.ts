@@ -10,8 +10,10 @@ import {
   TokenRevocation, 
   RoleUpdate,
   Call,
-  MessageEnvelope
+  MessageEnvelope,
+  PublicKeyBundle
 } from '@/types/admin';
+import { CallIceServers, CallQualitySummary, QualitySummary } from '@private-messaging/shared';
 
 const BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3001';
 
@@ -253,7 +255,17 @@ class ApiClient {
     totalMinutes: number;
     byType: { type: string; count: number; minutes: number }[];
     byDay: { date: string; count: number; minutes: number }[];
-    qualityMetrics: { date: string; avgLatency: number; avgPacketLoss: number }[];
+    qualityMetrics: {
+      date: string;
+      avgLatency: number;
+      avgPacketLoss: number;
+      avgBitrate: number;
+      avgJitter: number;
+      p95Latency: number;
+      p95PacketLoss: number;
+    }[];
+    quality: QualitySummary | null;
+    connectionQuality: { quality: string; count: number }[];
   }> {
     const response = await this.client.get(`/api/admin/calls/stats`, {
       params: { timeframe },
@@ -289,6 +301,42 @@ class ApiClient {
     return response.data;
   }
 
+  // Keys
+  async getKeyBundles(userId: string): Promise<PublicKeyBundle[]> {
+    const response = await this.client.get(`/api/keys/${userId}/bundles`);
+    return response.data.bundles;
+  }
+
+  async getKeyBundle(userId: string, deviceId: string): Promise<PublicKeyBundle> {
+    const response = await this.client.get(`/api/keys/${userId}/bundles/${deviceId}`);
+    return response.data.bundle;
+  }
+
+  // Calls
+  async getCallIceServers(callId: string): Promise<CallIceServers> {
+    const response = await this.client.get(`/api/calls/${callId}/ice-servers`);
+    return { ...response.data, expiresAt: new Date(response.data.expiresAt) };
+  }
+
+  async removeCallParticipant(callId: string, userId: string): Promise<Call> {
+    const response = await this.client.delete(`/api/calls/${callId}/participants/${userId}`);
+    return response.data.call;
+  }
+
+  async requestParticipantMute(callId: string, userId: string, media: { audio?: boolean; video?: boolean } = {}): Promise<void> {
+    await this.client.post(`/api/calls/${callId}/participants/${userId}/mute`, media);
+  }
+
+  async rejoinCall(callId: string): Promise<Call> {
+    const response = await this.client.post(`/api/calls/${callId}/rejoin`);
+    return response.data.call;
+  }
+
+  async getCallQuality(callId: string): Promise<CallQualitySummary> {
+    const response = await this.client.get(`/api/calls/${callId}/quality`);
+    return response.data.quality;
+  }
+
   // Generic request method
   async request<T>(config: AxiosRequestConfig): Promise<T> {
     const response = await this.client.request(config);
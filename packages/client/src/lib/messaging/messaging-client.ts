@@ -1,16 +1,63 @@
 import { io, Socket } from 'socket.io-client';
-import OfflineStorage, { Message, OfflineQueue } from './offline-storage';
+import {
+  CONFIG,
+  CallKey,
+  CallKeyDelivery,
+  CallKeyRing,
+  CallMuteRequest,
+  CallParticipantUpdate,
+  CallQualityMetrics,
+  ClientToServerEvents,
+  DeviceIdentity,
+  MessageEnvelopePayload,
+  MessageStatusUpdate,
+  PreKeyInitiation,
+  PresenceUpdate,
+  SendMessageBundleEvent,
+  SocketAckCallback,
+  ServerToClientEvents,
+  SessionManager,
+  SessionStore,
+  StaleDevices,
+  SyncResponse,
+  createCallKey,
+  createCallKeyDistribution,
+  packMessageHeader,
+  processCallKeyDistribution,
+  unpackMessageHeader
+} from '@private-messaging/shared';
+import { apiClient } from '../api';
+import { PublicKeyBundle } from '@/types/admin';
+import OfflineStorage, { ConversationSettings, Message, OfflineQueue } from './offline-storage';
 import SearchEngine from './search-engine';
+import IndexedDBSessionStore from './session-store';
 
 interface MessagingClientOptions {
   serverUrl: string;
   token: string;
   deviceId: string;
   userId: string;
+  identity: DeviceIdentity; // This device's long-term keys
+  sessionStore?: SessionStore; // Defaults to IndexedDB
   onMessage?: (message: Message) => void;
+  onMessageUpdate?: (message: Message) => void; // Edits, deletions and reactions
+  onMessagesExpired?: (messageIds: string[]) => void; // Disappearing messages removed locally
+  onConversationSettingsChange?: (settings: ConversationSettings) => void;
   onMessageStatusUpdate?: (update: { messageId: string; status: string; timestamp: Date }) => void;
   onConnectionStatusChange?: (connected: boolean) => void;
   onTypingIndicator?: (data: { userId: string; conversationId: string; isTyping: boolean }) => void;
+  onPresenceChange?: (update: PresenceUpdate) => void;
+  onCallKey?: (callId: string, callKey: CallKey, from: { userId: string; deviceId: string }) => void;
+  onCallParticipantUpdate?: (update: CallParticipantUpdate) => void;
+  onCallMuteRequest?: (request: CallMuteRequest) => void; // From the host; muting is up to the app
+}
+
+// The server knows a different device list than the one we encrypted for
+class StaleDevicesError extends Error {
+  constructor(public staleDevices: StaleDevices[]) {
+    super('Stale devices');
+    this.name = 'StaleDevicesError';
+  }
 }
 
 interface SendMessageOptions {
@@ -23,7 +70,7 @@ interface SendMessageOptions {
 }
 
 class MessagingClient {
-  private socket: Socket | null = null;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
   private offlineStorage: OfflineStorage;
   private searchEngine: SearchEngine;
   private options: MessagingClientOptions;
@@ -33,20 +80,33 @@ class MessagingClient {
   private reconnectDelay = 1000;
   private syncInProgress = new Set<string>();
   private messageCallbacks = new Map<string, Function>();
+  private presenceState: 'online' | 'away' = 'online';
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private expiryTimer: ReturnType<typeof setInterval> | null = null;
+  private sessionStore: SessionStore;
+  private sessions: SessionManager;
+  private callKeys = new CallKeyRing(); // Keys peers sent us, per call
+  private ownCallKeys = new Map<string, CallKey>(); // Keys we sent, per call
 
   constructor(options: MessagingClientOptions) {
     this.options = options;
     this.offlineStorage = new OfflineStorage();
     this.searchEngine = new SearchEngine();
+    this.sessionStore = options.sessionStore || new IndexedDBSessionStore();
+    this.sessions = new SessionManager(options.identity, this.sessionStore);
   }
 
   async initialize(): Promise<void> {
     try {
       // Initialize offline storage
       await this.offlineStorage.init();
+      if (this.sessionStore instanceof IndexedDBSessionStore) {
+        await this.sessionStore.init();
+      }
       
       // Initialize search engine with messages from storage
       await this.initializeSearchEngine();
+      this.startExpirySweeper();
       
       // Connect to server
       await this.connect();
@@ -89,6 +149,7 @@ class MessagingClient {
         console.log('Connected to messaging server');
         this.isConnected = true;
         this.reconnectAttempts = 0;
+        this.startHeartbeat();
         this.options.onConnectionStatusChange?.(true);
         resolve();
       });
@@ -96,6 +157,7 @@ class MessagingClient {
       this.socket.on('disconnect', () => {
         console.log('Disconnected from messaging server');
         this.isConnected = false;
+        this.stopHeartbeat();
         this.options.onConnectionStatusChange?.(false);
       });
 
@@ -109,12 +171,12 @@ class MessagingClient {
       });
 
       // Message handlers
-      this.socket.on('newMessage', async (message: Message) => {
-        await this.handleIncomingMessage(message);
+      this.socket.on('newMessage', async (envelope) => {
+        await this.handleIncomingMessage(envelope);
       });
 
-      this.socket.on('messageSync', async (message: Message) => {
-        await this.handleMessageSync(message);
+      this.socket.on('messageSync', async (envelope) => {
+        await this.handleMessageSync(envelope);
       });
 
       this.socket.on('messageStatusUpdate', (update) => {
@@ -133,10 +195,27 @@ class MessagingClient {
       this.socket.on('userStoppedTyping', (data) => {
         this.options.onTypingIndicator?.({ ...data, isTyping: false });
       });
+
+      // Presence of contacts
+      this.socket.on('user:online', (update) => this.options.onPresenceChange?.(update));
+      this.socket.on('user:status', (update) => this.options.onPresenceChange?.(update));
+      this.socket.on('user:offline', (update) => this.options.onPresenceChange?.(update));
+
+      // Call frame keys
+      this.socket.on('webrtc:call-key', async (delivery) => {
+        await this.handleCallKey(delivery);
+      });
+
+      // Group call members
+      this.socket.on('webrtc:participant-update', (update) => this.options.onCallParticipantUpdate?.(update));
+      this.socket.on('webrtc:mute-request', (request) => this.options.onCallMuteRequest?.(request));
     });
   }
 
   async disconnect(): Promise<void> {
+    this.stopHeartbeat();
+    this.stopExpirySweeper();
+
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
@@ -151,7 +230,7 @@ class MessagingClient {
     }
 
     return new Promise((resolve, reject) => {
-      this.socket!.emit('registerDevice', { conversationIds }, (response: any) => {
+      this.socket!.emit('registerDevice', { conversationIds }, (response) => {
         if (response?.success) {
           resolve();
         } else {
@@ -163,7 +242,11 @@ class MessagingClient {
 
   async sendMessage(options: SendMessageOptions): Promise<string> {
     const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const settings = await this.offlineStorage.getConversationSettings(options.conversationId);
+    const expiresIn = settings?.disappearingMessagesSeconds ?? undefined;
     
+    // The plaintext only ever lives on this device; ciphertext is produced
+    // per recipient device when the message is delivered
     const message: Message = {
       id: messageId,
       messageId,
@@ -171,14 +254,17 @@ class MessagingClient {
       senderId: this.options.userId,
       recipientId: options.recipientId,
       content: options.content,
-      encryptedContent: options.content, // TODO: Add encryption
+      encryptedContent: '',
       messageType: options.messageType || 'text',
       status: 'pending',
       timestamp: new Date(),
       createdAt: new Date(),
       updatedAt: new Date(),
       metadata: options.metadata,
-      replyToMessageId: options.replyToMessageId
+      replyToMessageId: options.replyToMessageId,
+      // We have seen our own message, so its timer starts now
+      expiresIn,
+      expiresAt: expiresIn ? new Date(Date.now() + expiresIn * 1000) : undefined
     };
 
     // Save message locally first
@@ -187,21 +273,7 @@ class MessagingClient {
 
     if (this.isConnected && this.socket) {
       try {
-        // Send message to server
-        const response = await new Promise<any>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            reject(new Error('Message send timeout'));
-          }, 10000);
-
-          this.socket!.emit('sendMessage', message, (response: any) => {
-            clearTimeout(timeout);
-            if (response?.success) {
-              resolve(response);
-            } else {
-              reject(new Error(response?.error || 'Failed to send message'));
-            }
-          });
-        });
+        await this.deliverMessage(message, 10000);
 
         // Update message status
         message.status = 'sent';
@@ -228,6 +300,564 @@ class MessagingClient {
     }
   }
 
+  // Edit one of our messages on every participant device
+  async editMessage(messageId: string, content: string): Promise<void> {
+    const message = await this.getLiveMessage(messageId);
+    if (message.senderId !== this.options.userId) {
+      throw new Error('Only the sender can edit a message');
+    }
+
+    await this.sendControl('editMessage', message, { content });
+    await this.applyEdit(message, content, new Date());
+  }
+
+  /**
+   * Delete a message for this user's devices, or for every participant.
+   * Deleting for everyone is limited to our own messages and to a window
+   * after sending, which the server enforces.
+   */
+  async deleteMessage(messageId: string, scope: 'me' | 'everyone'): Promise<void> {
+    const message = await this.getLiveMessage(messageId);
+    if (scope === 'everyone' && message.senderId !== this.options.userId) {
+      throw new Error('Only the sender can delete a message for everyone');
+    }
+
+    await this.sendControl('deleteMessage', message, {}, scope);
+    await this.applyDelete(message, scope);
+  }
+
+  // React to a message; null removes our reaction
+  async reactToMessage(messageId: string, emoji: string | null): Promise<void> {
+    const message = await this.getLiveMessage(messageId);
+
+    await this.sendControl('reactToMessage', message, { emoji });
+    await this.applyReaction(message, this.options.userId, emoji);
+  }
+
+  /**
+   * Turn disappearing messages on for a pairwise conversation, or off with
+   * null. The timer applies to messages sent afterwards and starts when a
+   * message is read; either participant may change it.
+   */
+  async setDisappearingMessages(conversationId: string, recipientId: string, seconds: number | null): Promise<void> {
+    if (seconds !== null && (
+      !Number.isInteger(seconds) ||
+      seconds < CONFIG.DISAPPEARING_MESSAGES_MIN_SECONDS ||
+      seconds > CONFIG.DISAPPEARING_MESSAGES_MAX_SECONDS
+    )) {
+      throw new Error('Invalid disappearing messages timer');
+    }
+
+    if (!this.socket?.connected) {
+      throw new Error('Not connected to server');
+    }
+
+    const messageId = `ctl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    await this.withDeviceRefresh(async () => {
+      const control = {
+        messageId,
+        conversationId,
+        recipientId,
+        envelopes: await this.encryptForDevices(recipientId, JSON.stringify({ seconds }))
+      };
+
+      await this.awaitAck(10000, ack => this.socket!.emit('setDisappearingMessages', control, ack));
+    });
+
+    await this.applyTimer(conversationId, this.options.userId, seconds, new Date());
+  }
+
+  async getConversationSettings(conversationId: string): Promise<ConversationSettings | null> {
+    return this.offlineStorage.getConversationSettings(conversationId);
+  }
+
+  /**
+   * Send a fresh frame key for a call to the given devices over their
+   * pairwise sessions. Call it when the call connects and, in group calls,
+   * again whenever someone joins or leaves, listing only the devices still in
+   * the call so departed participants never see the new key.
+   */
+  async distributeCallKey(callId: string, targets: Array<{ userId: string; deviceId: string }>): Promise<CallKey> {
+    if (!this.socket?.connected) {
+      throw new Error('Not connected to server');
+    }
+
+    for (const userId of Array.from(new Set(targets.map(target => target.userId)))) {
+      await this.ensureSessions(userId);
+    }
+
+    const callKey = await createCallKey(callId, this.ownCallKeys.get(callId));
+    const event = {
+      callId,
+      keyEpoch: callKey.epoch,
+      envelopes: await this.encryptForTargets(targets, await createCallKeyDistribution(callKey))
+    };
+
+    await this.awaitAck(10000, ack => this.socket!.emit('webrtc:call-key', event, ack));
+
+    this.ownCallKeys.set(callId, callKey);
+    return callKey;
+  }
+
+  // The key we encrypt our own frames with, if we sent one
+  getOwnCallKey(callId: string): CallKey | undefined {
+    return this.ownCallKeys.get(callId);
+  }
+
+  // A key a peer sent for the given epoch, or their newest one
+  getCallKey(callId: string, epoch?: number): CallKey | undefined {
+    return epoch === undefined ? this.callKeys.current(callId) : this.callKeys.get(callId, epoch);
+  }
+
+  // Tell everyone in a call which of our tracks are on
+  async updateCallMedia(
+    callId: string,
+    media: { audioEnabled: boolean; videoEnabled: boolean; screenShareEnabled: boolean }
+  ): Promise<void> {
+    if (!this.socket?.connected) {
+      throw new Error('Not connected to server');
+    }
+
+    await this.awaitAck(10000, ack => this.socket!.emit('webrtc:media', { callId, ...media }, ack));
+  }
+
+  // Report WebRTC stats for our leg of a call; the server keeps one sample
+  // per CONFIG.CALL_STATS_MIN_INTERVAL_MS
+  async reportCallStats(callId: string, stats: CallQualityMetrics): Promise<void> {
+    if (!this.socket?.connected) {
+      throw new Error('Not connected to server');
+    }
+
+    await this.awaitAck(10000, ack => this.socket!.emit('webrtc:stats', { callId, ...stats }, ack));
+  }
+
+  // Forget every key of a call once it has ended
+  forgetCallKeys(callId: string): void {
+    this.callKeys.remove(callId);
+    this.ownCallKeys.delete(callId);
+  }
+
+  private async getLiveMessage(messageId: string): Promise<Message> {
+    const message = await this.offlineStorage.getMessage(messageId);
+    if (!message || message.deletedAt) {
+      throw new Error('Message not found');
+    }
+    return message;
+  }
+
+  /**
+   * Send an encrypted control message about a message of a pairwise
+   * conversation. Deleting for me only tells our other devices.
+   */
+  private async sendControl(
+    event: 'editMessage' | 'deleteMessage' | 'reactToMessage',
+    target: Message,
+    payload: Record<string, unknown>,
+    scope?: 'me' | 'everyone'
+  ): Promise<void> {
+    if (!this.socket?.connected) {
+      throw new Error('Not connected to server');
+    }
+
+    const peerId = target.senderId === this.options.userId ? target.recipientId : target.senderId;
+    const recipientId = scope === 'me' ? this.options.userId : peerId;
+    const messageId = `ctl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    await this.withDeviceRefresh(async () => {
+      const control = {
+        messageId,
+        conversationId: target.conversationId,
+        targetMessageId: target.messageId,
+        recipientId,
+        envelopes: await this.encryptForDevices(recipientId, JSON.stringify(payload))
+      };
+
+      await this.awaitAck(10000, ack => event === 'deleteMessage'
+        ? this.socket!.emit('deleteMessage', { ...control, scope: scope! }, ack)
+        : this.socket!.emit(event, control, ack));
+    });
+  }
+
+  /**
+   * Encrypt a message for every device of the recipient and every other
+   * device of ours, and send the copies as one bundle. When the server
+   * reports devices we missed or that are gone, sessions are brought up to
+   * date and the bundle is rebuilt once.
+   */
+  private async deliverMessage(message: Message, timeoutMs: number): Promise<void> {
+    await this.withDeviceRefresh(async () => {
+      const bundle = await this.buildBundle(message);
+      await this.awaitAck(timeoutMs, ack => this.socket!.emit('sendMessageBundle', bundle, ack));
+    });
+  }
+
+  private async withDeviceRefresh(send: () => Promise<void>): Promise<void> {
+    try {
+      await send();
+    } catch (error) {
+      if (!(error instanceof StaleDevicesError)) {
+        throw error;
+      }
+
+      await this.updateDeviceSessions(error.staleDevices);
+      await send();
+    }
+  }
+
+  private async buildBundle(message: Message): Promise<SendMessageBundleEvent> {
+    if (message.messageType === 'system') {
+      throw new Error('System messages are never sent to the server');
+    }
+
+    return {
+      messageId: message.messageId,
+      conversationId: message.conversationId,
+      recipientId: message.recipientId,
+      messageType: message.messageType,
+      metadata: message.metadata,
+      replyToMessageId: message.replyToMessageId,
+      expiresIn: message.expiresIn,
+      envelopes: await this.encryptForDevices(message.recipientId, message.content)
+    };
+  }
+
+  // One copy for every device of the recipient and every other device of ours
+  private async encryptForDevices(recipientId: string, plaintext: string): Promise<SendMessageBundleEvent['envelopes']> {
+    const recipientDevices = recipientId === this.options.userId ? [] : await this.ensureSessions(recipientId);
+    const targets = [
+      ...recipientDevices.map(deviceId => ({ userId: recipientId, deviceId })),
+      ...(await this.sessions.getDevices(this.options.userId))
+        .filter(deviceId => deviceId !== this.options.deviceId)
+        .map(deviceId => ({ userId: this.options.userId, deviceId }))
+    ];
+
+    return this.encryptForTargets(targets, plaintext);
+  }
+
+  private async encryptForTargets(
+    targets: Array<{ userId: string; deviceId: string }>,
+    plaintext: string
+  ): Promise<SendMessageBundleEvent['envelopes']> {
+    const envelopes = [];
+    for (const target of targets) {
+      const { message: encrypted, preKey } = await this.sessions.encrypt(target, plaintext);
+
+      envelopes.push({
+        ...target,
+        encryptedContent: encrypted.ciphertext,
+        doubleRatchetHeader: await unpackMessageHeader(encrypted.header),
+        ...(preKey && {
+          preKeyId: preKey.preKeyId,
+          oneTimePreKeyId: preKey.oneTimePreKeyId,
+          senderIdentityKey: preKey.identityKey,
+          senderEphemeralKey: preKey.ephemeralKey
+        })
+      });
+    }
+
+    return envelopes;
+  }
+
+  private awaitAck(timeoutMs: number, emit: (ack: SocketAckCallback) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error('Message send timeout'));
+      }, timeoutMs);
+
+      emit((response) => {
+        clearTimeout(timeout);
+        if (response?.success) {
+          resolve();
+        } else if (response?.code === 'STALE_DEVICES' && response.staleDevices) {
+          reject(new StaleDevicesError(response.staleDevices));
+        } else {
+          reject(new Error(response?.error || 'Failed to send message'));
+        }
+      });
+    });
+  }
+
+  // Drop sessions with removed devices and set up sessions with added ones
+  private async updateDeviceSessions(staleDevices: StaleDevices[]): Promise<void> {
+    for (const { userId, added, removed } of staleDevices) {
+      for (const deviceId of removed) {
+        await this.sessions.removeSession({ userId, deviceId });
+      }
+
+      for (const deviceId of added) {
+        await this.initiateSession(userId, await apiClient.getKeyBundle(userId, deviceId));
+      }
+    }
+  }
+
+  /**
+   * Devices of a user we hold sessions with, running X3DH against the user's
+   * published bundles the first time we write to them
+   */
+  private async ensureSessions(userId: string): Promise<string[]> {
+    const deviceIds = await this.sessions.getDevices(userId);
+    if (deviceIds.length > 0) {
+      return deviceIds;
+    }
+
+    const bundles = await apiClient.getKeyBundles(userId);
+    if (bundles.length === 0) {
+      throw new Error('Recipient has no devices with published keys');
+    }
+
+    for (const bundle of bundles) {
+      await this.initiateSession(userId, bundle);
+    }
+
+    return bundles.map(bundle => bundle.deviceId);
+  }
+
+  private async initiateSession(userId: string, bundle: PublicKeyBundle): Promise<void> {
+    await this.sessions.initiate(
+      { userId, deviceId: bundle.deviceId },
+      {
+        identityKey: bundle.identityKey,
+        signedPreKey: bundle.signedPreKey.publicKey,
+        signature: bundle.signedPreKey.signature,
+        oneTimePreKey: bundle.oneTimePreKey?.publicKey
+      },
+      {
+        preKeyId: bundle.signedPreKey.keyId,
+        oneTimePreKeyId: bundle.oneTimePreKey?.keyId
+      }
+    );
+  }
+
+  /**
+   * Decrypt an envelope from a peer device; envelopes carrying X3DH fields
+   * may start a new session
+   */
+  private async decryptEnvelope(envelope: MessageEnvelopePayload | CallKeyDelivery): Promise<string> {
+    const label = 'callId' in envelope ? `Call key for ${envelope.callId}` : `Message ${envelope.messageId}`;
+    if (!envelope.senderDeviceId || !envelope.doubleRatchetHeader) {
+      throw new Error(`${label} is not an encrypted envelope`);
+    }
+
+    let initiation: PreKeyInitiation | undefined;
+    if (envelope.senderEphemeralKey) {
+      if (!envelope.senderIdentityKey || envelope.preKeyId === undefined) {
+        throw new Error(`${label} has an incomplete X3DH initiation`);
+      }
+
+      initiation = {
+        identityKey: envelope.senderIdentityKey,
+        ephemeralKey: envelope.senderEphemeralKey,
+        preKeyId: envelope.preKeyId,
+        oneTimePreKeyId: envelope.oneTimePreKeyId
+      };
+    }
+
+    return this.sessions.decrypt(
+      { userId: this.idOf(envelope.senderId), deviceId: envelope.senderDeviceId },
+      {
+        header: await packMessageHeader(envelope.doubleRatchetHeader),
+        ciphertext: envelope.encryptedContent
+      },
+      initiation
+    );
+  }
+
+  /**
+   * Turn a received envelope into a local message. Returns null for envelopes
+   * addressed to another device; already stored messages are not decrypted
+   * again since their message keys are gone.
+   */
+  private async openEnvelope(envelope: MessageEnvelopePayload): Promise<Message | null> {
+    if (envelope.recipientDeviceId && envelope.recipientDeviceId !== this.options.deviceId) {
+      return null;
+    }
+
+    const messageId = this.localMessageId(envelope);
+    const existing = await this.offlineStorage.getMessage(messageId);
+    if (existing) {
+      return {
+        ...existing,
+        status: envelope.status,
+        updatedAt: envelope.updatedAt,
+        deletedAt: envelope.deletedAt
+      };
+    }
+
+    const content = await this.decryptEnvelope(envelope);
+    const senderId = this.idOf(envelope.senderId);
+
+    return {
+      ...envelope,
+      id: messageId,
+      messageId,
+      senderId,
+      recipientId: this.idOf(envelope.recipientId),
+      content,
+      timestamp: envelope.createdAt,
+      // The server started the timer of our own messages when they were
+      // sent; others wait until we read them. Stored as a Date so the expiry
+      // index orders it with the timers this device starts.
+      expiresAt: envelope.expiresIn && senderId === this.options.userId && envelope.expiresAt
+        ? new Date(envelope.expiresAt)
+        : undefined
+    };
+  }
+
+  // Copies of a bundle are stored under the sender's message id, which is
+  // what edits, deletions and reactions refer to
+  private localMessageId(envelope: MessageEnvelopePayload): string {
+    return envelope.bundleMessageId ?? envelope.messageId;
+  }
+
+  /**
+   * Apply an edit, deletion, reaction or timer change. Controls for messages
+   * we do not have, or that their sender was not allowed to send, are
+   * dropped.
+   */
+  private async applyControl(envelope: MessageEnvelopePayload): Promise<void> {
+    const control = envelope.control!;
+    const senderId = this.idOf(envelope.senderId);
+
+    if (control.action === 'timer') {
+      const { seconds } = JSON.parse(await this.decryptEnvelope(envelope));
+      await this.applyTimer(
+        envelope.conversationId,
+        senderId,
+        typeof seconds === 'number' ? seconds : null,
+        new Date(envelope.createdAt)
+      );
+      return;
+    }
+
+    const target = control.targetMessageId && await this.offlineStorage.getMessage(control.targetMessageId);
+    if (!target || target.deletedAt) {
+      return;
+    }
+
+    const payload = JSON.parse(await this.decryptEnvelope(envelope));
+
+    switch (control.action) {
+      case 'edit':
+        if (senderId === target.senderId) {
+          await this.applyEdit(target, String(payload.content), new Date(envelope.createdAt));
+        }
+        break;
+      case 'delete':
+        if (senderId === (control.scope === 'me' ? this.options.userId : target.senderId)) {
+          await this.applyDelete(target, control.scope ?? 'everyone');
+        }
+        break;
+      case 'react':
+        await this.applyReaction(target, senderId, typeof payload.emoji === 'string' ? payload.emoji : null);
+        break;
+    }
+  }
+
+  private async applyEdit(message: Message, content: string, editedAt: Date): Promise<void> {
+    const updated: Message = {
+      ...message,
+      content,
+      editHistory: [...(message.editHistory || []), { editedAt, previousContent: message.content }],
+      editedAt,
+      updatedAt: new Date()
+    };
+
+    await this.offlineStorage.saveMessage(updated);
+    await this.searchEngine.updateMessage(updated);
+    this.options.onMessageUpdate?.(updated);
+  }
+
+  // Deleted for everyone leaves a tombstone; deleted for me leaves nothing
+  private async applyDelete(message: Message, scope: 'me' | 'everyone'): Promise<void> {
+    const deleted: Message = {
+      ...message,
+      content: '',
+      editHistory: [],
+      reactions: undefined,
+      deletedAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    if (scope === 'me') {
+      await this.offlineStorage.deleteMessage(message.messageId);
+    } else {
+      await this.offlineStorage.saveMessage(deleted);
+    }
+    await this.searchEngine.removeMessage(message.messageId);
+    this.options.onMessageUpdate?.(deleted);
+  }
+
+  private async applyReaction(message: Message, userId: string, emoji: string | null): Promise<void> {
+    const reactions = { ...message.reactions };
+    if (emoji) {
+      reactions[userId] = emoji;
+    } else {
+      delete reactions[userId];
+    }
+
+    const updated: Message = { ...message, reactions, updatedAt: new Date() };
+    await this.offlineStorage.saveMessage(updated);
+    this.options.onMessageUpdate?.(updated);
+  }
+
+  // Timer changes can arrive out of order; the latest one wins
+  private async applyTimer(conversationId: string, userId: string, seconds: number | null, updatedAt: Date): Promise<void> {
+    const current = await this.offlineStorage.getConversationSettings(conversationId);
+    if (current && new Date(current.updatedAt) > updatedAt) {
+      return;
+    }
+
+    const settings: ConversationSettings = {
+      conversationId,
+      disappearingMessagesSeconds: seconds,
+      updatedAt,
+      updatedBy: userId
+    };
+    await this.offlineStorage.saveConversationSettings(settings);
+    this.options.onConversationSettingsChange?.(settings);
+  }
+
+  // A disappearing message's timer starts when this device reads it
+  private async startExpiryTimer(messageId: string): Promise<void> {
+    const message = await this.offlineStorage.getMessage(messageId);
+    if (!message?.expiresIn || message.expiresAt) {
+      return;
+    }
+
+    const updated: Message = { ...message, expiresAt: new Date(Date.now() + message.expiresIn * 1000) };
+    await this.offlineStorage.saveMessage(updated);
+    await this.searchEngine.updateMessage(updated);
+  }
+
+  private startExpirySweeper(): void {
+    this.stopExpirySweeper();
+    this.expiryTimer = setInterval(() => {
+      this.sweepExpiredMessages().catch(error => {
+        console.error('Failed to remove expired messages:', error);
+      });
+    }, CONFIG.DISAPPEARING_MESSAGES_SWEEP_INTERVAL_MS);
+  }
+
+  private stopExpirySweeper(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  private async sweepExpiredMessages(): Promise<void> {
+    const messageIds = await this.offlineStorage.deleteExpiredMessages();
+    await this.searchEngine.removeExpired(messageIds);
+    if (messageIds.length > 0) {
+      this.options.onMessagesExpired?.(messageIds);
+    }
+  }
+
+  // Synced envelopes may have populated sender/recipient documents
+  private idOf(ref: any): string {
+    return typeof ref === 'object' && ref !== null ? String(ref._id) : String(ref);
+  }
+
   async getMessages(conversationId: string, limit = 50, offset = 0): Promise<Message[]> {
     return this.offlineStorage.getMessages(conversationId, limit, offset);
   }
@@ -259,6 +889,9 @@ class MessagingClient {
 
     // Update local status
     await this.offlineStorage.updateMessageStatus(messageId, status);
+    if (status === 'read') {
+      await this.startExpiryTimer(messageId);
+    }
   }
 
   async requestSync(conversationId?: string, lastSyncTime?: Date): Promise<void> {
@@ -297,8 +930,50 @@ class MessagingClient {
     }
   }
 
-  private async handleIncomingMessage(message: Message): Promise<void> {
+  // Mark this device away (e.g. the tab is hidden) or back online
+  setPresence(state: 'online' | 'away'): void {
+    this.presenceState = state;
+    if (this.socket?.connected) {
+      this.socket.emit('presence:heartbeat', { state });
+    }
+  }
+
+  // The server drops devices that miss heartbeats for the presence TTL
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (this.socket?.connected) {
+        this.socket.emit('presence:heartbeat', { state: this.presenceState });
+      }
+    }, CONFIG.PRESENCE_HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private async handleIncomingMessage(envelope: MessageEnvelopePayload): Promise<void> {
     try {
+      // Delivery is at least once; a redelivered envelope only needs its ack,
+      // and the local status is left alone
+      if (await this.offlineStorage.getMessage(this.localMessageId(envelope))) {
+        this.socket?.emit('acknowledgeMessage', {
+          messageId: envelope.messageId,
+          status: 'delivered',
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      // Decrypt before anything is stored or indexed
+      const message = await this.openEnvelope(envelope);
+      if (!message) {
+        return;
+      }
+
       // Save message to local storage
       await this.offlineStorage.saveMessage(message);
       
@@ -315,37 +990,87 @@ class MessagingClient {
     }
   }
 
-  private async handleMessageSync(message: Message): Promise<void> {
+  private async handleMessageSync(envelope: MessageEnvelopePayload): Promise<void> {
     try {
-      // This is for multi-device sync
-      const existingMessage = await this.offlineStorage.getMessage(message.messageId);
-      
-      if (!existingMessage || existingMessage.updatedAt < message.updatedAt) {
-        await this.offlineStorage.saveMessage(message);
-        await this.searchEngine.indexMessage(message);
+      if (envelope.control) {
+        // A control decrypts only once, so a redelivered one is acknowledged
+        // even when it cannot be applied again
+        await this.applyControl(envelope).catch(error => {
+          console.error(`Failed to apply control message ${envelope.messageId}:`, error);
+        });
+      } else {
+        // This is for multi-device sync
+        const existingMessage = await this.offlineStorage.getMessage(this.localMessageId(envelope));
+
+        if (!existingMessage || existingMessage.updatedAt < envelope.updatedAt) {
+          const message = await this.openEnvelope(envelope);
+          if (!message) {
+            return;
+          }
+
+          await this.offlineStorage.saveMessage(message);
+          await this.searchEngine.indexMessage(message);
+        }
       }
+
+      // Clears the copy from this device's inbox on the server
+      this.socket?.emit('acknowledgeMessage', {
+        messageId: envelope.messageId,
+        status: 'delivered',
+        timestamp: new Date()
+      });
     } catch (error) {
       console.error('Error handling message sync:', error);
     }
   }
 
-  private handleMessageStatusUpdate(update: {
-    messageId: string;
-    status: string;
-    timestamp: Date;
-    deviceId: string;
-  }): void {
+  /**
+   * Keep a frame key a peer sent for a call. The epoch the server saw must be
+   * the one inside the encrypted key, and keys for older epochs than one we
+   * already hold are dropped.
+   */
+  private async handleCallKey(delivery: CallKeyDelivery): Promise<void> {
+    try {
+      const callKey = await processCallKeyDistribution(await this.decryptEnvelope(delivery), delivery.callId);
+      if (callKey.epoch !== delivery.keyEpoch) {
+        throw new Error(`Call key for ${delivery.callId} has a mismatched epoch`);
+      }
+
+      if (this.callKeys.add(callKey)) {
+        this.options.onCallKey?.(delivery.callId, callKey, {
+          userId: delivery.senderId,
+          deviceId: delivery.senderDeviceId
+        });
+      }
+    } catch (error) {
+      console.error('Error handling call key:', error);
+    }
+  }
+
+  private handleMessageStatusUpdate(update: MessageStatusUpdate): void {
+    // Aggregated across the recipient's devices by the server
     this.options.onMessageStatusUpdate?.(update);
   }
 
-  private async handleSyncResponse(data: {
-    messages: Message[];
-    syncTime: Date;
-  }): Promise<void> {
+  private async handleSyncResponse(data: SyncResponse): Promise<void> {
     try {
-      for (const message of data.messages) {
-        await this.offlineStorage.saveMessage(message);
-        await this.searchEngine.indexMessage(message);
+      for (const envelope of data.messages) {
+        try {
+          if (envelope.control) {
+            await this.applyControl(envelope);
+            continue;
+          }
+
+          const message = await this.openEnvelope(envelope);
+          if (!message) {
+            continue;
+          }
+
+          await this.offlineStorage.saveMessage(message);
+          await this.searchEngine.indexMessage(message);
+        } catch (error) {
+          console.error(`Failed to decrypt synced message ${envelope.messageId}:`, error);
+        }
       }
       
       console.log(`Synced ${data.messages.length} messages at ${data.syncTime}`);
@@ -364,20 +1089,7 @@ class MessagingClient {
       
       for (const queueItem of queue) {
         try {
-          const response = await new Promise<any>((resolve, reject) => {
-            const timeout = setTimeout(() => {
-              reject(new Error('Timeout'));
-            }, 5000);
-
-            this.socket!.emit('sendMessage', queueItem.message, (response: any) => {
-              clearTimeout(timeout);
-              if (response?.success) {
-                resolve(response);
-              } else {
-                reject(new Error(response?.error || 'Failed to send'));
-              }
-            });
-          });
+          await this.deliverMessage(queueItem.message, 5000);
 
           // Successfully sent, remove from queue and update status
           await this.offlineStorage.removeFromOfflineQueue(queueItem.id);
@@ -13,11 +13,26 @@ interface Message {
   updatedAt: Date;
   metadata?: any;
   replyToMessageId?: string;
+  senderDeviceId?: string;
+  recipientDeviceId?: string;
+  doubleRatchetHeader?: {
+    dhPublicKey: string;
+    previousChainLength: number;
+    messageNumber: number;
+  };
+  preKeyId?: number;
+  oneTimePreKeyId?: number;
+  senderIdentityKey?: string;
+  senderEphemeralKey?: string;
   editHistory?: Array<{
     editedAt: Date;
     previousContent: string;
   }>;
+  editedAt?: Date;
+  reactions?: Record<string, string>; // userId -> emoji
   deletedAt?: Date;
+  expiresIn?: number; // Disappearing message timer in seconds
+  expiresAt?: Date; // Set once the timer starts
 }
 
 interface SyncState {
@@ -27,6 +42,13 @@ interface SyncState {
   syncInProgress: boolean;
 }
 
+interface ConversationSettings {
+  conversationId: string;
+  disappearingMessagesSeconds: number | null;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
 interface OfflineQueue {
   id: string;
   message: Message;
@@ -38,7 +60,7 @@ interface OfflineQueue {
 class OfflineStorage {
   private db: IDBDatabase | null = null;
   private dbName = 'MessagingApp';
-  private version = 1;
+  private version = 2;
 
   async init(): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -52,6 +74,7 @@ class OfflineStorage {
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
+        const upgrade = (event.target as IDBOpenDBRequest).transaction!;
 
         // Messages store
         if (!db.objectStoreNames.contains('messages')) {
@@ -64,6 +87,17 @@ class OfflineStorage {
           messageStore.createIndex('recipientId', 'recipientId');
         }
 
+        // Expiry index for disappearing messages (v2)
+        const messageStore = upgrade.objectStore('messages');
+        if (!messageStore.indexNames.contains('expiresAt')) {
+          messageStore.createIndex('expiresAt', 'expiresAt');
+        }
+
+        // Conversation settings store (v2)
+        if (!db.objectStoreNames.contains('conversationSettings')) {
+          db.createObjectStore('conversationSettings', { keyPath: 'conversationId' });
+        }
+
         // Offline queue store
         if (!db.objectStoreNames.contains('offlineQueue')) {
           const queueStore = db.createObjectStore('offlineQueue', { keyPath: 'id' });
@@ -278,6 +312,33 @@ class OfflineStorage {
     });
   }
 
+  // Conversation settings operations
+  async saveConversationSettings(settings: ConversationSettings): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['conversationSettings'], 'readwrite');
+      const store = transaction.objectStore('conversationSettings');
+      const request = store.put(settings);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getConversationSettings(conversationId: string): Promise<ConversationSettings | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['conversationSettings'], 'readonly');
+      const store = transaction.objectStore('conversationSettings');
+      const request = store.get(conversationId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // Search index operations
   async buildSearchIndex(message: Message): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
@@ -366,6 +427,33 @@ class OfflineStorage {
     });
   }
 
+  // Delete disappearing messages whose timer ran out; returns their message ids
+  async deleteExpiredMessages(now: Date = new Date()): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['messages', 'searchIndex'], 'readwrite');
+      const store = transaction.objectStore('messages');
+      const searchStore = transaction.objectStore('searchIndex');
+      const index = store.index('expiresAt');
+      const range = IDBKeyRange.upperBound(now);
+      const request = index.openCursor(range);
+      const deleted: string[] = [];
+
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest).result;
+        if (cursor) {
+          deleted.push(cursor.value.messageId);
+          searchStore.delete(cursor.value.messageId);
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve(deleted);
+    });
+  }
+
   async getStorageUsage(): Promise<{ messages: number; queue: number; total: number }> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -394,4 +482,4 @@ class OfflineStorage {
 }
 
 export default OfflineStorage;
-export type { Message, SyncState, OfflineQueue };
+export type { Message, SyncState, OfflineQueue, ConversationSettings };
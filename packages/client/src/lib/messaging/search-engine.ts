@@ -12,6 +12,7 @@ interface SearchDocument {
   timestamp: number;
   fileName?: string;
   tags?: string[];
+  expiresAt?: number;
 }
 
 interface SearchResult {
@@ -113,6 +114,29 @@ class SearchEngine {
     await this.rebuildIndex();
   }
 
+  // Drop disappearing messages whose timer ran out, plus any listed ids
+  async removeExpired(messageIds: string[] = [], now: number = Date.now()): Promise<number> {
+    const expired = new Set(messageIds);
+    this.documents.forEach(doc => {
+      if (doc.expiresAt !== undefined && doc.expiresAt <= now) {
+        expired.add(doc.messageId);
+      }
+    });
+
+    let removed = 0;
+    expired.forEach(messageId => {
+      if (this.documents.delete(messageId)) {
+        removed++;
+      }
+    });
+    this.indexQueue = this.indexQueue.filter(doc => !expired.has(doc.messageId));
+
+    if (removed > 0) {
+      await this.rebuildIndex();
+    }
+    return removed;
+  }
+
   async search(query: string, options: SearchOptions = {}): Promise<string[]> {
     if (!this.index || !this.isInitialized) {
       console.warn('Search engine not initialized');
@@ -189,7 +213,7 @@ class SearchEngine {
 
       results.slice(0, limit * 3).forEach(result => {
         const doc = this.documents.get(result.ref);
-        if (doc) {
+        if (doc && !this.isExpired(doc)) {
           // Extract relevant terms from content
           const words = doc.content.toLowerCase().split(/\s+/);
           const queryTerms = query.toLowerCase().split(/\s+/);
@@ -254,7 +278,8 @@ class SearchEngine {
       recipientId: message.recipientId,
       timestamp: new Date(message.timestamp).getTime(),
       fileName,
-      tags
+      tags,
+      expiresAt: message.expiresAt ? new Date(message.expiresAt).getTime() : undefined
     };
   }
 
@@ -299,7 +324,7 @@ class SearchEngine {
   private filterResults(results: lunr.Index.Result[], options: SearchOptions): lunr.Index.Result[] {
     return results.filter(result => {
       const doc = this.documents.get(result.ref);
-      if (!doc) return false;
+      if (!doc || this.isExpired(doc)) return false;
 
       // Filter by conversation
       if (options.conversationId && doc.conversationId !== options.conversationId) {
@@ -336,6 +361,11 @@ class SearchEngine {
     });
   }
 
+  // Expired documents stay hidden until the next sweep removes them
+  private isExpired(doc: SearchDocument): boolean {
+    return doc.expiresAt !== undefined && doc.expiresAt <= Date.now();
+  }
+
   private async rebuildIndex(): Promise<void> {
     if (this.rebuilding) {
       return;
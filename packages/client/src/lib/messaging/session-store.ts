@@ -0,0 +1,108 @@
+import {
+  SessionAddress,
+  SessionEntry,
+  SessionStore,
+  sessionAddressKey
+} from '@private-messaging/shared';
+
+interface StoredSession extends SessionEntry {
+  id: string;
+  userId: string;
+}
+
+// Ratchet sessions persisted in IndexedDB. Entries are stored through the
+// structured clone algorithm, which keeps Uint8Arrays and Maps intact.
+class IndexedDBSessionStore implements SessionStore {
+  private db: IDBDatabase | null = null;
+  private dbName = 'MessagingSessions';
+  private version = 1;
+
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.version);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains('sessions')) {
+          const sessionStore = db.createObjectStore('sessions', { keyPath: 'id' });
+          sessionStore.createIndex('userId', 'userId');
+        }
+      };
+    });
+  }
+
+  async load(address: SessionAddress): Promise<SessionEntry | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessions'], 'readonly');
+      const store = transaction.objectStore('sessions');
+      const request = store.get(sessionAddressKey(address));
+
+      request.onsuccess = () => {
+        const stored: StoredSession | undefined = request.result;
+        resolve(stored ? { address: stored.address, active: stored.active, archived: stored.archived } : null);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async save(entry: SessionEntry): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessions'], 'readwrite');
+      const store = transaction.objectStore('sessions');
+
+      const stored: StoredSession = {
+        ...entry,
+        id: sessionAddressKey(entry.address),
+        userId: entry.address.userId
+      };
+      const request = store.put(stored);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async remove(address: SessionAddress): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessions'], 'readwrite');
+      const store = transaction.objectStore('sessions');
+      const request = store.delete(sessionAddressKey(address));
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async listDevices(userId: string): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessions'], 'readonly');
+      const store = transaction.objectStore('sessions');
+      const request = store.index('userId').getAll(userId);
+
+      request.onsuccess = () => {
+        const devices = (request.result as StoredSession[])
+          .filter(stored => stored.active)
+          .map(stored => stored.address.deviceId);
+        resolve(devices);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export default IndexedDBSessionStore;
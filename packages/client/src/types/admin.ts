@@ -124,7 +124,9 @@ export interface Call {
     avgBitrate: number;
     avgPacketLoss: number;
     avgLatency: number;
+    avgJitter: number;
     connectionDrops: number;
+    sampleCount: number;
   };
   endReason: 'user_ended' | 'timeout' | 'network_error' | 'server_error' | 'declined';
   createdAt: string;
@@ -144,6 +146,23 @@ export interface MessageEnvelope {
   updatedAt: string;
 }
 
+export interface PublicKeyBundle {
+  userId: string;
+  deviceId: string;
+  identityKey: string;
+  signedPreKey: {
+    keyId: number;
+    publicKey: string;
+    signature: string;
+  };
+  oneTimePreKey?: {
+    keyId: number;
+    publicKey: string;
+  };
+  registrationId: number;
+  availableOneTimeKeys: number;
+}
+
 export interface UserSettings {
   theme: 'light' | 'dark' | 'system';
   notifications: {
@@ -0,0 +1,17 @@
+import type { Config } from 'jest';
+
+const config: Config = {
+  displayName: 'server',
+  preset: '../../jest.preset.ts',
+  testEnvironment: 'node',
+  transform: {
+    '^.+\.[tj]sx?$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.json' }],
+  },
+  moduleNameMapper: {
+    '^@private-messaging/shared$': '<rootDir>/../shared/src/index.ts',
+  },
+  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx'],
+  coverageDirectory: '../../coverage/packages/server',
+};
+
+export default config;
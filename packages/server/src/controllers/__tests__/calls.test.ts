@@ -0,0 +1,82 @@
+import express from 'express';
+import request from 'supertest';
+import { Types } from 'mongoose';
+import { AuditLog, Call } from '../../models';
+import callsRouter from '../calls';
+
+const userId = new Types.ObjectId();
+
+jest.mock('../../middleware/auth', () => ({
+  authenticateToken: (req: any, _res: any, next: any) => {
+    req.user = { userId, role: 'user' };
+    next();
+  },
+  deviceAuthentication: (_req: any, _res: any, next: any) => next(),
+}));
+
+jest.mock('../../middleware/rbac', () => ({
+  ...jest.requireActual('../../middleware/rbac'),
+  canCreateCall: (_req: any, _res: any, next: any) => next(),
+  canReadCall: (_req: any, _res: any, next: any) => next(),
+  canUpdateCall: (_req: any, _res: any, next: any) => next(),
+  canAccessResource: () => true,
+}));
+
+jest.mock('../../middleware/security', () => ({
+  ...jest.requireActual('../../middleware/security'),
+  callRateLimit: (_req: any, _res: any, next: any) => next(),
+  turnCredentialRateLimit: (_req: any, _res: any, next: any) => next(),
+}));
+
+jest.mock('../../socket', () => ({
+  emitCallAnswered: jest.fn(),
+  emitCallEnded: jest.fn(),
+  emitCallInvitation: jest.fn(),
+  emitMuteRequest: jest.fn(),
+  emitParticipantUpdate: jest.fn(),
+}));
+
+
+const app = express().use(express.json()).use('/calls', callsRouter);
+
+const groupCall = (status: string) => new Call({
+  callId: 'call-1',
+  type: 'video',
+  status: 'accepted',
+  isGroupCall: true,
+  initiatorId: new Types.ObjectId(),
+  participants: [{ userId, status }],
+});
+
+describe('Calls controller', () => {
+  describe('GET /:callId/ice-servers', () => {
+    const env = process.env;
+
+    beforeEach(() => {
+      process.env = { ...env, TURN_SHARED_SECRET: 'secret', TURN_SERVER_URL: 'turn:turn.example.com:3478' };
+      jest.spyOn(AuditLog as any, 'logEvent').mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      process.env = env;
+      jest.restoreAllMocks();
+    });
+
+    it('should refuse credentials to a participant removed from the call', async () => {
+      jest.spyOn(Call, 'findOne').mockResolvedValue(groupCall('removed'));
+
+      const res = await request(app).get('/calls/call-1/ice-servers');
+
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe('CALL_NOT_ACTIVE');
+    });
+
+    it('should refuse credentials to a participant who left the call', async () => {
+      jest.spyOn(Call, 'findOne').mockResolvedValue(groupCall('left'));
+
+      const res = await request(app).get('/calls/call-1/ice-servers');
+
+      expect(res.status).toBe(409);
+    });
+  });
+});
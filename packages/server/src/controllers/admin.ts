@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { authorize, Actions, Subjects } from '../middleware/rbac';
-import { AuditLog, User, Device, Session } from '../models';
+import { AuditLog, User, Device, Session, Call, CallQualitySample } from '../models';
 import { PendingApproval } from '../models/PendingApproval';
 import { authenticateToken } from '../middleware/auth';
 
@@ -120,6 +120,73 @@ const { timeframe = 'week' } = req.query;
     }
 });
 
+// Call Analytics: volume from the calls, quality from the participants'
+// stats samples
+router.get('/calls/stats', authorize(Actions.READ, Subjects.ALL), async (req: Request, res: Response) => {
+    try {
+        const { timeframe = 'day' } = req.query;
+        const endDate = new Date();
+        const startDate = new Date();
+        if (timeframe === 'week') startDate.setDate(endDate.getDate() - 7);
+        else if (timeframe === 'month') startDate.setMonth(endDate.getMonth() - 1);
+        else startDate.setDate(endDate.getDate() - 1);
+
+        const day = (field: string) => ({ $dateToString: { format: '%Y-%m-%d', date: field } });
+        const samplesInRange = { sampledAt: { $gte: startDate, $lte: endDate } };
+
+        const [[calls], [overall], qualityByDay] = await Promise.all([
+            Call.aggregate([
+                { $match: { createdAt: { $gte: startDate, $lte: endDate } } },
+                {
+                    $facet: {
+                        total: [{ $count: 'count' }],
+                        minutes: [{ $group: { _id: null, seconds: { $sum: '$duration' } } }],
+                        byType: [
+                            { $group: { _id: '$callType', count: { $sum: 1 }, seconds: { $sum: '$duration' } } },
+                            { $sort: { count: -1 } }
+                        ],
+                        byDay: [
+                            { $group: { _id: day('$createdAt'), count: { $sum: 1 }, seconds: { $sum: '$duration' } } },
+                            { $sort: { _id: 1 } }
+                        ],
+                        connectionQuality: [
+                            { $unwind: '$participants' },
+                            { $match: { 'participants.connectionQuality': { $ne: 'unknown' } } },
+                            { $group: { _id: '$participants.connectionQuality', count: { $sum: 1 } } }
+                        ]
+                    }
+                }
+            ]),
+            CallQualitySample.summarize(samplesInRange),
+            CallQualitySample.summarize(samplesInRange, day('$sampledAt'))
+        ]);
+
+        const minutes = (seconds: number) => Math.round(seconds / 60);
+
+        res.status(200).json({
+            total: calls.total[0]?.count || 0,
+            totalMinutes: minutes(calls.minutes[0]?.seconds || 0),
+            byType: calls.byType.map((group: any) => ({ type: group._id, count: group.count, minutes: minutes(group.seconds) })),
+            byDay: calls.byDay.map((group: any) => ({ date: group._id, count: group.count, minutes: minutes(group.seconds) })),
+            qualityMetrics: qualityByDay
+                .sort((a, b) => a._id.localeCompare(b._id))
+                .map(summary => ({
+                    date: summary._id,
+                    avgLatency: summary.latency.mean,
+                    avgPacketLoss: summary.packetLoss.mean,
+                    avgBitrate: summary.bitrate.mean,
+                    avgJitter: summary.jitter.mean,
+                    p95Latency: summary.latency.p95,
+                    p95PacketLoss: summary.packetLoss.p95
+                })),
+            quality: overall ? { samples: overall.samples, bitrate: overall.bitrate, packetLoss: overall.packetLoss, latency: overall.latency, jitter: overall.jitter } : null,
+            connectionQuality: calls.connectionQuality.map((group: any) => ({ quality: group._id, count: group.count }))
+        });
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to retrieve call stats' });
+    }
+});
+
 // Users Management
 router.get('/users', authorize(Actions.READ, Subjects.USER), async (req: Request, res: Response) => {
     const { page = 1, limit = 20, search = '', status = '' } = req.query;
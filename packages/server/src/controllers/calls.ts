@@ -0,0 +1,1037 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { User, Call, AuditLog } from '../models';
+import { authenticateToken, deviceAuthentication } from '../middleware/auth';
+import {
+  canCreateCall,
+  canReadCall,
+  canUpdateCall,
+  canAccessResource,
+  Actions,
+  Subjects,
+  Action
+} from '../middleware/rbac';
+import {
+  callRateLimit,
+  turnCredentialRateLimit,
+  validationSchemas
+} from '../middleware/security';
+import { callMembers, declineCall, hangUpCall, hasRoomFor, isRinging, maxCallParticipants, removeCallParticipant } from '../services/calls';
+import { buildIceServers, isTurnConfigured, mintTurnCredentials } from '../services/turn';
+import { recordCallStats, summarizeCallQuality } from '../services/callQuality';
+import {
+  emitCallAnswered,
+  emitCallEnded,
+  emitCallInvitation,
+  emitMuteRequest,
+  emitParticipantUpdate
+} from '../socket';
+
+const router = Router();
+
+// All call routes require authentication
+router.use(authenticateToken);
+
+const ACTIVE_CALL_STATUSES = ['initiated', 'ringing', 'accepted'];
+
+// Client view of a call; encryption keys and signaling credentials are never
+// returned from the REST API
+const toCallView = (call: any) => ({
+  callId: call.callId,
+  initiatorId: call.initiatorId?._id ?? call.initiatorId,
+  callType: call.callType,
+  status: call.status,
+  isGroupCall: call.isGroupCall,
+  encryption: {
+    enabled: call.encryption.enabled,
+    keyExchange: call.encryption.keyExchange,
+    keyEpoch: call.encryption.keyEpoch,
+  },
+  participants: call.participants.map((p: any) => ({
+    userId: p.userId,
+    status: p.status,
+    joinedAt: p.joinedAt,
+    leftAt: p.leftAt,
+    audioEnabled: p.audioEnabled,
+    videoEnabled: p.videoEnabled,
+    screenShareEnabled: p.screenShareEnabled,
+    connectionQuality: p.connectionQuality,
+  })),
+  duration: call.duration,
+  endReason: call.endReason,
+  createdAt: call.createdAt,
+  updatedAt: call.updatedAt,
+});
+
+const findParticipant = (call: any, userId: Types.ObjectId | string) =>
+  call.participants.find((p: any) => p.userId.equals(userId));
+
+// The initiator hosts the call: only they invite, remove and ask others to mute
+const isHost = (call: any, userId: Types.ObjectId | string) => call.initiatorId.equals(userId);
+
+// Load a call the caller may act on; calls of other users are reported as
+// missing rather than forbidden
+const loadCall = async (req: Request, action: Action) => {
+  const call = await Call.findOne({ callId: req.params.callId });
+  if (!call || !canAccessResource(req, action, Subjects.CALL, call)) {
+    return null;
+  }
+  return call;
+};
+
+// Resolve invitees: existing active users, not the caller, and not blocked
+// in either direction
+const resolveCallees = async (ids: string[], callerId: Types.ObjectId | string) => {
+  const uniqueIds = [...new Set(ids)].filter(id => id !== callerId.toString());
+  if (uniqueIds.length === 0 || !uniqueIds.every(id => Types.ObjectId.isValid(id))) {
+    return null;
+  }
+
+  const [caller, callees] = await Promise.all([
+    User.findById(callerId).select('blockedUsers'),
+    User.find({ _id: { $in: uniqueIds }, status: 'active' }).select('blockedUsers'),
+  ]);
+
+  if (!caller || callees.length !== uniqueIds.length) {
+    return null;
+  }
+
+  const blocked = callees.some(callee =>
+    callee.blockedUsers.some(id => id.equals(callerId)) ||
+    caller.blockedUsers.some(id => id.equals(callee._id))
+  );
+
+  return blocked ? null : callees.map(callee => callee._id);
+};
+
+// Initiate a call from the calling device. Callees are rung once the device
+// starts the call over the messaging socket.
+router.post('/',
+  callRateLimit,
+  deviceAuthentication,
+  canCreateCall,
+  validationSchemas.initiateCall,
+  async (req: Request, res: Response) => {
+    try {
+      const { participantIds, callType, encryption } = req.body;
+      const initiatorId = new Types.ObjectId(req.user!.userId);
+
+      const callees = await resolveCallees(participantIds, initiatorId);
+      if (!callees) {
+        return res.status(400).json({
+          error: 'One or more participants cannot be called',
+          code: 'INVALID_PARTICIPANTS'
+        });
+      }
+
+      if (callees.length + 1 > maxCallParticipants()) {
+        return res.status(400).json({
+          error: `Calls are limited to ${maxCallParticipants()} participants`,
+          code: 'TOO_MANY_PARTICIPANTS'
+        });
+      }
+
+      const call = new Call({
+        callId: crypto.randomUUID(),
+        initiatorId,
+        participantIds: [initiatorId, ...callees],
+        callType,
+        isGroupCall: callees.length > 1,
+        encryption: {
+          enabled: encryption?.enabled ?? true,
+          keyExchange: encryption?.keyExchange ?? 'DTLS-SRTP',
+        },
+        participants: [
+          {
+            userId: initiatorId,
+            deviceId: req.device._id,
+            status: 'joined',
+            joinedAt: new Date(),
+            videoEnabled: callType === 'video',
+          },
+          ...callees.map(userId => ({
+            userId,
+            status: 'invited',
+            videoEnabled: callType === 'video',
+          })),
+        ],
+        metadata: {
+          clientVersion: req.device.appVersion,
+          serverRegion: process.env.SERVER_REGION || 'default',
+        },
+      });
+
+      await call.save();
+
+      await AuditLog.logEvent({
+        action: 'call.initiated',
+        category: 'call',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        deviceId: req.device._id,
+        resourceType: 'call',
+        resourceId: call.callId,
+        description: `${callType} call initiated`,
+        metadata: {
+          callType,
+          participants: callees.length,
+          isGroupCall: call.isGroupCall,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(201).json({ call: toCallView(call) });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'call.initiate_error',
+        category: 'call',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to initiate call',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to initiate call',
+        code: 'CALL_INITIATE_ERROR'
+      });
+    }
+  }
+);
+
+// Call history of the caller, newest first
+router.get('/',
+  canReadCall,
+  validationSchemas.pagination,
+  async (req: Request, res: Response) => {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+      const userId = new Types.ObjectId(req.user!.userId);
+
+      const [calls, total] = await Promise.all([
+        Call.getUserCallHistory(userId, page, limit),
+        Call.countDocuments({
+          $or: [
+            { initiatorId: userId },
+            { participantIds: userId }
+          ]
+        }),
+      ]);
+
+      res.json({
+        calls: calls.map((call: any) => ({
+          ...toCallView(call),
+          summary: call.generateCallSummary(),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'call.history_error',
+        category: 'call',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to fetch call history',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to fetch call history',
+        code: 'CALL_HISTORY_ERROR'
+      });
+    }
+  }
+);
+
+// Get a single call
+router.get('/:callId',
+  canReadCall,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.READ);
+
+      if (!call) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      res.json({ call: toCallView(call) });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch call',
+        code: 'CALL_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+// ICE servers for the caller's leg of an active call, with TURN credentials
+// minted for this user and call. Nothing is stored; clients ask again when
+// the credentials run out.
+router.get('/:callId/ice-servers',
+  turnCredentialRateLimit,
+  canReadCall,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.READ);
+      const participant = call && findParticipant(call, req.user!.userId);
+
+      if (!call || !participant) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      // Only someone still ringing for or in the call gets relay credentials
+      if (!ACTIVE_CALL_STATUSES.includes(call.status) || !callMembers(call).includes(participant)) {
+        return res.status(409).json({
+          error: 'Call is no longer active',
+          code: 'CALL_NOT_ACTIVE'
+        });
+      }
+
+      if (!isTurnConfigured()) {
+        return res.status(503).json({
+          error: 'TURN is not configured',
+          code: 'TURN_NOT_CONFIGURED'
+        });
+      }
+
+      const credentials = mintTurnCredentials(req.user!.userId.toString(), call.callId);
+
+      await AuditLog.logEvent({
+        action: 'call.turn_credentials_issued',
+        category: 'call',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        resourceType: 'call',
+        resourceId: call.callId,
+        description: 'TURN credentials issued',
+        metadata: { expiresAt: credentials.expiresAt },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.set('Cache-Control', 'no-store');
+      res.json({
+        iceServers: buildIceServers(credentials),
+        expiresAt: credentials.expiresAt
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'call.turn_credentials_error',
+        category: 'call',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'call',
+        resourceId: req.params.callId,
+        description: 'Failed to issue TURN credentials',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to issue TURN credentials',
+        code: 'TURN_CREDENTIALS_ERROR'
+      });
+    }
+  }
+);
+
+// The host invites more participants into an active call. They are rung
+// right away once the call is ringing; people who left, declined, missed or
+// were removed can be invited again.
+router.post('/:callId/participants',
+  callRateLimit,
+  canUpdateCall,
+  validationSchemas.inviteCallParticipants,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.UPDATE);
+
+      if (!call) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      if (!ACTIVE_CALL_STATUSES.includes(call.status)) {
+        return res.status(409).json({
+          error: 'Call is no longer active',
+          code: 'CALL_NOT_ACTIVE'
+        });
+      }
+
+      const inviter = findParticipant(call, req.user!.userId);
+      if (!isHost(call, req.user!.userId) || inviter?.status !== 'joined') {
+        return res.status(403).json({
+          error: 'Only the host can invite',
+          code: 'NOT_CALL_HOST'
+        });
+      }
+
+      const callees = await resolveCallees(req.body.participantIds, req.user!.userId);
+      if (!callees) {
+        return res.status(400).json({
+          error: 'One or more participants cannot be called',
+          code: 'INVALID_PARTICIPANTS'
+        });
+      }
+
+      const invited = callees.filter(userId => {
+        const existing = findParticipant(call, userId);
+        return !existing || ['left', 'rejected', 'missed', 'removed'].includes(existing.status);
+      });
+
+      if (!hasRoomFor(call, invited.length)) {
+        return res.status(409).json({
+          error: `Calls are limited to ${maxCallParticipants()} participants`,
+          code: 'CALL_FULL'
+        });
+      }
+
+      for (const userId of invited) {
+        await call.addParticipant(userId);
+      }
+
+      if (call.status !== 'initiated') {
+        emitCallInvitation(call, invited.map(userId => userId.toString()));
+        invited.forEach(userId => emitParticipantUpdate(call, findParticipant(call, userId), 'invited'));
+      }
+
+      await AuditLog.logEvent({
+        action: 'call.participants_invited',
+        category: 'call',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        resourceType: 'call',
+        resourceId: call.callId,
+        description: 'Participants invited to call',
+        metadata: { invited: invited.length },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({ call: toCallView(call) });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'call.invite_error',
+        category: 'call',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'call',
+        resourceId: req.params.callId,
+        description: 'Failed to invite call participants',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to invite participants',
+        code: 'CALL_INVITE_ERROR'
+      });
+    }
+  }
+);
+
+// The host removes someone from a group call. Their devices get
+// webrtc:call-end with participantStatus 'removed'.
+router.delete('/:callId/participants/:userId',
+  callRateLimit,
+  canUpdateCall,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.UPDATE);
+      const host = call && findParticipant(call, req.user!.userId);
+
+      if (!call || !host) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      if (!ACTIVE_CALL_STATUSES.includes(call.status) || !call.isGroupCall) {
+        return res.status(409).json({
+          error: 'Participants can only be removed from active group calls',
+          code: 'CALL_NOT_ACTIVE'
+        });
+      }
+
+      if (!isHost(call, req.user!.userId) || host.status !== 'joined') {
+        return res.status(403).json({
+          error: 'Only the host can remove participants',
+          code: 'NOT_CALL_HOST'
+        });
+      }
+
+      const participant = Types.ObjectId.isValid(req.params.userId) && findParticipant(call, req.params.userId);
+      if (!participant || isHost(call, participant.userId) || !['invited', 'ringing', 'joined'].includes(participant.status)) {
+        return res.status(404).json({
+          error: 'Participant not found',
+          code: 'PARTICIPANT_NOT_FOUND'
+        });
+      }
+
+      await removeCallParticipant(call, participant.userId);
+      emitCallEnded(call, participant.userId.toString(), 'removed');
+
+      await AuditLog.logEvent({
+        action: 'call.participant_removed',
+        category: 'call',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        resourceType: 'call',
+        resourceId: call.callId,
+        description: 'Participant removed from call',
+        metadata: { removedUserId: participant.userId.toString(), callStatus: call.status },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({ call: toCallView(call) });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'call.remove_error',
+        category: 'call',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'call',
+        resourceId: req.params.callId,
+        description: 'Failed to remove call participant',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to remove participant',
+        code: 'CALL_REMOVE_ERROR'
+      });
+    }
+  }
+);
+
+// The host asks a joined participant to turn their audio and/or video off.
+// Only a request: the participant's client mutes and reports the change
+// over webrtc:media.
+router.post('/:callId/participants/:userId/mute',
+  callRateLimit,
+  canUpdateCall,
+  validationSchemas.muteCallParticipant,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.UPDATE);
+      const host = call && findParticipant(call, req.user!.userId);
+
+      if (!call || !host) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      if (!isHost(call, req.user!.userId) || host.status !== 'joined') {
+        return res.status(403).json({
+          error: 'Only the host can ask participants to mute',
+          code: 'NOT_CALL_HOST'
+        });
+      }
+
+      const participant = Types.ObjectId.isValid(req.params.userId) && findParticipant(call, req.params.userId);
+      if (!participant || isHost(call, participant.userId) || participant.status !== 'joined') {
+        return res.status(404).json({
+          error: 'Participant not in call',
+          code: 'PARTICIPANT_NOT_FOUND'
+        });
+      }
+
+      const { audio, video } = req.body;
+      emitMuteRequest(call, participant, audio, video);
+
+      await AuditLog.logEvent({
+        action: 'call.mute_requested',
+        category: 'call',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        resourceType: 'call',
+        resourceId: call.callId,
+        description: 'Participant asked to mute',
+        metadata: { targetUserId: participant.userId.toString(), audio, video },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(202).json({ requested: true });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to request mute',
+        code: 'CALL_MUTE_ERROR'
+      });
+    }
+  }
+);
+
+// Rejoin an ongoing call from this device: after leaving a group call that
+// went on, or to move the call over from another device, which is told the
+// call was answered elsewhere
+router.post('/:callId/rejoin',
+  callRateLimit,
+  deviceAuthentication,
+  canUpdateCall,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.UPDATE);
+      const participant = call && findParticipant(call, req.user!.userId);
+
+      if (!call || !participant) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      if (participant.status === 'left' && !hasRoomFor(call, 1)) {
+        return res.status(409).json({
+          error: `Calls are limited to ${maxCallParticipants()} participants`,
+          code: 'CALL_FULL'
+        });
+      }
+
+      const rejoined = await Call.rejoin(call.callId, participant.userId, req.device._id);
+      if (!rejoined) {
+        return res.status(409).json({
+          error: 'Call cannot be rejoined',
+          code: 'CALL_NOT_REJOINABLE'
+        });
+      }
+
+      emitCallAnswered(rejoined, req.user!.userId.toString(), req.device._id.toString());
+      emitParticipantUpdate(rejoined, findParticipant(rejoined, req.user!.userId), 'rejoined');
+
+      await AuditLog.logEvent({
+        action: 'call.rejoined',
+        category: 'call',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        deviceId: req.device._id,
+        resourceType: 'call',
+        resourceId: call.callId,
+        description: 'Call rejoined',
+        metadata: { previousStatus: participant.status },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({ call: toCallView(rejoined) });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to rejoin call',
+        code: 'CALL_REJOIN_ERROR'
+      });
+    }
+  }
+);
+
+// Accept a call on the calling device; the callee's other devices stop
+// ringing. SDP answers still go over the messaging socket.
+router.post('/:callId/accept',
+  deviceAuthentication,
+  canUpdateCall,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.UPDATE);
+      const participant = call && findParticipant(call, req.user!.userId);
+
+      if (!call || !participant) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      const accepted = ['invited', 'ringing'].includes(participant.status)
+        && await Call.claimAnswer(call.callId, participant.userId, req.device._id);
+      if (!accepted) {
+        return res.status(409).json({
+          error: 'Call can no longer be accepted',
+          code: 'CALL_NOT_ACCEPTABLE'
+        });
+      }
+
+      emitCallAnswered(accepted, req.user!.userId.toString(), req.device._id.toString());
+      emitParticipantUpdate(accepted, findParticipant(accepted, req.user!.userId), 'joined');
+
+      await AuditLog.logEvent({
+        action: 'call.accepted',
+        category: 'call',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        deviceId: req.device._id,
+        resourceType: 'call',
+        resourceId: call.callId,
+        description: 'Call accepted',
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({ call: toCallView(accepted) });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'call.accept_error',
+        category: 'call',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'call',
+        resourceId: req.params.callId,
+        description: 'Failed to accept call',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to accept call',
+        code: 'CALL_ACCEPT_ERROR'
+      });
+    }
+  }
+);
+
+// Reject a call. A rejected one-to-one call is over; group calls go on
+router.post('/:callId/reject',
+  canUpdateCall,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.UPDATE);
+      const participant = call && findParticipant(call, req.user!.userId);
+
+      if (!call || !participant) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      if (!ACTIVE_CALL_STATUSES.includes(call.status) || !['invited', 'ringing'].includes(participant.status)) {
+        return res.status(409).json({
+          error: 'Call can no longer be rejected',
+          code: 'CALL_NOT_REJECTABLE'
+        });
+      }
+
+      await declineCall(call, participant.userId);
+      emitCallEnded(call, req.user!.userId.toString(), 'rejected');
+
+      await AuditLog.logEvent({
+        action: 'call.rejected',
+        category: 'call',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        resourceType: 'call',
+        resourceId: call.callId,
+        description: 'Call rejected',
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({ call: toCallView(call) });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'call.reject_error',
+        category: 'call',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'call',
+        resourceId: req.params.callId,
+        description: 'Failed to reject call',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to reject call',
+        code: 'CALL_REJECT_ERROR'
+      });
+    }
+  }
+);
+
+// End a call. The initiator, or either side of a one-to-one call, ends it
+// for everyone; other group participants just leave. A callee whose devices
+// are still ringing declines instead.
+router.post('/:callId/end',
+  canUpdateCall,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.UPDATE);
+
+      if (!call) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      if (!ACTIVE_CALL_STATUSES.includes(call.status)) {
+        return res.status(409).json({
+          error: 'Call is no longer active',
+          code: 'CALL_NOT_ACTIVE'
+        });
+      }
+
+      const participant = findParticipant(call, req.user!.userId);
+      if (participant && isRinging(participant)) {
+        await declineCall(call, participant.userId);
+        emitCallEnded(call, req.user!.userId.toString(), 'rejected');
+
+        await AuditLog.logEvent({
+          action: 'call.rejected',
+          category: 'call',
+          severity: 'info',
+          status: 'success',
+          userId: req.user!.userId,
+          resourceType: 'call',
+          resourceId: call.callId,
+          description: 'Call rejected',
+          context: {
+            ipAddress: req.ip,
+            userAgent: req.get('User-Agent'),
+          },
+        });
+
+        return res.json({ call: toCallView(call) });
+      }
+
+      // The participant status only describes someone leaving a call that goes on
+      const ended = await hangUpCall(call, req.user!.userId);
+      emitCallEnded(call, req.user!.userId.toString(), ended ? undefined : 'left');
+
+      await AuditLog.logEvent({
+        action: ended ? 'call.ended' : 'call.left',
+        category: 'call',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        resourceType: 'call',
+        resourceId: call.callId,
+        description: ended ? 'Call ended' : 'Participant left call',
+        metadata: { duration: call.duration },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({
+        call: toCallView(call),
+        summary: call.generateCallSummary()
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'call.end_error',
+        category: 'call',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'call',
+        resourceId: req.params.callId,
+        description: 'Failed to end call',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to end call',
+        code: 'CALL_END_ERROR'
+      });
+    }
+  }
+);
+
+// Quality of a call so far: means and percentiles overall and per participant
+router.get('/:callId/quality',
+  canReadCall,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.READ);
+
+      if (!call || !findParticipant(call, req.user!.userId)) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      res.json({ quality: await summarizeCallQuality(call) });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch call quality',
+        code: 'CALL_QUALITY_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+// Report network quality stats for the caller's leg of the call, from the
+// device they are in it on. Same as the webrtc:stats socket event.
+router.post('/:callId/quality',
+  callRateLimit,
+  canUpdateCall,
+  deviceAuthentication,
+  validationSchemas.callQuality,
+  async (req: Request, res: Response) => {
+    try {
+      const call = await loadCall(req, Actions.UPDATE);
+      const participant = call && findParticipant(call, req.user!.userId);
+
+      if (!call || !participant) {
+        return res.status(404).json({
+          error: 'Call not found',
+          code: 'CALL_NOT_FOUND'
+        });
+      }
+
+      if (participant.status !== 'joined' || !participant.deviceId?.equals(req.device._id)) {
+        return res.status(409).json({
+          error: 'Not connected to this call on this device',
+          code: 'NOT_IN_CALL'
+        });
+      }
+
+      const { bitrate, packetLoss, latency, jitter } = req.body;
+      const connectionQuality = await recordCallStats(
+        call,
+        req.user!.userId,
+        req.device._id,
+        { bitrate, packetLoss, latency, jitter }
+      );
+
+      if (!connectionQuality) {
+        return res.status(429).json({
+          error: 'Quality reported too often',
+          code: 'CALL_QUALITY_THROTTLED'
+        });
+      }
+
+      res.json({ connectionQuality });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'call.quality_error',
+        category: 'call',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'call',
+        resourceId: req.params.callId,
+        description: 'Failed to record call quality',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to record call quality',
+        code: 'CALL_QUALITY_ERROR'
+      });
+    }
+  }
+);
+
+export = router;
@@ -0,0 +1,675 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { CONFIG } from '@private-messaging/shared';
+import { User, Conversation, AuditLog } from '../models';
+import { authenticateToken } from '../middleware/auth';
+import {
+  canCreateConversation,
+  canReadConversation,
+  canAccessResource,
+  Actions,
+  Subjects
+} from '../middleware/rbac';
+import {
+  messageRateLimit,
+  validationSchemas
+} from '../middleware/security';
+import {
+  joinConversationRoom,
+  leaveConversationRoom,
+  emitConversationUpdate
+} from '../socket';
+
+const router = Router();
+
+// All conversation routes require authentication
+router.use(authenticateToken);
+
+// Client view of a conversation; invite links are only shown to admins
+const toConversationView = (conversation: any, userId: Types.ObjectId | string) => ({
+  conversationId: conversation.conversationId,
+  type: conversation.type,
+  createdBy: conversation.createdBy,
+  participantIds: conversation.participantIds,
+  adminIds: conversation.adminIds,
+  encryptedTitle: conversation.encryptedTitle,
+  encryptedAvatar: conversation.encryptedAvatar,
+  maxParticipants: conversation.maxParticipants,
+  memberEvents: conversation.memberEvents,
+  ...(conversation.isAdmin(userId) && {
+    inviteLinks: conversation.inviteLinks
+      .filter((link: any) => !link.revokedAt)
+      .map((link: any) => ({
+        code: link.code,
+        createdBy: link.createdBy,
+        createdAt: link.createdAt,
+        expiresAt: link.expiresAt,
+        maxUses: link.maxUses,
+        uses: link.uses,
+      })),
+  }),
+  createdAt: conversation.createdAt,
+  updatedAt: conversation.updatedAt,
+});
+
+// Load a conversation the caller belongs to; other conversations are
+// reported as missing rather than forbidden
+const loadConversation = async (req: Request) => {
+  const conversationId = req.params.conversationId || req.body.conversationId;
+  const conversation = await Conversation.findOne({ conversationId });
+  if (!conversation || !canAccessResource(req, Actions.READ, Subjects.CONVERSATION, conversation)) {
+    return null;
+  }
+  return conversation;
+};
+
+const canManage = (req: Request, conversation: any) =>
+  canAccessResource(req, Actions.UPDATE, Subjects.CONVERSATION, conversation);
+
+// Resolve new members: existing active users other than the caller, with no
+// block in either direction
+const resolveMembers = async (ids: string[], actorId: Types.ObjectId | string) => {
+  const uniqueIds = [...new Set(ids)].filter(id => id !== actorId.toString());
+  if (uniqueIds.length === 0 || !uniqueIds.every(id => Types.ObjectId.isValid(id))) {
+    return null;
+  }
+
+  const [actor, members] = await Promise.all([
+    User.findById(actorId).select('blockedUsers'),
+    User.find({ _id: { $in: uniqueIds }, status: 'active' }).select('blockedUsers'),
+  ]);
+
+  if (!actor || members.length !== uniqueIds.length) {
+    return null;
+  }
+
+  const blocked = members.some(member =>
+    member.blockedUsers.some(id => id.equals(actorId)) ||
+    actor.blockedUsers.some(id => id.equals(member._id))
+  );
+
+  return blocked ? null : members.map(member => member._id);
+};
+
+const logConversationEvent = (req: Request, action: string, conversationId: string, description: string, metadata?: Record<string, any>) =>
+  AuditLog.logEvent({
+    action,
+    category: 'message',
+    severity: 'info',
+    status: 'success',
+    userId: req.user!.userId,
+    resourceType: 'conversation',
+    resourceId: conversationId,
+    description,
+    metadata,
+    context: {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+const logConversationError = (req: Request, action: string, description: string, error: any) =>
+  AuditLog.logEvent({
+    action,
+    category: 'message',
+    severity: 'error',
+    status: 'failure',
+    userId: req.user?.userId,
+    resourceType: 'conversation',
+    resourceId: req.params.conversationId || req.body?.conversationId,
+    description,
+    error: {
+      code: error.name,
+      message: error.message,
+    },
+    context: {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+const notFound = (res: Response) => res.status(404).json({
+  error: 'Conversation not found',
+  code: 'CONVERSATION_NOT_FOUND'
+});
+
+const notGroup = (res: Response) => res.status(400).json({
+  error: 'Only group conversations can be changed',
+  code: 'NOT_GROUP_CONVERSATION'
+});
+
+const notAdmin = (res: Response) => res.status(403).json({
+  error: 'Only group admins can do this',
+  code: 'NOT_CONVERSATION_ADMIN'
+});
+
+const conversationFull = (res: Response) => res.status(409).json({
+  error: 'Conversation is full',
+  code: 'CONVERSATION_FULL'
+});
+
+// Create a direct conversation (returned as-is if it already exists) or a group
+router.post('/create',
+  messageRateLimit,
+  canCreateConversation,
+  validationSchemas.createConversation,
+  async (req: Request, res: Response) => {
+    try {
+      const { type, participantIds, encryptedTitle, encryptedAvatar, maxParticipants } = req.body;
+      const creatorId = new Types.ObjectId(req.user!.userId);
+
+      const members = await resolveMembers(participantIds, creatorId);
+      if (!members) {
+        return res.status(400).json({
+          error: 'One or more participants cannot be added',
+          code: 'INVALID_PARTICIPANTS'
+        });
+      }
+
+      if (type === 'direct') {
+        const conversationId = Conversation.directConversationId(creatorId, members[0]);
+        const existing = await Conversation.findOne({ conversationId });
+        if (existing) {
+          return res.json({ conversation: toConversationView(existing, req.user!.userId) });
+        }
+      }
+
+      const limit = type === 'direct' ? 2 : (maxParticipants ?? CONFIG.MAX_GROUP_PARTICIPANTS);
+      if (members.length + 1 > limit) {
+        return conversationFull(res);
+      }
+
+      const conversation = new Conversation({
+        conversationId: type === 'direct'
+          ? Conversation.directConversationId(creatorId, members[0])
+          : crypto.randomUUID(),
+        type,
+        createdBy: creatorId,
+        participantIds: [creatorId, ...members],
+        adminIds: type === 'group' ? [creatorId] : [],
+        encryptedTitle: type === 'group' ? encryptedTitle : undefined,
+        encryptedAvatar: type === 'group' ? encryptedAvatar : undefined,
+        maxParticipants: limit,
+        memberEvents: [
+          { type: 'created', userId: creatorId, actorId: creatorId, timestamp: new Date() },
+          ...members.map(userId => ({ type: 'member_added', userId, actorId: creatorId, timestamp: new Date() })),
+        ],
+      });
+
+      try {
+        await conversation.save();
+      } catch (error: any) {
+        // Both users created the same direct conversation at once
+        if (error.code === 11000 && type === 'direct') {
+          const existing = await Conversation.findOne({ conversationId: conversation.conversationId });
+          if (existing) {
+            return res.json({ conversation: toConversationView(existing, req.user!.userId) });
+          }
+        }
+        throw error;
+      }
+
+      conversation.participantIds.forEach(userId =>
+        joinConversationRoom(userId.toString(), conversation.conversationId)
+      );
+
+      await logConversationEvent(req, 'conversation.created', conversation.conversationId,
+        `${type} conversation created`, { participants: conversation.participantIds.length });
+
+      res.status(201).json({ conversation: toConversationView(conversation, req.user!.userId) });
+    } catch (error: any) {
+      await logConversationError(req, 'conversation.create_error', 'Failed to create conversation', error);
+
+      res.status(500).json({
+        error: 'Failed to create conversation',
+        code: 'CONVERSATION_CREATE_ERROR'
+      });
+    }
+  }
+);
+
+// Join a group through an invite link
+router.post('/join',
+  messageRateLimit,
+  canReadConversation,
+  validationSchemas.joinConversation,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = new Types.ObjectId(req.user!.userId);
+      const conversation = await Conversation.findOne({
+        type: 'group',
+        'inviteLinks.code': req.body.inviteCode,
+      });
+
+      let joined = false;
+      try {
+        joined = !!conversation && await conversation.joinWithInviteLink(req.body.inviteCode, userId);
+      } catch (error: any) {
+        if (error.message === 'Conversation is full') {
+          return conversationFull(res);
+        }
+        throw error;
+      }
+
+      if (!conversation || !joined) {
+        return res.status(404).json({
+          error: 'Invite link is invalid or has expired',
+          code: 'INVALID_INVITE'
+        });
+      }
+
+      joinConversationRoom(req.user!.userId.toString(), conversation.conversationId);
+      emitConversationUpdate(conversation.conversationId, {
+        event: 'member_joined',
+        userId: req.user!.userId,
+      });
+
+      await logConversationEvent(req, 'conversation.joined', conversation.conversationId,
+        'User joined conversation with an invite link');
+
+      res.json({ conversation: toConversationView(conversation, req.user!.userId) });
+    } catch (error: any) {
+      await logConversationError(req, 'conversation.join_error', 'Failed to join conversation', error);
+
+      res.status(500).json({
+        error: 'Failed to join conversation',
+        code: 'CONVERSATION_JOIN_ERROR'
+      });
+    }
+  }
+);
+
+// Leave a group. Members stay in direct conversations.
+router.post('/leave',
+  messageRateLimit,
+  canReadConversation,
+  validationSchemas.leaveConversation,
+  async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req);
+      if (!conversation) {
+        return notFound(res);
+      }
+      if (conversation.type !== 'group') {
+        return notGroup(res);
+      }
+
+      const userId = new Types.ObjectId(req.user!.userId);
+      await conversation.removeParticipant(userId, userId);
+
+      // Remaining members rekey their sender keys on this event
+      emitConversationUpdate(conversation.conversationId, {
+        event: 'member_left',
+        userId: req.user!.userId,
+      });
+      leaveConversationRoom(req.user!.userId.toString(), conversation.conversationId);
+
+      await logConversationEvent(req, 'conversation.left', conversation.conversationId,
+        'User left conversation');
+
+      res.json({ message: 'Left conversation' });
+    } catch (error: any) {
+      await logConversationError(req, 'conversation.leave_error', 'Failed to leave conversation', error);
+
+      res.status(500).json({
+        error: 'Failed to leave conversation',
+        code: 'CONVERSATION_LEAVE_ERROR'
+      });
+    }
+  }
+);
+
+// Conversations of the caller, most recently updated first
+router.get('/',
+  canReadConversation,
+  validationSchemas.pagination,
+  async (req: Request, res: Response) => {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+      const query = { participantIds: new Types.ObjectId(req.user!.userId) };
+
+      const [conversations, total] = await Promise.all([
+        Conversation.find(query)
+          .sort({ updatedAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        Conversation.countDocuments(query),
+      ]);
+
+      res.json({
+        conversations: conversations.map(conversation => toConversationView(conversation, req.user!.userId)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error: any) {
+      await logConversationError(req, 'conversation.list_error', 'Failed to fetch conversations', error);
+
+      res.status(500).json({
+        error: 'Failed to fetch conversations',
+        code: 'CONVERSATION_LIST_ERROR'
+      });
+    }
+  }
+);
+
+// Get a single conversation
+router.get('/:conversationId',
+  canReadConversation,
+  async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req);
+      if (!conversation) {
+        return notFound(res);
+      }
+
+      res.json({ conversation: toConversationView(conversation, req.user!.userId) });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch conversation',
+        code: 'CONVERSATION_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+// Update a group's encrypted title/avatar or its size limit (admins only)
+router.patch('/:conversationId',
+  messageRateLimit,
+  canReadConversation,
+  validationSchemas.updateConversation,
+  async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req);
+      if (!conversation) {
+        return notFound(res);
+      }
+      if (!canManage(req, conversation)) {
+        return notAdmin(res);
+      }
+      if (conversation.type !== 'group') {
+        return notGroup(res);
+      }
+
+      const { encryptedTitle, encryptedAvatar, maxParticipants } = req.body;
+
+      // Checked against the stored member count, so a concurrent join cannot
+      // leave the group over its new limit
+      if (maxParticipants !== undefined && !(await conversation.setMaxParticipants(maxParticipants))) {
+        return res.status(409).json({
+          error: 'Limit is below the current number of participants',
+          code: 'INVALID_PARTICIPANT_LIMIT'
+        });
+      }
+
+      if (encryptedTitle !== undefined) conversation.encryptedTitle = encryptedTitle ?? undefined;
+      if (encryptedAvatar !== undefined) conversation.encryptedAvatar = encryptedAvatar ?? undefined;
+      await conversation.save();
+
+      emitConversationUpdate(conversation.conversationId, {
+        event: 'details_changed',
+        userId: req.user!.userId,
+      });
+
+      await logConversationEvent(req, 'conversation.updated', conversation.conversationId,
+        'Conversation details updated', { fields: Object.keys(req.body) });
+
+      res.json({ conversation: toConversationView(conversation, req.user!.userId) });
+    } catch (error: any) {
+      await logConversationError(req, 'conversation.update_error', 'Failed to update conversation', error);
+
+      res.status(500).json({
+        error: 'Failed to update conversation',
+        code: 'CONVERSATION_UPDATE_ERROR'
+      });
+    }
+  }
+);
+
+// Add members to a group (admins only)
+router.post('/:conversationId/participants',
+  messageRateLimit,
+  canReadConversation,
+  validationSchemas.addConversationParticipants,
+  async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req);
+      if (!conversation) {
+        return notFound(res);
+      }
+      if (!canManage(req, conversation)) {
+        return notAdmin(res);
+      }
+      if (conversation.type !== 'group') {
+        return notGroup(res);
+      }
+
+      const actorId = new Types.ObjectId(req.user!.userId);
+      const members = await resolveMembers(req.body.participantIds, actorId);
+      if (!members) {
+        return res.status(400).json({
+          error: 'One or more participants cannot be added',
+          code: 'INVALID_PARTICIPANTS'
+        });
+      }
+
+      let added;
+      try {
+        added = await conversation.addParticipants(members, actorId);
+      } catch (error: any) {
+        if (error.message === 'Conversation is full') {
+          return conversationFull(res);
+        }
+        throw error;
+      }
+
+      added.forEach(userId => {
+        joinConversationRoom(userId.toString(), conversation.conversationId);
+        emitConversationUpdate(conversation.conversationId, {
+          event: 'member_added',
+          userId: userId.toString(),
+          actorId: req.user!.userId,
+        });
+      });
+
+      await logConversationEvent(req, 'conversation.participants_added', conversation.conversationId,
+        'Participants added to conversation', { added: added.length });
+
+      res.json({ conversation: toConversationView(conversation, req.user!.userId) });
+    } catch (error: any) {
+      await logConversationError(req, 'conversation.add_participants_error', 'Failed to add participants', error);
+
+      res.status(500).json({
+        error: 'Failed to add participants',
+        code: 'CONVERSATION_ADD_PARTICIPANTS_ERROR'
+      });
+    }
+  }
+);
+
+// Remove a member from a group (admins only)
+router.delete('/:conversationId/participants/:userId',
+  messageRateLimit,
+  canReadConversation,
+  async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req);
+      if (!conversation) {
+        return notFound(res);
+      }
+      if (!canManage(req, conversation)) {
+        return notAdmin(res);
+      }
+      if (conversation.type !== 'group') {
+        return notGroup(res);
+      }
+
+      const { userId } = req.params;
+      if (!Types.ObjectId.isValid(userId) || !conversation.isParticipant(userId)) {
+        return res.status(404).json({
+          error: 'Participant not found',
+          code: 'PARTICIPANT_NOT_FOUND'
+        });
+      }
+
+      await conversation.removeParticipant(new Types.ObjectId(userId), new Types.ObjectId(req.user!.userId));
+
+      // Remaining members rekey their sender keys on this event
+      emitConversationUpdate(conversation.conversationId, {
+        event: 'member_removed',
+        userId,
+        actorId: req.user!.userId,
+      });
+      leaveConversationRoom(userId, conversation.conversationId);
+
+      await logConversationEvent(req, 'conversation.participant_removed', conversation.conversationId,
+        'Participant removed from conversation', { removedUserId: userId });
+
+      res.json({ conversation: toConversationView(conversation, req.user!.userId) });
+    } catch (error: any) {
+      await logConversationError(req, 'conversation.remove_participant_error', 'Failed to remove participant', error);
+
+      res.status(500).json({
+        error: 'Failed to remove participant',
+        code: 'CONVERSATION_REMOVE_PARTICIPANT_ERROR'
+      });
+    }
+  }
+);
+
+// Grant or revoke admin rights (admins only); a group always keeps one admin
+const setAdminHandler = (admin: boolean) => async (req: Request, res: Response) => {
+  try {
+    const conversation = await loadConversation(req);
+    if (!conversation) {
+      return notFound(res);
+    }
+    if (!canManage(req, conversation)) {
+      return notAdmin(res);
+    }
+    if (conversation.type !== 'group') {
+      return notGroup(res);
+    }
+
+    const { userId } = req.params;
+    if (!Types.ObjectId.isValid(userId) || !conversation.isParticipant(userId)) {
+      return res.status(404).json({
+        error: 'Participant not found',
+        code: 'PARTICIPANT_NOT_FOUND'
+      });
+    }
+
+    try {
+      await conversation.setAdmin(new Types.ObjectId(userId), admin, new Types.ObjectId(req.user!.userId));
+    } catch (error: any) {
+      if (error.message === 'A group needs at least one admin') {
+        return res.status(409).json({
+          error: 'A group needs at least one admin',
+          code: 'LAST_ADMIN'
+        });
+      }
+      throw error;
+    }
+
+    emitConversationUpdate(conversation.conversationId, {
+      event: admin ? 'admin_granted' : 'admin_revoked',
+      userId,
+      actorId: req.user!.userId,
+    });
+
+    await logConversationEvent(req, admin ? 'conversation.admin_granted' : 'conversation.admin_revoked',
+      conversation.conversationId, admin ? 'Admin rights granted' : 'Admin rights revoked', { targetUserId: userId });
+
+    res.json({ conversation: toConversationView(conversation, req.user!.userId) });
+  } catch (error: any) {
+    await logConversationError(req, 'conversation.set_admin_error', 'Failed to change admin rights', error);
+
+    res.status(500).json({
+      error: 'Failed to change admin rights',
+      code: 'CONVERSATION_SET_ADMIN_ERROR'
+    });
+  }
+};
+
+router.post('/:conversationId/admins/:userId', messageRateLimit, canReadConversation, setAdminHandler(true));
+router.delete('/:conversationId/admins/:userId', messageRateLimit, canReadConversation, setAdminHandler(false));
+
+// Create an invite link for a group (admins only)
+router.post('/:conversationId/invites',
+  messageRateLimit,
+  canReadConversation,
+  validationSchemas.createConversationInvite,
+  async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req);
+      if (!conversation) {
+        return notFound(res);
+      }
+      if (!canManage(req, conversation)) {
+        return notAdmin(res);
+      }
+      if (conversation.type !== 'group') {
+        return notGroup(res);
+      }
+
+      const { expiresInHours, maxUses } = req.body;
+      const expiresAt = expiresInHours ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000) : undefined;
+      const code = await conversation.createInviteLink(new Types.ObjectId(req.user!.userId), { expiresAt, maxUses });
+
+      await logConversationEvent(req, 'conversation.invite_created', conversation.conversationId,
+        'Invite link created', { expiresAt, maxUses });
+
+      res.status(201).json({ inviteCode: code, expiresAt, maxUses });
+    } catch (error: any) {
+      await logConversationError(req, 'conversation.invite_error', 'Failed to create invite link', error);
+
+      res.status(500).json({
+        error: 'Failed to create invite link',
+        code: 'CONVERSATION_INVITE_ERROR'
+      });
+    }
+  }
+);
+
+// Revoke an invite link (admins only)
+router.delete('/:conversationId/invites/:code',
+  messageRateLimit,
+  canReadConversation,
+  async (req: Request, res: Response) => {
+    try {
+      const conversation = await loadConversation(req);
+      if (!conversation) {
+        return notFound(res);
+      }
+      if (!canManage(req, conversation)) {
+        return notAdmin(res);
+      }
+
+      if (!(await conversation.revokeInviteLink(req.params.code))) {
+        return res.status(404).json({
+          error: 'Invite link not found',
+          code: 'INVITE_NOT_FOUND'
+        });
+      }
+
+      await logConversationEvent(req, 'conversation.invite_revoked', conversation.conversationId,
+        'Invite link revoked');
+
+      res.json({ message: 'Invite link revoked' });
+    } catch (error: any) {
+      await logConversationError(req, 'conversation.invite_revoke_error', 'Failed to revoke invite link', error);
+
+      res.status(500).json({
+        error: 'Failed to revoke invite link',
+        code: 'CONVERSATION_INVITE_REVOKE_ERROR'
+      });
+    }
+  }
+);
+
+module.exports = router;
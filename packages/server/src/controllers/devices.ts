@@ -0,0 +1,412 @@
+import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { Device, Session, KeyBundle, AuditLog } from '../models';
+import { authenticateToken, deviceAuthentication } from '../middleware/auth';
+import {
+  canManageDevice,
+  canAccessResource,
+  filterByPermissions,
+  Actions,
+  Subjects,
+  Action
+} from '../middleware/rbac';
+import { validationSchemas } from '../middleware/security';
+
+const router = Router();
+
+// All device routes require authentication
+router.use(authenticateToken);
+
+// Public view of a device; keys and the fingerprint stay on the server
+const toDeviceSummary = (device: any, currentDeviceId?: string) => ({
+  id: device._id,
+  deviceName: device.deviceName,
+  deviceType: device.deviceType,
+  platform: device.platform,
+  appVersion: device.appVersion,
+  status: device.status,
+  trusted: device.trustedDevice,
+  lastActive: device.lastActive,
+  location: device.location,
+  createdAt: device.createdAt,
+  current: !!currentDeviceId && device.deviceId === currentDeviceId
+});
+
+// Load a device by id, enforcing ownership through the caller's abilities.
+// Devices of other users are reported as missing rather than forbidden
+const loadOwnDevice = async (req: Request, action: Action) => {
+  if (!Types.ObjectId.isValid(req.params.deviceId)) {
+    return null;
+  }
+
+  const device = await Device.findOne({ _id: req.params.deviceId, status: { $ne: 'revoked' } });
+  if (!device || !canAccessResource(req, action, Subjects.DEVICE, device)) {
+    return null;
+  }
+
+  return device;
+};
+
+// List the caller's devices
+router.get('/',
+  canManageDevice,
+  filterByPermissions(Subjects.DEVICE),
+  async (req: Request, res: Response) => {
+    try {
+      const query = req.permissionFilter
+        ? req.permissionFilter({ status: { $ne: 'revoked' } })
+        : { userId: req.user!.userId, status: { $ne: 'revoked' } };
+
+      const devices = await Device.find(query).sort({ lastActive: -1 });
+      const currentDeviceId = req.get('x-device-id');
+
+      res.json({
+        devices: devices.map(device => toDeviceSummary(device, currentDeviceId))
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'device.list_error',
+        category: 'auth',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to list devices',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to list devices',
+        code: 'DEVICE_LIST_ERROR'
+      });
+    }
+  }
+);
+
+// Rename a device
+router.put('/:deviceId',
+  canManageDevice,
+  validationSchemas.renameDevice,
+  async (req: Request, res: Response) => {
+    try {
+      const device = await loadOwnDevice(req, Actions.UPDATE);
+
+      if (!device) {
+        return res.status(404).json({
+          error: 'Device not found',
+          code: 'DEVICE_NOT_FOUND'
+        });
+      }
+
+      const previousName = device.deviceName;
+      device.deviceName = req.body.deviceName;
+      await device.save();
+
+      await AuditLog.logEvent({
+        action: 'device.renamed',
+        category: 'auth',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        deviceId: device._id,
+        resourceType: 'device',
+        resourceId: device._id.toString(),
+        description: 'Device renamed',
+        metadata: {
+          previousName,
+          deviceName: device.deviceName,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({
+        message: 'Device renamed',
+        device: toDeviceSummary(device, req.get('x-device-id'))
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'device.rename_error',
+        category: 'auth',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'device',
+        resourceId: req.params.deviceId,
+        description: 'Failed to rename device',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to rename device',
+        code: 'DEVICE_RENAME_ERROR'
+      });
+    }
+  }
+);
+
+// Revoke a device (e.g. lost or stolen). Its sessions and key bundle are
+// revoked with it so it can neither authenticate nor receive new sessions
+router.post('/:deviceId/revoke',
+  canManageDevice,
+  async (req: Request, res: Response) => {
+    try {
+      const device = await loadOwnDevice(req, Actions.DELETE);
+
+      if (!device) {
+        return res.status(404).json({
+          error: 'Device not found',
+          code: 'DEVICE_NOT_FOUND'
+        });
+      }
+
+      await device.revoke();
+      const sessions = await Session.revokeDeviceSessions(device._id);
+      await KeyBundle.updateOne(
+        { deviceId: device._id },
+        { status: 'revoked' }
+      );
+
+      await AuditLog.logEvent({
+        action: 'device.revoked',
+        category: 'auth',
+        severity: 'warning',
+        status: 'success',
+        userId: req.user!.userId,
+        deviceId: device._id,
+        resourceType: 'device',
+        resourceId: device._id.toString(),
+        description: 'Device revoked by owner',
+        metadata: {
+          deviceName: device.deviceName,
+          sessionsRevoked: sessions.modifiedCount,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({ message: 'Device revoked' });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'device.revoke_error',
+        category: 'auth',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'device',
+        resourceId: req.params.deviceId,
+        description: 'Failed to revoke device',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to revoke device',
+        code: 'DEVICE_REVOKE_ERROR'
+      });
+    }
+  }
+);
+
+// Trust changes must come from an already trusted device, except for the
+// very first trusted device of an account
+const requireTrustedDevice = async (req: Request, res: Response): Promise<boolean> => {
+  if (req.device.trustedDevice) {
+    return true;
+  }
+
+  const trustedCount = await Device.countDocuments({
+    userId: req.user!.userId,
+    status: 'active',
+    trustedDevice: true
+  });
+
+  if (trustedCount === 0) {
+    return true;
+  }
+
+  await AuditLog.logEvent({
+    action: 'device.trust_denied',
+    category: 'security',
+    severity: 'warning',
+    status: 'failure',
+    userId: req.user!.userId,
+    deviceId: req.device._id,
+    resourceType: 'device',
+    resourceId: req.params.deviceId,
+    description: 'Trust change attempted from an untrusted device',
+    context: {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(403).json({
+    error: 'Trust changes require a trusted device',
+    code: 'TRUSTED_DEVICE_REQUIRED'
+  });
+  return false;
+};
+
+// Mark a device as trusted
+router.post('/:deviceId/trust',
+  deviceAuthentication,
+  canManageDevice,
+  async (req: Request, res: Response) => {
+    try {
+      const device = await loadOwnDevice(req, Actions.UPDATE);
+
+      if (!device) {
+        return res.status(404).json({
+          error: 'Device not found',
+          code: 'DEVICE_NOT_FOUND'
+        });
+      }
+
+      if (!(await requireTrustedDevice(req, res))) {
+        return;
+      }
+
+      await device.trust();
+
+      await AuditLog.logEvent({
+        action: 'device.trusted',
+        category: 'auth',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        deviceId: req.device._id,
+        resourceType: 'device',
+        resourceId: device._id.toString(),
+        description: 'Device marked as trusted',
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({
+        message: 'Device trusted',
+        device: toDeviceSummary(device, req.get('x-device-id'))
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'device.trust_error',
+        category: 'auth',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'device',
+        resourceId: req.params.deviceId,
+        description: 'Failed to trust device',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to trust device',
+        code: 'DEVICE_TRUST_ERROR'
+      });
+    }
+  }
+);
+
+// Remove trust from a device
+router.delete('/:deviceId/trust',
+  deviceAuthentication,
+  canManageDevice,
+  async (req: Request, res: Response) => {
+    try {
+      const device = await loadOwnDevice(req, Actions.UPDATE);
+
+      if (!device) {
+        return res.status(404).json({
+          error: 'Device not found',
+          code: 'DEVICE_NOT_FOUND'
+        });
+      }
+
+      if (!(await requireTrustedDevice(req, res))) {
+        return;
+      }
+
+      await device.untrust();
+
+      await AuditLog.logEvent({
+        action: 'device.untrusted',
+        category: 'auth',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        deviceId: req.device._id,
+        resourceType: 'device',
+        resourceId: device._id.toString(),
+        description: 'Device trust removed',
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({
+        message: 'Device trust removed',
+        device: toDeviceSummary(device, req.get('x-device-id'))
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'device.untrust_error',
+        category: 'auth',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'device',
+        resourceId: req.params.deviceId,
+        description: 'Failed to remove device trust',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to remove device trust',
+        code: 'DEVICE_UNTRUST_ERROR'
+      });
+    }
+  }
+);
+
+module.exports = router;
@@ -0,0 +1,595 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { once } from 'events';
+import { Types } from 'mongoose';
+import { CONFIG, EncryptedChunk } from '@private-messaging/shared';
+import { Attachment, MessageEnvelope, Conversation, AuditLog } from '../models';
+import { authenticateToken, deviceAuthentication } from '../middleware/auth';
+import { validationSchemas } from '../middleware/security';
+import { getAttachmentStorage } from '../services/storage';
+import { copiesOf } from '../services/expiry';
+import { maxStoredBytes, parseRange, withinQuota } from '../services/attachments';
+
+const router = Router();
+
+// All file routes require authentication
+router.use(authenticateToken);
+
+const MAX_FILE_SIZE = Number(process.env.MAX_FILE_SIZE) || CONFIG.MAX_FILE_SIZE;
+const USER_QUOTA_BYTES = Number(process.env.ATTACHMENT_QUOTA_BYTES) || 500 * 1024 * 1024;
+
+// Uploader, or either side of the message the file is attached to (any
+// member for group messages) while that message is still live
+const canReadAttachment = async (attachment: any, userId: string): Promise<boolean> => {
+  if (attachment.uploaderId.equals(userId)) {
+    return true;
+  }
+
+  const now = new Date();
+  const copies = (await MessageEnvelope.find({
+    ...copiesOf(attachment.messageId),
+    deletedAt: { $exists: false },
+  }).select('senderId recipientId conversationId senderKeyHeader expiresAt'))
+    .filter(copy => !copy.expiresAt || copy.expiresAt >= now);
+
+  if (copies.some(copy => copy.senderId.equals(userId) || copy.recipientId?.equals(userId))) {
+    return true;
+  }
+
+  const group = copies.find(copy => copy.senderKeyHeader?.signature);
+  return !!group && Conversation.isMember(group.conversationId, userId);
+};
+
+// Byte layout of the stored ciphertext, in chunk order
+const buildManifest = (attachment: any) => {
+  let offset = 0;
+  return [...attachment.chunks]
+    .sort((a: any, b: any) => a.chunkId - b.chunkId)
+    .map((chunk: any) => {
+      const entry = {
+        chunkId: chunk.chunkId,
+        offset,
+        size: chunk.size,
+        nonce: chunk.nonce,
+        isLast: chunk.isLast,
+      };
+      offset += chunk.size;
+      return entry;
+    });
+};
+
+// Files can only be attached to the uploader's own messages; a message that
+// is not sent yet is fine
+const sentByAnotherUser = async (messageId: string, userId: Types.ObjectId | string): Promise<boolean> =>
+  !!(await MessageEnvelope.exists({ ...copiesOf(messageId), senderId: { $ne: userId } }));
+
+const quotaExceeded = async (req: Request, res: Response, usage: number, size: number) => {
+  await AuditLog.logEvent({
+    action: 'attachment.quota_exceeded',
+    category: 'message',
+    severity: 'warning',
+    status: 'failure',
+    userId: req.user!.userId,
+    description: 'Attachment upload rejected by storage quota',
+    metadata: { usage, size, quota: USER_QUOTA_BYTES },
+    context: {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  return res.status(413).json({
+    error: 'Storage quota exceeded',
+    code: 'QUOTA_EXCEEDED',
+    details: { usage, quota: USER_QUOTA_BYTES }
+  });
+};
+
+const loadAttachment = (fileId: string) =>
+  Attachment.findOne({ fileId, status: { $ne: 'deleted' } });
+
+// Start an upload. The client declares size and chunk count up front so
+// limits are enforced before any ciphertext is accepted
+router.post('/upload',
+  deviceAuthentication,
+  validationSchemas.initUpload,
+  async (req: Request, res: Response) => {
+    try {
+      const { messageId, mimeType, size, totalChunks } = req.body;
+
+      if (!(CONFIG.ALLOWED_FILE_TYPES as readonly string[]).includes(mimeType)) {
+        return res.status(415).json({
+          error: 'File type not allowed',
+          code: 'FILE_TYPE_NOT_ALLOWED'
+        });
+      }
+
+      if (size > MAX_FILE_SIZE) {
+        return res.status(413).json({
+          error: 'File too large',
+          code: 'FILE_TOO_LARGE',
+          details: { maxSize: MAX_FILE_SIZE }
+        });
+      }
+
+      if (totalChunks > size) {
+        return res.status(400).json({
+          error: 'Chunk count does not match file size',
+          code: 'INVALID_CHUNK_COUNT'
+        });
+      }
+
+      if (await sentByAnotherUser(messageId, req.user!.userId)) {
+        return res.status(403).json({
+          error: 'Message belongs to another user',
+          code: 'MESSAGE_NOT_OWNED'
+        });
+      }
+
+      const usage = await Attachment.getUserUsage(req.user!.userId);
+      if (!withinQuota(usage, size, USER_QUOTA_BYTES)) {
+        return quotaExceeded(req, res, usage, size);
+      }
+
+      const attachment = await Attachment.create({
+        fileId: crypto.randomUUID(),
+        uploaderId: req.user!.userId,
+        uploaderDeviceId: req.device._id,
+        messageId,
+        mimeType,
+        size,
+        totalChunks,
+        maxStoredBytes: maxStoredBytes(size, totalChunks),
+      });
+
+      // Parallel uploads can all pass the check above. Each one counts again
+      // with only the uploads created up to itself, so the ones that took
+      // the total over the quota, and only those, are rolled back.
+      const usageBefore = await Attachment.getUserUsage(req.user!.userId, attachment._id) - size;
+      if (!withinQuota(usageBefore, size, USER_QUOTA_BYTES)) {
+        await Attachment.deleteOne({ _id: attachment._id });
+        return quotaExceeded(req, res, usageBefore, size);
+      }
+
+      await AuditLog.logEvent({
+        action: 'attachment.upload_started',
+        category: 'message',
+        severity: 'info',
+        status: 'pending',
+        userId: req.user!.userId,
+        deviceId: req.device._id,
+        resourceType: 'attachment',
+        resourceId: attachment.fileId,
+        description: 'Attachment upload started',
+        metadata: { messageId, mimeType, size, totalChunks },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(201).json({
+        fileId: attachment.fileId,
+        totalChunks
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'attachment.upload_start_error',
+        category: 'message',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to start attachment upload',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to start upload',
+        code: 'UPLOAD_START_ERROR'
+      });
+    }
+  }
+);
+
+// Upload state, used to resume an interrupted upload
+router.get('/upload/:fileId',
+  async (req: Request, res: Response) => {
+    try {
+      const attachment = await loadAttachment(req.params.fileId);
+
+      if (!attachment || !attachment.uploaderId.equals(req.user!.userId)) {
+        return res.status(404).json({
+          error: 'Upload not found',
+          code: 'UPLOAD_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        fileId: attachment.fileId,
+        status: attachment.status,
+        totalChunks: attachment.totalChunks,
+        receivedChunks: attachment.chunks.map(chunk => chunk.chunkId).sort((a, b) => a - b),
+        missingChunks: attachment.getMissingChunks(),
+        storedBytes: attachment.storedBytes
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch upload status',
+        code: 'UPLOAD_STATUS_ERROR'
+      });
+    }
+  }
+);
+
+// Upload one encrypted chunk. Re-sending a chunk replaces it, so a client
+// can safely retry anything it is unsure about after a disconnect. Each write
+// is stored as a new version and only becomes current through a conditional
+// update, so the recorded size and nonce always belong to the stored bytes.
+router.put('/upload/:fileId/chunks/:chunkId',
+  validationSchemas.uploadChunk,
+  async (req: Request, res: Response) => {
+    try {
+      const chunk: EncryptedChunk = req.body;
+      const chunkId = Number(req.params.chunkId);
+
+      const attachment = await loadAttachment(req.params.fileId);
+
+      if (!attachment || !attachment.uploaderId.equals(req.user!.userId)) {
+        return res.status(404).json({
+          error: 'Upload not found',
+          code: 'UPLOAD_NOT_FOUND'
+        });
+      }
+
+      if (attachment.status !== 'uploading') {
+        return res.status(409).json({
+          error: 'Upload already complete',
+          code: 'UPLOAD_COMPLETE'
+        });
+      }
+
+      const isFinalChunk = chunkId === attachment.totalChunks - 1;
+      if (chunk.chunkId !== chunkId || chunkId >= attachment.totalChunks || chunk.isLast !== isFinalChunk) {
+        return res.status(400).json({
+          error: 'Chunk does not match upload',
+          code: 'INVALID_CHUNK'
+        });
+      }
+
+      const data = Buffer.from(chunk.encryptedData, 'base64url');
+      const previous = attachment.chunks.find(c => c.chunkId === chunkId);
+      const storedBytes = attachment.storedBytes - (previous?.size || 0) + data.length;
+
+      if (data.length === 0 || storedBytes > attachment.maxStoredBytes) {
+        return res.status(413).json({
+          error: 'Chunk exceeds declared file size',
+          code: 'CHUNK_TOO_LARGE'
+        });
+      }
+
+      const storage = getAttachmentStorage();
+      const version = crypto.randomBytes(16).toString('hex');
+      await storage.putChunk(attachment.fileId, chunkId, version, data);
+
+      const entry = { chunkId, size: data.length, nonce: chunk.nonce, isLast: chunk.isLast, version };
+      const result = previous
+        ? await Attachment.updateOne(
+          { _id: attachment._id, status: 'uploading', chunks: { $elemMatch: { chunkId, version: previous.version ?? null } } },
+          { $set: { 'chunks.$': entry }, $inc: { storedBytes: data.length - previous.size } }
+        )
+        : await Attachment.updateOne(
+          { _id: attachment._id, status: 'uploading', 'chunks.chunkId': { $ne: chunkId } },
+          { $push: { chunks: entry }, $inc: { storedBytes: data.length } }
+        );
+
+      // Another request wrote this chunk since it was read; theirs stands
+      if (result.modifiedCount === 0) {
+        await storage.deleteChunk(attachment.fileId, chunkId, version);
+        return res.status(409).json({
+          error: 'Chunk was uploaded concurrently; check the upload status and retry',
+          code: 'CHUNK_CONFLICT'
+        });
+      }
+
+      if (previous?.version) {
+        await storage.deleteChunk(attachment.fileId, chunkId, previous.version);
+      }
+
+      // The upload completes once every chunk index is present, and only if
+      // the message, should it have been sent since the upload started, is
+      // the uploader's
+      const allChunks = { _id: attachment._id, status: 'uploading', chunks: { $size: attachment.totalChunks } };
+      if (await Attachment.exists(allChunks) && await sentByAnotherUser(attachment.messageId, req.user!.userId)) {
+        return res.status(403).json({
+          error: 'Message belongs to another user',
+          code: 'MESSAGE_NOT_OWNED'
+        });
+      }
+
+      const completed = await Attachment.findOneAndUpdate(
+        allChunks,
+        { $set: { status: 'complete', completedAt: new Date() } },
+        { new: true }
+      );
+
+      if (completed) {
+        await AuditLog.logEvent({
+          action: 'attachment.upload_completed',
+          category: 'message',
+          severity: 'info',
+          status: 'success',
+          userId: req.user!.userId,
+          resourceType: 'attachment',
+          resourceId: completed.fileId,
+          description: 'Attachment upload completed',
+          metadata: {
+            messageId: completed.messageId,
+            storedBytes: completed.storedBytes,
+          },
+          context: {
+            ipAddress: req.ip,
+            userAgent: req.get('User-Agent'),
+          },
+        });
+      }
+
+      res.json({
+        chunkId,
+        status: completed ? 'complete' : 'uploading'
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'attachment.chunk_upload_error',
+        category: 'message',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'attachment',
+        resourceId: req.params.fileId,
+        description: 'Failed to store attachment chunk',
+        metadata: { chunkId: req.params.chunkId },
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to store chunk',
+        code: 'CHUNK_UPLOAD_ERROR'
+      });
+    }
+  }
+);
+
+// Cancel an upload or delete an uploaded file
+router.delete('/upload/:fileId',
+  async (req: Request, res: Response) => {
+    try {
+      const attachment = await loadAttachment(req.params.fileId);
+
+      if (!attachment || !attachment.uploaderId.equals(req.user!.userId)) {
+        return res.status(404).json({
+          error: 'Upload not found',
+          code: 'UPLOAD_NOT_FOUND'
+        });
+      }
+
+      await getAttachmentStorage().deleteFile(attachment.fileId);
+      await attachment.markDeleted();
+
+      await AuditLog.logEvent({
+        action: 'attachment.deleted',
+        category: 'message',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        resourceType: 'attachment',
+        resourceId: attachment.fileId,
+        description: 'Attachment deleted by uploader',
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({ message: 'Upload deleted' });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to delete upload',
+        code: 'UPLOAD_DELETE_ERROR'
+      });
+    }
+  }
+);
+
+// Chunk layout and nonces needed to decrypt a ranged download
+router.get('/download/:fileId/manifest',
+  async (req: Request, res: Response) => {
+    try {
+      const attachment = await loadAttachment(req.params.fileId);
+
+      if (!attachment || !(await canReadAttachment(attachment, req.user!.userId.toString()))) {
+        return res.status(404).json({
+          error: 'File not found',
+          code: 'FILE_NOT_FOUND'
+        });
+      }
+
+      if (attachment.status !== 'complete') {
+        return res.status(409).json({
+          error: 'Upload not complete',
+          code: 'UPLOAD_INCOMPLETE'
+        });
+      }
+
+      res.json({
+        fileId: attachment.fileId,
+        messageId: attachment.messageId,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        totalChunks: attachment.totalChunks,
+        storedBytes: attachment.storedBytes,
+        chunks: buildManifest(attachment)
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch manifest',
+        code: 'MANIFEST_ERROR'
+      });
+    }
+  }
+);
+
+// A single chunk in EncryptedChunk form, ready for decryptFileChunk
+router.get('/download/:fileId/chunks/:chunkId',
+  async (req: Request, res: Response) => {
+    try {
+      const attachment = await loadAttachment(req.params.fileId);
+      const chunkId = Number(req.params.chunkId);
+
+      if (!attachment || !(await canReadAttachment(attachment, req.user!.userId.toString()))) {
+        return res.status(404).json({
+          error: 'File not found',
+          code: 'FILE_NOT_FOUND'
+        });
+      }
+
+      const chunk = attachment.status === 'complete'
+        ? attachment.chunks.find(c => c.chunkId === chunkId)
+        : undefined;
+
+      if (!chunk) {
+        return res.status(404).json({
+          error: 'Chunk not found',
+          code: 'CHUNK_NOT_FOUND'
+        });
+      }
+
+      const data = await getAttachmentStorage().getChunk(attachment.fileId, chunkId, chunk.version);
+      const encryptedChunk: EncryptedChunk = {
+        chunkId,
+        encryptedData: data.toString('base64url'),
+        nonce: chunk.nonce,
+        isLast: chunk.isLast,
+      };
+
+      res.json(encryptedChunk);
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch chunk',
+        code: 'CHUNK_DOWNLOAD_ERROR'
+      });
+    }
+  }
+);
+
+// Raw ciphertext stream of the whole file, honouring a single HTTP Range.
+// Chunk boundaries and nonces come from the manifest
+router.get('/download/:fileId',
+  async (req: Request, res: Response) => {
+    try {
+      const attachment = await loadAttachment(req.params.fileId);
+
+      if (!attachment || !(await canReadAttachment(attachment, req.user!.userId.toString()))) {
+        return res.status(404).json({
+          error: 'File not found',
+          code: 'FILE_NOT_FOUND'
+        });
+      }
+
+      if (attachment.status !== 'complete') {
+        return res.status(409).json({
+          error: 'Upload not complete',
+          code: 'UPLOAD_INCOMPLETE'
+        });
+      }
+
+      const manifest = buildManifest(attachment);
+      const total = attachment.storedBytes;
+
+      let range = { start: 0, end: total - 1 };
+      if (req.headers.range) {
+        const requested = parseRange(req.headers.range, total);
+        if (!requested) {
+          res.setHeader('Content-Range', `bytes */${total}`);
+          return res.status(416).json({
+            error: 'Range not satisfiable',
+            code: 'RANGE_NOT_SATISFIABLE'
+          });
+        }
+        range = requested;
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${total}`);
+      }
+
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Length', range.end - range.start + 1);
+
+      const storage = getAttachmentStorage();
+      for (const chunk of manifest) {
+        const chunkEnd = chunk.offset + chunk.size - 1;
+        if (chunkEnd < range.start || chunk.offset > range.end) {
+          continue;
+        }
+
+        const { version } = attachment.chunks.find(c => c.chunkId === chunk.chunkId)!;
+        const stream = storage.createChunkStream(attachment.fileId, chunk.chunkId, version, {
+          start: Math.max(range.start - chunk.offset, 0),
+          end: Math.min(range.end, chunkEnd) - chunk.offset,
+        });
+
+        for await (const data of stream) {
+          if (!res.write(data)) {
+            await once(res, 'drain');
+          }
+        }
+      }
+
+      res.end();
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'attachment.download_error',
+        category: 'message',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'attachment',
+        resourceId: req.params.fileId,
+        description: 'Failed to stream attachment',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      // Headers are gone once streaming started; all we can do is abort
+      if (res.headersSent) {
+        res.destroy(error);
+      } else {
+        res.status(500).json({
+          error: 'Failed to download file',
+          code: 'FILE_DOWNLOAD_ERROR'
+        });
+      }
+    }
+  }
+);
+
+module.exports = router;
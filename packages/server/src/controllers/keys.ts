@@ -0,0 +1,503 @@
+import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { User, Device, KeyBundle, AuditLog } from '../models';
+import { authenticateToken, deviceAuthentication } from '../middleware/auth';
+import { canManageKeyBundle } from '../middleware/rbac';
+import {
+  keyRotationRateLimit,
+  messageRateLimit,
+  preKeyBundleRateLimit,
+  validationSchemas
+} from '../middleware/security';
+
+const router = Router();
+
+// All key routes require authentication
+router.use(authenticateToken);
+
+// Resolve a recipient that the caller may start a session with. Blocked
+// callers get the same answer as for an unknown user
+const findRecipient = async (userId: string, requesterId: Types.ObjectId | string) => {
+  if (!Types.ObjectId.isValid(userId)) {
+    return null;
+  }
+
+  const recipient = await User.findOne({ _id: userId, status: 'active' });
+  if (!recipient || recipient.blockedUsers.some(id => id.equals(requesterId))) {
+    return null;
+  }
+
+  return recipient;
+};
+
+// Sessions are set up once per pair of devices, so a requester who claimed
+// this many of a user's one-time pre-keys within a day is likely draining them
+const REPEATED_CLAIM_THRESHOLD = 10;
+const REPEATED_CLAIM_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const auditRepeatedClaims = async (req: Request, recipientId: Types.ObjectId) => {
+  const requesterId = new Types.ObjectId(req.user!.userId);
+  const [claims] = await KeyBundle.aggregate([
+    { $match: { userId: recipientId } },
+    { $unwind: '$oneTimePreKeys' },
+    {
+      $match: {
+        'oneTimePreKeys.usedBy': requesterId,
+        'oneTimePreKeys.usedAt': { $gte: new Date(Date.now() - REPEATED_CLAIM_WINDOW_MS) },
+      },
+    },
+    { $count: 'count' },
+  ]);
+
+  if (!claims || claims.count < REPEATED_CLAIM_THRESHOLD) {
+    return;
+  }
+
+  await AuditLog.logEvent({
+    action: 'keys.repeated_prekey_claims',
+    category: 'security',
+    severity: 'warning',
+    status: 'success',
+    userId: req.user!.userId,
+    resourceType: 'user',
+    resourceId: recipientId.toString(),
+    description: 'Many one-time pre-keys of one user claimed by the same requester',
+    metadata: {
+      claims: claims.count,
+      windowMs: REPEATED_CLAIM_WINDOW_MS,
+    },
+    context: {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+};
+
+// Upload (or replace) the key bundle of the calling device
+router.post('/bundle',
+  keyRotationRateLimit,
+  deviceAuthentication,
+  canManageKeyBundle,
+  validationSchemas.uploadKeyBundle,
+  async (req: Request, res: Response) => {
+    try {
+      const { identityKey, registrationId, signedPreKey, oneTimePreKeys } = req.body;
+
+      let keyBundle = await KeyBundle.findOne({ deviceId: req.device._id });
+      const replaced = !!keyBundle;
+
+      if (keyBundle) {
+        // A new bundle for an existing device starts a fresh key history
+        keyBundle.identityKey = identityKey;
+        keyBundle.registrationId = registrationId;
+        keyBundle.signedPreKey = { ...signedPreKey, timestamp: new Date() };
+        keyBundle.oneTimePreKeys = oneTimePreKeys.map((key: any) => ({ ...key, used: false }));
+        keyBundle.status = 'active';
+        keyBundle.rotationSchedule = {
+          signedPreKeyRotation: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+          oneTimePreKeyRefill: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+        };
+      } else {
+        keyBundle = new KeyBundle({
+          userId: req.user!.userId,
+          deviceId: req.device._id,
+          identityKey,
+          registrationId,
+          signedPreKey,
+          oneTimePreKeys: oneTimePreKeys.map((key: any) => ({ ...key, used: false })),
+        });
+      }
+
+      await keyBundle.save();
+
+      await AuditLog.logEvent({
+        action: replaced ? 'keys.bundle_replaced' : 'keys.bundle_uploaded',
+        category: 'key_management',
+        severity: replaced ? 'warning' : 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        deviceId: req.device._id,
+        resourceType: 'key_bundle',
+        resourceId: keyBundle._id.toString(),
+        description: replaced ? 'Device key bundle replaced' : 'Device key bundle uploaded',
+        metadata: {
+          registrationId,
+          signedPreKeyId: signedPreKey.keyId,
+          oneTimePreKeys: oneTimePreKeys.length,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(replaced ? 200 : 201).json({
+        message: 'Key bundle stored',
+        availableOneTimeKeys: keyBundle.getAvailableOneTimeKeys()
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return res.status(409).json({
+          error: 'Registration ID already in use',
+          code: 'REGISTRATION_ID_CONFLICT'
+        });
+      }
+
+      await AuditLog.logEvent({
+        action: 'keys.bundle_upload_error',
+        category: 'key_management',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to store key bundle',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to store key bundle',
+        code: 'KEY_BUNDLE_UPLOAD_ERROR'
+      });
+    }
+  }
+);
+
+// Key status of the calling device, so clients know when to replenish/rotate
+router.get('/status',
+  deviceAuthentication,
+  canManageKeyBundle,
+  async (req: Request, res: Response) => {
+    try {
+      const keyBundle = await KeyBundle.findOne({ deviceId: req.device._id, status: 'active' });
+
+      if (!keyBundle) {
+        return res.status(404).json({
+          error: 'Key bundle not found',
+          code: 'KEY_BUNDLE_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        registrationId: keyBundle.registrationId,
+        signedPreKeyId: keyBundle.signedPreKey.keyId,
+        availableOneTimeKeys: keyBundle.getAvailableOneTimeKeys(),
+        needsRotation: keyBundle.needsRotation(),
+        rotationSchedule: keyBundle.rotationSchedule
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch key status',
+        code: 'KEY_STATUS_ERROR'
+      });
+    }
+  }
+);
+
+// Replenish one-time pre-keys of the calling device
+router.post('/one-time-prekeys',
+  keyRotationRateLimit,
+  deviceAuthentication,
+  canManageKeyBundle,
+  validationSchemas.addOneTimePreKeys,
+  async (req: Request, res: Response) => {
+    try {
+      const { oneTimePreKeys } = req.body;
+
+      const keyBundle = await KeyBundle.findOne({ deviceId: req.device._id, status: 'active' });
+
+      if (!keyBundle) {
+        return res.status(404).json({
+          error: 'Key bundle not found',
+          code: 'KEY_BUNDLE_NOT_FOUND'
+        });
+      }
+
+      await keyBundle.addOneTimePreKeys(oneTimePreKeys);
+
+      await AuditLog.logEvent({
+        action: 'keys.one_time_prekeys_added',
+        category: 'key_management',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        deviceId: req.device._id,
+        resourceType: 'key_bundle',
+        resourceId: keyBundle._id.toString(),
+        description: 'One-time pre-keys replenished',
+        metadata: { added: oneTimePreKeys.length },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({
+        message: 'One-time pre-keys added',
+        availableOneTimeKeys: keyBundle.getAvailableOneTimeKeys()
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'keys.one_time_prekeys_error',
+        category: 'key_management',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to add one-time pre-keys',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to add one-time pre-keys',
+        code: 'ONE_TIME_PREKEY_ERROR'
+      });
+    }
+  }
+);
+
+// Rotate the signed pre-key of the calling device
+router.put('/signed-prekey',
+  keyRotationRateLimit,
+  deviceAuthentication,
+  canManageKeyBundle,
+  validationSchemas.rotateSignedPreKey,
+  async (req: Request, res: Response) => {
+    try {
+      const { keyId, publicKey, signature } = req.body;
+
+      const keyBundle = await KeyBundle.findOne({ deviceId: req.device._id, status: 'active' });
+
+      if (!keyBundle) {
+        return res.status(404).json({
+          error: 'Key bundle not found',
+          code: 'KEY_BUNDLE_NOT_FOUND'
+        });
+      }
+
+      const previousKeyId = keyBundle.signedPreKey.keyId;
+      await keyBundle.rotateSignedPreKey({ keyId, publicKey, signature });
+
+      await AuditLog.logEvent({
+        action: 'keys.signed_prekey_rotated',
+        category: 'key_management',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        deviceId: req.device._id,
+        resourceType: 'key_bundle',
+        resourceId: keyBundle._id.toString(),
+        description: 'Signed pre-key rotated',
+        metadata: { previousKeyId, keyId },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({
+        message: 'Signed pre-key rotated',
+        nextRotation: keyBundle.rotationSchedule.signedPreKeyRotation
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'keys.signed_prekey_rotation_error',
+        category: 'key_management',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to rotate signed pre-key',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to rotate signed pre-key',
+        code: 'SIGNED_PREKEY_ROTATION_ERROR'
+      });
+    }
+  }
+);
+
+// Fetch one pre-key bundle per active device of a user. Each bundle carries
+// a freshly claimed one-time pre-key when any are left
+router.get('/:userId/bundles',
+  messageRateLimit,
+  preKeyBundleRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const requesterId = new Types.ObjectId(req.user!.userId);
+      const recipient = await findRecipient(req.params.userId, req.user!.userId);
+
+      if (!recipient) {
+        return res.status(404).json({
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      const devices = await Device.find({ userId: recipient._id, status: 'active' }).select('_id');
+
+      const bundles = [];
+      for (const device of devices) {
+        const bundle = await KeyBundle.getKeyBundleForConversation(recipient._id, device._id, requesterId);
+        if (bundle) {
+          bundles.push(bundle);
+        }
+      }
+
+      await AuditLog.logEvent({
+        action: 'keys.bundles_fetched',
+        category: 'key_management',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        resourceType: 'user',
+        resourceId: recipient._id.toString(),
+        description: 'Pre-key bundles fetched for session setup',
+        metadata: {
+          devices: bundles.length,
+          oneTimePreKeysClaimed: bundles.filter(b => b.oneTimePreKey).length,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      if (bundles.some(b => b.oneTimePreKey)) {
+        await auditRepeatedClaims(req, recipient._id);
+      }
+
+      res.json({ bundles });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'keys.bundles_fetch_error',
+        category: 'key_management',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to fetch pre-key bundles',
+        metadata: { recipientId: req.params.userId },
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to fetch key bundles',
+        code: 'KEY_BUNDLE_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+// Fetch the pre-key bundle of a single device
+router.get('/:userId/bundles/:deviceId',
+  messageRateLimit,
+  preKeyBundleRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const recipient = await findRecipient(req.params.userId, req.user!.userId);
+
+      if (!recipient || !Types.ObjectId.isValid(req.params.deviceId)) {
+        return res.status(404).json({
+          error: 'Key bundle not found',
+          code: 'KEY_BUNDLE_NOT_FOUND'
+        });
+      }
+
+      const device = await Device.findOne({
+        _id: req.params.deviceId,
+        userId: recipient._id,
+        status: 'active'
+      });
+
+      const bundle = device
+        ? await KeyBundle.getKeyBundleForConversation(recipient._id, device._id, new Types.ObjectId(req.user!.userId))
+        : null;
+
+      if (!bundle) {
+        return res.status(404).json({
+          error: 'Key bundle not found',
+          code: 'KEY_BUNDLE_NOT_FOUND'
+        });
+      }
+
+      await AuditLog.logEvent({
+        action: 'keys.bundle_fetched',
+        category: 'key_management',
+        severity: 'info',
+        status: 'success',
+        userId: req.user!.userId,
+        resourceType: 'device',
+        resourceId: req.params.deviceId,
+        description: 'Pre-key bundle fetched for session setup',
+        metadata: {
+          recipientId: recipient._id.toString(),
+          oneTimePreKeyClaimed: !!bundle.oneTimePreKey,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      if (bundle.oneTimePreKey) {
+        await auditRepeatedClaims(req, recipient._id);
+      }
+
+      res.json({ bundle });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'keys.bundle_fetch_error',
+        category: 'key_management',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to fetch pre-key bundle',
+        metadata: {
+          recipientId: req.params.userId,
+          deviceId: req.params.deviceId,
+        },
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to fetch key bundle',
+        code: 'KEY_BUNDLE_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+module.exports = router;
@@ -0,0 +1,269 @@
+import { Router, Request, Response } from 'express';
+import { MessageEnvelope, MessageReceipt, Conversation, AuditLog } from '../models';
+import { authenticateToken, deviceAuthentication } from '../middleware/auth';
+import {
+  canReadMessage,
+  canAccessResource,
+  filterByPermissions,
+  Actions,
+  Subjects
+} from '../middleware/rbac';
+import {
+  messageRateLimit,
+  validationSchemas
+} from '../middleware/security';
+import { markConversationRead } from '../services/receipts';
+import { decodeCursor, encodeCursor } from '../services/cursors';
+import { emitMessageStatusUpdate } from '../socket';
+
+const router = Router();
+
+// All message routes require authentication
+router.use(authenticateToken);
+
+// Envelopes a user may read: copies sent by or to them, and sender-key group
+// messages of conversations they belong to, unless they deleted them for
+// themselves. Pairwise copies are limited to the ones encrypted for the
+// calling device. History applies this as a query; readMessage checks one envelope.
+const readableFilter = (req: Request) => {
+  const filter = req.permissionFilter ? req.permissionFilter({}) : {};
+  if (filter.$or) {
+    filter.$or.push({ 'senderKeyHeader.signature': { $exists: true } });
+  }
+  filter.recipientDeviceId = { $in: [req.device._id, null] };
+  filter.deletedFor = { $ne: req.user!.userId };
+  return filter;
+};
+
+const readMessage = async (req: Request, messageId: string) => {
+  const message = await MessageEnvelope.findOne({
+    messageId,
+    deletedAt: { $exists: false },
+    deletedFor: { $ne: req.user!.userId },
+  });
+
+  if (!message) {
+    return null;
+  }
+
+  if (canAccessResource(req, Actions.READ, Subjects.MESSAGE, message)) {
+    return message;
+  }
+
+  const groupMember = !!message.senderKeyHeader?.signature
+    && await Conversation.isMember(message.conversationId, req.user!.userId);
+  return groupMember ? message : null;
+};
+
+// Get conversation history, newest first
+router.get('/conversation/:conversationId',
+  messageRateLimit,
+  deviceAuthentication,
+  canReadMessage,
+  filterByPermissions(Subjects.MESSAGE),
+  validationSchemas.messageHistory,
+  async (req: Request, res: Response) => {
+    try {
+      const { conversationId } = req.params;
+      const limit = Number(req.query.limit) || 50;
+
+      let before;
+      if (req.query.before) {
+        before = decodeCursor(req.query.before as string);
+        if (!before) {
+          return res.status(400).json({
+            error: 'Invalid cursor',
+            code: 'INVALID_CURSOR'
+          });
+        }
+      }
+
+      if (!(await Conversation.isMember(conversationId, req.user!.userId)) && req.user!.role !== 'superadmin') {
+        return res.status(404).json({
+          error: 'Conversation not found',
+          code: 'CONVERSATION_NOT_FOUND'
+        });
+      }
+
+      const messages = await MessageEnvelope.getConversationMessages(conversationId, {
+        before,
+        limit,
+        filter: readableFilter(req)
+      });
+
+      const nextCursor = messages.length === limit
+        ? encodeCursor(messages[messages.length - 1])
+        : null;
+
+      res.json({
+        messages,
+        nextCursor
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'message.history_error',
+        category: 'message',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to fetch conversation history',
+        metadata: { conversationId: req.params.conversationId },
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to fetch messages',
+        code: 'MESSAGE_HISTORY_ERROR'
+      });
+    }
+  }
+);
+
+// Mark every message in a conversation as read by the calling device
+router.post('/read',
+  messageRateLimit,
+  deviceAuthentication,
+  canReadMessage,
+  validationSchemas.markConversationRead,
+  async (req: Request, res: Response) => {
+    try {
+      const { conversationId } = req.body;
+
+      const { updated, updates } = await markConversationRead(
+        conversationId,
+        req.user!.userId.toString(),
+        req.device._id.toString()
+      );
+      updates.forEach(emitMessageStatusUpdate);
+
+      res.json({
+        message: 'Conversation marked as read',
+        updated
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'message.mark_read_error',
+        category: 'message',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to mark conversation as read',
+        metadata: { conversationId: req.body.conversationId },
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to mark conversation as read',
+        code: 'MARK_READ_ERROR'
+      });
+    }
+  }
+);
+
+// Delivery and read receipts of a message, per recipient and device. Only
+// the sender may see them.
+router.get('/:messageId/receipts',
+  messageRateLimit,
+  canReadMessage,
+  async (req: Request, res: Response) => {
+    try {
+      const receipt = await MessageReceipt.findOne({ messageId: req.params.messageId });
+
+      if (!receipt || !receipt.senderId.equals(req.user!.userId)) {
+        return res.status(404).json({
+          error: 'Message not found',
+          code: 'MESSAGE_NOT_FOUND'
+        });
+      }
+
+      res.json({ receipts: receipt.summarize() });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'message.receipts_error',
+        category: 'message',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'message',
+        resourceId: req.params.messageId,
+        description: 'Failed to fetch message receipts',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to fetch message receipts',
+        code: 'MESSAGE_RECEIPTS_ERROR'
+      });
+    }
+  }
+);
+
+// Get a single message envelope
+router.get('/:messageId',
+  messageRateLimit,
+  canReadMessage,
+  async (req: Request, res: Response) => {
+    try {
+      const message = await readMessage(req, req.params.messageId);
+
+      if (!message) {
+        return res.status(404).json({
+          error: 'Message not found',
+          code: 'MESSAGE_NOT_FOUND'
+        });
+      }
+
+      res.json({ message });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'message.get_error',
+        category: 'message',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'message',
+        resourceId: req.params.messageId,
+        description: 'Failed to fetch message',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to fetch message',
+        code: 'MESSAGE_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+// Edits and deletions are signed control messages sent over the socket and
+// fanned out to every device's copy, so there are no REST routes for them
+
+module.exports = router;
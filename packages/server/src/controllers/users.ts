@@ -0,0 +1,448 @@
+import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { User, AuditLog } from '../models';
+import { authenticateToken } from '../middleware/auth';
+import { canReadUser, canUpdateUser } from '../middleware/rbac';
+import { validationSchemas } from '../middleware/security';
+import { UserPresence, getPresenceService, visiblePresence } from '../services/presence';
+
+const router = Router();
+
+// All user routes require authentication
+router.use(authenticateToken);
+
+// What other users may see of an account. Built from an allowlist on top of
+// the toJSON transform so new User fields stay private by default; presence
+// is only included when the user's privacy settings allow it
+const toPublicProfile = (user: any, presence?: UserPresence) => {
+  const json = user.toJSON();
+  const privacy = json.settings?.privacy || {};
+  const visible = presence && visiblePresence(privacy, presence);
+
+  return {
+    id: json._id,
+    username: json.username,
+    displayName: json.displayName,
+    avatar: json.avatar,
+    ...(privacy.onlineStatus !== false && visible && {
+      online: visible.state !== 'offline',
+      presence: visible.state,
+    }),
+    ...(privacy.lastSeen !== false && { lastSeen: visible?.lastSeen ?? json.lastActive }),
+  };
+};
+
+// Presence of the listed users from the shared registry
+const presenceOf = (users: any[]) =>
+  getPresenceService().getPresence(users.map(user => user._id.toString()));
+
+// Active users other than the caller who have not blocked the caller
+const visibleUsersQuery = (callerId: Types.ObjectId) => ({
+  _id: { $ne: callerId },
+  status: 'active',
+  blockedUsers: { $ne: callerId },
+});
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Get the caller's own profile
+router.get('/profile',
+  canReadUser,
+  async (req: Request, res: Response) => {
+    try {
+      const user = await User.findById(req.user!.userId);
+
+      if (!user) {
+        return res.status(404).json({
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      res.json({ user });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch profile',
+        code: 'PROFILE_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+// Update the caller's profile and settings
+router.put('/profile',
+  canUpdateUser,
+  validationSchemas.updateProfile,
+  async (req: Request, res: Response) => {
+    try {
+      const { displayName, avatar, settings } = req.body;
+
+      const user = await User.findById(req.user!.userId);
+
+      if (!user) {
+        return res.status(404).json({
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      if (displayName !== undefined) {
+        user.displayName = displayName;
+      }
+      if (avatar !== undefined) {
+        user.avatar = avatar;
+      }
+
+      // Merge settings so partial updates keep the other values
+      if (settings) {
+        if (settings.theme !== undefined) {
+          user.settings.theme = settings.theme;
+        }
+        Object.assign(user.settings.notifications, settings.notifications || {});
+        Object.assign(user.settings.privacy, settings.privacy || {});
+      }
+
+      await user.save();
+
+      // Contacts see the new presence visibility right away
+      if (settings?.privacy) {
+        getPresenceService().announce(user._id.toString()).catch(error => {
+          console.error('Failed to announce presence:', error);
+        });
+      }
+
+      await AuditLog.logEvent({
+        action: 'user.profile_updated',
+        category: 'auth',
+        severity: 'info',
+        status: 'success',
+        userId: user._id,
+        resourceType: 'user',
+        resourceId: user._id.toString(),
+        description: 'Profile updated',
+        metadata: {
+          fields: Object.keys(req.body),
+          privacy: settings?.privacy,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({
+        message: 'Profile updated',
+        user
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'user.profile_update_error',
+        category: 'auth',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'Failed to update profile',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to update profile',
+        code: 'PROFILE_UPDATE_ERROR'
+      });
+    }
+  }
+);
+
+// Search users by username prefix
+router.get('/search',
+  validationSchemas.userSearch,
+  async (req: Request, res: Response) => {
+    try {
+      const callerId = new Types.ObjectId(req.user!.userId);
+      const q = req.query.q as string;
+      const limit = Number(req.query.limit) || 20;
+
+      const caller = await User.findById(callerId).select('blockedUsers');
+
+      const users = await User.find({
+        ...visibleUsersQuery(callerId),
+        _id: { $ne: callerId, $nin: caller?.blockedUsers || [] },
+        username: { $regex: `^${escapeRegex(q)}`, $options: 'i' },
+      })
+      .sort({ username: 1 })
+      .limit(limit);
+
+      const presence = await presenceOf(users);
+
+      res.json({
+        users: users.map(user => toPublicProfile(user, presence.get(user._id.toString())))
+      });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'user.search_error',
+        category: 'system',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        description: 'User search failed',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Search failed',
+        code: 'USER_SEARCH_ERROR'
+      });
+    }
+  }
+);
+
+// Presence for a set of users; users hidden from the caller are left out
+router.get('/status',
+  validationSchemas.userStatus,
+  async (req: Request, res: Response) => {
+    try {
+      const callerId = new Types.ObjectId(req.user!.userId);
+      const ids = (req.query.ids as string)
+        .split(',')
+        .map(id => id.trim())
+        .filter(id => Types.ObjectId.isValid(id))
+        .slice(0, 50);
+
+      const users = await User.find({
+        ...visibleUsersQuery(callerId),
+        _id: { $in: ids, $ne: callerId },
+      });
+
+      const presence = await presenceOf(users);
+
+      res.json({
+        statuses: users.map(user => {
+          const { id, online, presence: state, lastSeen } = toPublicProfile(user, presence.get(user._id.toString()));
+          return { id, online, presence: state, lastSeen };
+        })
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch status',
+        code: 'USER_STATUS_ERROR'
+      });
+    }
+  }
+);
+
+// List the users the caller has blocked
+router.get('/blocked',
+  async (req: Request, res: Response) => {
+    try {
+      const user = await User.findById(req.user!.userId)
+        .populate('blockedUsers', 'username displayName avatar');
+
+      res.json({
+        users: (user?.blockedUsers || []).map((blocked: any) => ({
+          id: blocked._id,
+          username: blocked.username,
+          displayName: blocked.displayName,
+          avatar: blocked.avatar,
+        }))
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch blocked users',
+        code: 'BLOCKED_USERS_ERROR'
+      });
+    }
+  }
+);
+
+// Block a user
+router.post('/:userId/block',
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+
+      if (!Types.ObjectId.isValid(userId) || userId === req.user!.userId.toString()) {
+        return res.status(400).json({
+          error: 'Invalid user',
+          code: 'INVALID_USER'
+        });
+      }
+
+      const [user, target] = await Promise.all([
+        User.findById(req.user!.userId),
+        User.exists({ _id: userId }),
+      ]);
+
+      if (!user || !target) {
+        return res.status(404).json({
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      await user.blockUser(new Types.ObjectId(userId));
+
+      await AuditLog.logEvent({
+        action: 'user.blocked',
+        category: 'security',
+        severity: 'info',
+        status: 'success',
+        userId: user._id,
+        resourceType: 'user',
+        resourceId: userId,
+        description: 'User blocked',
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({ message: 'User blocked' });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'user.block_error',
+        category: 'security',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'user',
+        resourceId: req.params.userId,
+        description: 'Failed to block user',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to block user',
+        code: 'USER_BLOCK_ERROR'
+      });
+    }
+  }
+);
+
+// Unblock a user
+router.delete('/:userId/block',
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+
+      if (!Types.ObjectId.isValid(userId)) {
+        return res.status(400).json({
+          error: 'Invalid user',
+          code: 'INVALID_USER'
+        });
+      }
+
+      const user = await User.findById(req.user!.userId);
+
+      if (!user) {
+        return res.status(404).json({
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      await user.unblockUser(new Types.ObjectId(userId));
+
+      await AuditLog.logEvent({
+        action: 'user.unblocked',
+        category: 'security',
+        severity: 'info',
+        status: 'success',
+        userId: user._id,
+        resourceType: 'user',
+        resourceId: userId,
+        description: 'User unblocked',
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.json({ message: 'User unblocked' });
+    } catch (error: any) {
+      await AuditLog.logEvent({
+        action: 'user.unblock_error',
+        category: 'security',
+        severity: 'error',
+        status: 'failure',
+        userId: req.user?.userId,
+        resourceType: 'user',
+        resourceId: req.params.userId,
+        description: 'Failed to unblock user',
+        error: {
+          code: error.name,
+          message: error.message,
+        },
+        context: {
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        },
+      });
+
+      res.status(500).json({
+        error: 'Failed to unblock user',
+        code: 'USER_UNBLOCK_ERROR'
+      });
+    }
+  }
+);
+
+// Public profile of another user
+router.get('/:userId',
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+
+      if (!Types.ObjectId.isValid(userId)) {
+        return res.status(404).json({
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      const callerId = new Types.ObjectId(req.user!.userId);
+      const user = await User.findOne({
+        ...visibleUsersQuery(callerId),
+        _id: userId,
+      });
+
+      if (!user) {
+        return res.status(404).json({
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      const presence = await presenceOf([user]);
+
+      res.json({ user: toPublicProfile(user, presence.get(user._id.toString())) });
+    } catch (error: any) {
+      res.status(500).json({
+        error: 'Failed to fetch user',
+        code: 'USER_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+module.exports = router;
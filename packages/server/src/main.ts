@@ -13,6 +13,9 @@ import {
   corsOptions 
 } from './middleware/security';
 import { AuditLog } from './models';
+import { startAttachmentGc } from './services/attachmentGc';
+import { startPresenceSweep } from './services/presence';
+import { startRingTimeouts } from './services/calls';
 
 // Load environment variables
 dotenv.config();
@@ -50,6 +53,8 @@ app.use('/api/messages', require('./controllers/messages'));
 app.use('/api/calls', require('./controllers/calls'));
 app.use('/api/devices', require('./controllers/devices'));
 app.use('/api/keys', require('./controllers/keys'));
+app.use('/api/files', require('./controllers/files'));
+app.use('/api/conversations', require('./controllers/conversations'));
 import adminController from './controllers/admin';
 app.use('/api/admin', adminController);
 
@@ -263,6 +268,15 @@ async function startServer() {
     // Setup Socket.IO
     setupSocketIO(server);
 
+    // Report users whose connections expired without a disconnect
+    startPresenceSweep();
+
+    // Periodically remove attachments that are no longer referenced
+    startAttachmentGc();
+
+    // Mark calls that rang too long without an answer as missed
+    startRingTimeouts();
+
     // Start HTTP server
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
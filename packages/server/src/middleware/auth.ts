@@ -251,10 +251,12 @@ export const deviceAuthentication = async (req: Request, res: Response, next: Ne
     }
 
     // Find and validate device
+    // When the request is authenticated the device must belong to the caller
     const device = await Device.findOne({
       deviceId,
       fingerprint: deviceFingerprint,
       status: 'active',
+      ...(req.user ? { userId: req.user.userId } : {}),
     });
 
     if (!device) {
@@ -3,6 +3,7 @@ import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import mongoSanitize from 'express-mongo-sanitize';
 import { celebrate, Joi, errors } from 'celebrate';
+import { CONFIG } from '@private-messaging/shared';
 import { AuditLog } from '../models';
 
 // Security headers middleware
@@ -130,6 +131,22 @@ export const callRateLimit = createRateLimit({
   keyGenerator: (req) => req.user?.userId?.toString() || req.ip
 });
 
+export const turnCredentialRateLimit = createRateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 10, // limit each user to 10 TURN credential requests per minute
+  message: 'Too many TURN credential requests, please wait before trying again.',
+  keyGenerator: (req) => req.user?.userId?.toString() || req.ip
+});
+
+// Every bundle fetch claims one of the target's one-time pre-keys, so fetches
+// are limited per requester and target, not only per requester
+export const preKeyBundleRateLimit = createRateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 20, // limit each user to 20 bundle fetches per target user per hour
+  message: 'Too many key bundle requests for this user, please wait before trying again.',
+  keyGenerator: (req) => `${req.user?.userId?.toString() || req.ip}:${req.params.userId}`
+});
+
 export const keyRotationRateLimit = createRateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
   max: 10, // limit each user to 10 key rotations per hour
@@ -215,6 +232,96 @@ export const validationSchemas = {
     })
   }),
 
+  // Message history (cursor-based)
+  messageHistory: celebrate({
+    params: Joi.object({
+      conversationId: Joi.string().max(255).required()
+    }),
+    query: Joi.object({
+      before: Joi.string().max(100),
+      limit: Joi.number().min(1).max(100).default(50)
+    })
+  }),
+
+  // Mark a conversation as read
+  markConversationRead: celebrate({
+    body: Joi.object({
+      conversationId: Joi.string().max(255).required()
+    })
+  }),
+
+  // Start an encrypted attachment upload
+  initUpload: celebrate({
+    body: Joi.object({
+      messageId: Joi.string().max(255).required(),
+      mimeType: Joi.string().max(100).required(),
+      size: Joi.number().integer().min(1).required(),
+      totalChunks: Joi.number().integer().min(1).max(10000).required()
+    })
+  }),
+
+  // One EncryptedChunk as produced by MessageEncryptionSDK.encryptFileChunk
+  uploadChunk: celebrate({
+    body: Joi.object({
+      chunkId: Joi.number().integer().min(0).required(),
+      encryptedData: Joi.string().required(),
+      nonce: Joi.string().max(64).required(),
+      isLast: Joi.boolean().required()
+    })
+  }),
+
+  // Conversation creation: a direct chat with one user, or a group
+  createConversation: celebrate({
+    body: Joi.object({
+      type: Joi.string().valid('direct', 'group').required(),
+      participantIds: Joi.array().items(Joi.string().hex().length(24)).min(1)
+        .max(CONFIG.MAX_GROUP_PARTICIPANTS - 1).required()
+        .when('type', { is: 'direct', then: Joi.array().length(1) }),
+      encryptedTitle: Joi.string().max(4096),
+      encryptedAvatar: Joi.string().max(256 * 1024),
+      maxParticipants: Joi.number().integer().min(2).max(CONFIG.MAX_GROUP_PARTICIPANTS)
+    })
+  }),
+
+  // Group title/avatar update (ciphertext from the members)
+  updateConversation: celebrate({
+    body: Joi.object({
+      encryptedTitle: Joi.string().max(4096).allow(null),
+      encryptedAvatar: Joi.string().max(256 * 1024).allow(null),
+      maxParticipants: Joi.number().integer().min(2).max(CONFIG.MAX_GROUP_PARTICIPANTS)
+    }).min(1)
+  }),
+
+  // Add members to a group
+  addConversationParticipants: celebrate({
+    body: Joi.object({
+      participantIds: Joi.array().items(Joi.string().hex().length(24)).min(1)
+        .max(CONFIG.MAX_GROUP_PARTICIPANTS - 1).required()
+    })
+  }),
+
+  // New invite link for a group
+  createConversationInvite: celebrate({
+    body: Joi.object({
+      expiresInHours: Joi.number().integer().min(1).max(24 * 30),
+      maxUses: Joi.number().integer().min(1).max(CONFIG.MAX_GROUP_PARTICIPANTS)
+    })
+  }),
+
+  // Join a group with an invite link code
+  joinConversation: celebrate({
+    body: Joi.object({
+      inviteCode: Joi.string().max(64).required()
+    })
+  }),
+
+  // Leave a conversation
+  leaveConversation: celebrate({
+    body: Joi.object({
+      conversationId: Joi.string().max(255).required()
+    })
+  }),
+
   // Call initiation
   initiateCall: celebrate({
     body: Joi.object({
@@ -227,6 +334,31 @@ export const validationSchemas = {
     })
   }),
 
+  // Invite participants to an ongoing call
+  inviteCallParticipants: celebrate({
+    body: Joi.object({
+      participantIds: Joi.array().items(Joi.string()).min(1).max(50).required()
+    })
+  }),
+
+  // Host asks a participant to turn tracks off
+  muteCallParticipant: celebrate({
+    body: Joi.object({
+      audio: Joi.boolean().default(true),
+      video: Joi.boolean().default(false)
+    })
+  }),
+
+  // Call quality report from a participant
+  callQuality: celebrate({
+    body: Joi.object({
+      bitrate: Joi.number().min(0).required(),
+      packetLoss: Joi.number().min(0).max(100).required(),
+      latency: Joi.number().min(0).required(),
+      jitter: Joi.number().min(0).default(0)
+    })
+  }),
+
   // Device registration
   registerDevice: celebrate({
     body: Joi.object({
@@ -250,6 +382,49 @@ export const validationSchemas = {
     })
   }),
 
+  // Device rename
+  renameDevice: celebrate({
+    body: Joi.object({
+      deviceName: Joi.string().trim().min(1).max(100).required()
+    })
+  }),
+
+  // Key bundle upload for the calling device
+  uploadKeyBundle: celebrate({
+    body: Joi.object({
+      identityKey: Joi.string().required(),
+      registrationId: Joi.number().integer().min(1).required(),
+      signedPreKey: Joi.object({
+        keyId: Joi.number().integer().min(0).required(),
+        publicKey: Joi.string().required(),
+        signature: Joi.string().required()
+      }).required(),
+      oneTimePreKeys: Joi.array().items(Joi.object({
+        keyId: Joi.number().integer().min(0).required(),
+        publicKey: Joi.string().required()
+      })).max(100).unique('keyId').default([])
+    })
+  }),
+
+  // One-time pre-key replenishment
+  addOneTimePreKeys: celebrate({
+    body: Joi.object({
+      oneTimePreKeys: Joi.array().items(Joi.object({
+        keyId: Joi.number().integer().min(0).required(),
+        publicKey: Joi.string().required()
+      })).min(1).max(100).unique('keyId').required()
+    })
+  }),
+
+  // Signed pre-key rotation
+  rotateSignedPreKey: celebrate({
+    body: Joi.object({
+      keyId: Joi.number().integer().min(0).required(),
+      publicKey: Joi.string().required(),
+      signature: Joi.string().required()
+    })
+  }),
+
   // Update user profile
   updateProfile: celebrate({
     body: Joi.object({
@@ -271,6 +446,21 @@ export const validationSchemas = {
     })
   }),
 
+  // User search by username
+  userSearch: celebrate({
+    query: Joi.object({
+      q: Joi.string().trim().min(2).max(30).required(),
+      limit: Joi.number().min(1).max(50).default(20)
+    })
+  }),
+
+  // Presence lookup for a set of users
+  userStatus: celebrate({
+    query: Joi.object({
+      ids: Joi.string().max(25 * 50).required() // Comma-separated user ids
+    })
+  }),
+
   // Pagination
   pagination: celebrate({
     query: Joi.object({
@@ -0,0 +1,149 @@
+import { Schema, model, Document, Types, Model } from 'mongoose';
+
+export interface IAttachment extends Document {
+  _id: Types.ObjectId;
+  fileId: string; // Public identifier, also the storage key
+  uploaderId: Types.ObjectId;
+  uploaderDeviceId?: Types.ObjectId;
+  messageId: string; // MessageEnvelope.messageId the file belongs to
+  mimeType: string; // Declared by the client; content is opaque ciphertext
+  size: number; // Declared plaintext size in bytes
+  totalChunks: number;
+  maxStoredBytes: number; // Upper bound for ciphertext (size + per-chunk overhead)
+  storedBytes: number;
+  chunks: Array<{
+    chunkId: number;
+    size: number; // Ciphertext bytes on storage
+    nonce: string;
+    isLast: boolean;
+    version?: string; // Storage version of the bytes; unset for chunks stored before versions
+  }>;
+  status: 'uploading' | 'complete' | 'deleted';
+  completedAt?: Date;
+  deletedAt?: Date;
+  expiresAt?: Date; // Set once every copy of a disappearing message has expired
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IAttachmentMethods {
+  getMissingChunks(): number[];
+  isComplete(): boolean;
+  markDeleted(): Promise<void>;
+}
+
+export interface AttachmentModel extends Model<IAttachment, {}, IAttachmentMethods> {
+  getUserUsage(userId: Types.ObjectId | string, upTo?: Types.ObjectId): Promise<number>;
+}
+
+const attachmentSchema = new Schema<IAttachment, AttachmentModel, IAttachmentMethods>({
+  fileId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+  },
+  uploaderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  uploaderDeviceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Device',
+  },
+  messageId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  mimeType: {
+    type: String,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  totalChunks: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  maxStoredBytes: {
+    type: Number,
+    required: true,
+  },
+  storedBytes: {
+    type: Number,
+    default: 0,
+  },
+  chunks: [{
+    _id: false,
+    chunkId: { type: Number, required: true },
+    size: { type: Number, required: true },
+    nonce: { type: String, required: true },
+    isLast: { type: Boolean, default: false },
+    version: String,
+  }],
+  status: {
+    type: String,
+    enum: ['uploading', 'complete', 'deleted'],
+    default: 'uploading',
+    index: true,
+  },
+  completedAt: Date,
+  deletedAt: Date,
+  expiresAt: Date,
+}, {
+  timestamps: true,
+});
+
+// Indexes
+attachmentSchema.index({ uploaderId: 1, status: 1 });
+attachmentSchema.index({ status: 1, updatedAt: 1 });
+
+// Methods
+attachmentSchema.methods.getMissingChunks = function(): number[] {
+  const received = new Set(this.chunks.map(chunk => chunk.chunkId));
+  const missing: number[] = [];
+  for (let chunkId = 0; chunkId < this.totalChunks; chunkId++) {
+    if (!received.has(chunkId)) {
+      missing.push(chunkId);
+    }
+  }
+  return missing;
+};
+
+attachmentSchema.methods.isComplete = function(): boolean {
+  return this.chunks.length === this.totalChunks;
+};
+
+attachmentSchema.methods.markDeleted = async function(): Promise<void> {
+  this.status = 'deleted';
+  this.deletedAt = new Date();
+  await this.save();
+};
+
+// Static methods
+attachmentSchema.statics.getUserUsage = async function(userId: Types.ObjectId | string, upTo?: Types.ObjectId): Promise<number> {
+  // Uploads in progress count with their declared size so a quota cannot be
+  // exceeded by starting many uploads at once. With upTo, only uploads
+  // created up to and including that one count.
+  const [usage] = await this.aggregate([
+    {
+      $match: {
+        uploaderId: new Types.ObjectId(userId),
+        status: { $ne: 'deleted' },
+        ...(upTo && { _id: { $lte: upTo } }),
+      },
+    },
+    { $group: { _id: null, total: { $sum: '$size' } } },
+  ]);
+  return usage?.total || 0;
+};
+
+export const Attachment = model<IAttachment, AttachmentModel>('Attachment', attachmentSchema);
+export default Attachment;
@@ -9,7 +9,7 @@ export interface IAuditLog extends Document {
   category: 'auth' | 'message' | 'call' | 'key_management' | 'admin' | 'system' | 'security';
   severity: 'info' | 'warning' | 'error' | 'critical';
   status: 'success' | 'failure' | 'pending';
-  resourceType?: 'user' | 'device' | 'message' | 'call' | 'session' | 'key_bundle';
+  resourceType?: 'user' | 'device' | 'message' | 'call' | 'session' | 'key_bundle' | 'attachment' | 'conversation';
   resourceId?: string; // ID of the affected resource
   details: {
     description: string;
@@ -119,7 +119,7 @@ const auditLogSchema = new Schema<IAuditLog, AuditLogModel, IAuditLogMethods>({
   },
   resourceType: {
     type: String,
-    enum: ['user', 'device', 'message', 'call', 'session', 'key_bundle'],
+    enum: ['user', 'device', 'message', 'call', 'session', 'key_bundle', 'attachment', 'conversation'],
     index: true,
   },
   resourceId: {
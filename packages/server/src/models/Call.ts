@@ -1,4 +1,5 @@
 import { Schema, model, Document, Types, Model } from 'mongoose';
+import { CONFIG, CallQualityMetrics, ConnectionQuality } from '@private-messaging/shared';
 
 export interface ICall extends Document {
   _id: Types.ObjectId;
@@ -10,45 +11,39 @@ export interface ICall extends Document {
   isGroupCall: boolean;
   encryption: {
     enabled: boolean;
-    keyExchange: 'DTLS-SRTP' | 'E2E-Custom';
-    masterKey?: string; // Encrypted master key
-    saltKey?: string;
+    keyExchange: 'DTLS-SRTP' | 'E2E-Custom'; // E2E-Custom: frame keys from the caller
+    keyEpoch: number; // Latest frame key epoch relayed; the keys never reach the server
   };
+  // TURN credentials are minted per request and never stored here
   signaling: {
     iceServers: Array<{
       urls: string[];
-      username?: string;
-      credential?: string;
-    }>;
-    turnServers: Array<{
-      urls: string[];
-      username: string;
-      credential: string;
     }>;
   };
   participants: Array<{
     userId: Types.ObjectId;
-    deviceId: Types.ObjectId;
+    deviceId?: Types.ObjectId; // Set once the participant answers on a device
+    ringingAt?: Date; // When their devices were rung; missed after the ring timeout
     joinedAt?: Date;
     leftAt?: Date;
-    status: 'invited' | 'ringing' | 'joined' | 'left' | 'rejected';
+    status: 'invited' | 'ringing' | 'joined' | 'left' | 'rejected' | 'missed' | 'removed'; // Removed by the host
     audioEnabled: boolean;
     videoEnabled: boolean;
     screenShareEnabled: boolean;
-    connectionQuality: 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
-    networkStats?: {
-      bitrate: number;
-      packetLoss: number;
-      latency: number;
-      jitter: number;
-    };
+    connectionQuality: ConnectionQuality; // Judged on the latest few samples
+    networkStats?: CallQualityMetrics & { sampledAt: Date }; // Latest sample
   }>;
   duration: number; // Duration in seconds
+  // Means over every sample of every participant; percentiles come from the
+  // CallQualitySample series
   quality: {
     avgBitrate: number;
     avgPacketLoss: number;
     avgLatency: number;
+    avgJitter: number;
     connectionDrops: number;
+    sampleCount: number;
+    totals: CallQualityMetrics; // Sums the means are kept from
   };
   recording: {
     enabled: boolean;
@@ -69,19 +64,37 @@ export interface ICall extends Document {
 }
 
 export interface ICallMethods {
-  addParticipant(userId: Types.ObjectId, deviceId: Types.ObjectId): Promise<void>;
+  addParticipant(userId: Types.ObjectId, deviceId?: Types.ObjectId): Promise<void>;
   removeParticipant(userId: Types.ObjectId): Promise<void>;
   updateParticipantStatus(userId: Types.ObjectId, status: string): Promise<void>;
   updateParticipantMedia(userId: Types.ObjectId, audio: boolean, video: boolean, screenShare: boolean): Promise<void>;
   startCall(): Promise<void>;
   endCall(reason: string): Promise<void>;
-  updateQuality(stats: any): Promise<void>;
   startRecording(): Promise<void>;
   stopRecording(): Promise<void>;
   generateCallSummary(): any;
 }
 
-type CallModel = Model<ICall, {}, ICallMethods>;
+export interface CallModel extends Model<ICall, {}, ICallMethods> {
+  claimAnswer(
+    callId: string,
+    userId: Types.ObjectId | string,
+    deviceId: Types.ObjectId | string
+  ): Promise<(ICall & ICallMethods) | null>;
+  rejoin(
+    callId: string,
+    userId: Types.ObjectId | string,
+    deviceId: Types.ObjectId | string
+  ): Promise<(ICall & ICallMethods) | null>;
+  recordQuality(
+    callId: string,
+    userId: Types.ObjectId | string,
+    deviceId: Types.ObjectId | string,
+    stats: CallQualityMetrics,
+    connectionQuality: ConnectionQuality,
+    sampledAt: Date
+  ): Promise<boolean>;
+}
 
 const callSchema = new Schema<ICall, CallModel, ICallMethods>({
   callId: {
@@ -122,19 +135,11 @@ const callSchema = new Schema<ICall, CallModel, ICallMethods>({
       enum: ['DTLS-SRTP', 'E2E-Custom'],
       default: 'DTLS-SRTP',
     },
-    masterKey: String,
-    saltKey: String,
+    keyEpoch: { type: Number, default: 0 },
   },
   signaling: {
     iceServers: [{
       urls: [String],
-      username: String,
-      credential: String,
-    }],
-    turnServers: [{
-      urls: [String],
-      username: { type: String, required: true },
-      credential: { type: String, required: true },
     }],
   },
   participants: [{
@@ -146,13 +151,13 @@ const callSchema = new Schema<ICall, CallModel, ICallMethods>({
     deviceId: {
       type: Schema.Types.ObjectId,
       ref: 'Device',
-      required: true,
     },
+    ringingAt: Date,
     joinedAt: Date,
     leftAt: Date,
     status: {
       type: String,
-      enum: ['invited', 'ringing', 'joined', 'left', 'rejected'],
+      enum: ['invited', 'ringing', 'joined', 'left', 'rejected', 'missed', 'removed'],
       default: 'invited',
     },
     audioEnabled: { type: Boolean, default: true },
@@ -168,6 +173,7 @@ const callSchema = new Schema<ICall, CallModel, ICallMethods>({
       packetLoss: Number,
       latency: Number,
       jitter: Number,
+      sampledAt: Date,
     },
   }],
   duration: {
@@ -178,7 +184,15 @@ const callSchema = new Schema<ICall, CallModel, ICallMethods>({
     avgBitrate: { type: Number, default: 0 },
     avgPacketLoss: { type: Number, default: 0 },
     avgLatency: { type: Number, default: 0 },
+    avgJitter: { type: Number, default: 0 },
     connectionDrops: { type: Number, default: 0 },
+    sampleCount: { type: Number, default: 0 },
+    totals: {
+      bitrate: { type: Number, default: 0 },
+      packetLoss: { type: Number, default: 0 },
+      latency: { type: Number, default: 0 },
+      jitter: { type: Number, default: 0 },
+    },
   },
   recording: {
     enabled: { type: Boolean, default: false },
@@ -213,26 +227,39 @@ callSchema.index({ callType: 1 });
 callSchema.index({ createdAt: -1 });
 callSchema.index({ duration: -1 });
 callSchema.index({ 'participants.userId': 1 });
+callSchema.index({ 'participants.status': 1, 'participants.ringingAt': 1 });
 
 // Methods
-callSchema.methods.addParticipant = async function(userId: Types.ObjectId, deviceId: Types.ObjectId): Promise<void> {
-  // Check if participant already exists
+// Invitees of a call that is already ringing or underway are rung right
+// away. Someone who left, declined, missed or was removed is invited again.
+callSchema.methods.addParticipant = async function(userId: Types.ObjectId, deviceId?: Types.ObjectId): Promise<void> {
+  const ringingAt = ['ringing', 'accepted'].includes(this.status) ? new Date() : undefined;
+  const status = ringingAt ? 'ringing' : 'invited';
+
   const existingParticipant = this.participants.find(p => p.userId.equals(userId));
   if (existingParticipant) {
-    return;
-  }
+    if (!['left', 'rejected', 'missed', 'removed'].includes(existingParticipant.status)) {
+      return;
+    }
 
-  this.participants.push({
-    userId,
-    deviceId,
-    status: 'invited',
-    audioEnabled: true,
-    videoEnabled: this.callType === 'video',
-    screenShareEnabled: false,
-    connectionQuality: 'unknown',
-  });
+    existingParticipant.status = status;
+    existingParticipant.ringingAt = ringingAt;
+    existingParticipant.deviceId = deviceId;
+    existingParticipant.leftAt = undefined;
+  } else {
+    this.participants.push({
+      userId,
+      deviceId,
+      status,
+      ringingAt,
+      audioEnabled: true,
+      videoEnabled: this.callType === 'video',
+      screenShareEnabled: false,
+      connectionQuality: 'unknown',
+    });
+  }
 
-  if (!this.participantIds.includes(userId)) {
+  if (!this.participantIds.some(id => id.equals(userId))) {
     this.participantIds.push(userId);
   }
 
@@ -293,7 +320,16 @@ callSchema.methods.updateParticipantMedia = async function(
   await this.save();
 };
 
+// Ring every callee who has not answered yet
 callSchema.methods.startCall = async function(): Promise<void> {
+  const now = new Date();
+  this.participants.forEach(participant => {
+    if (participant.status === 'invited') {
+      participant.status = 'ringing';
+      participant.ringingAt = now;
+    }
+  });
+
   this.status = 'ringing';
   await this.save();
 };
@@ -314,19 +350,6 @@ callSchema.methods.endCall = async function(reason: string): Promise<void> {
   await this.save();
 };
 
-callSchema.methods.updateQuality = async function(stats: any): Promise<void> {
-  // Update average quality metrics
-  const participantCount = this.participants.filter(p => p.status === 'joined').length;
-  
-  if (participantCount > 0) {
-    this.quality.avgBitrate = (this.quality.avgBitrate + stats.bitrate) / 2;
-    this.quality.avgPacketLoss = (this.quality.avgPacketLoss + stats.packetLoss) / 2;
-    this.quality.avgLatency = (this.quality.avgLatency + stats.latency) / 2;
-  }
-
-  await this.save();
-};
-
 callSchema.methods.startRecording = async function(): Promise<void> {
   this.recording.enabled = true;
   this.recording.startedAt = new Date();
@@ -374,6 +397,129 @@ callSchema.statics.getUserCallHistory = async function(
   .populate('participantIds', 'username displayName avatar');
 };
 
+/**
+ * Take a ringing call on one device. Only the first device of a callee to
+ * answer gets the call; returns null for the others.
+ */
+callSchema.statics.claimAnswer = async function(
+  callId: string,
+  userId: Types.ObjectId | string,
+  deviceId: Types.ObjectId | string
+) {
+  const call = await this.findOneAndUpdate(
+    {
+      callId,
+      status: { $in: ['ringing', 'accepted'] },
+      participants: { $elemMatch: { userId, status: { $in: ['invited', 'ringing'] } } },
+    },
+    {
+      $set: {
+        'participants.$.status': 'joined',
+        'participants.$.deviceId': deviceId,
+        'participants.$.joinedAt': new Date(),
+      },
+      $inc: { __v: 1 }, // Saves of a copy loaded before the answer must fail
+    },
+    { new: true }
+  );
+
+  if (call?.status === 'ringing') {
+    call.status = 'accepted';
+    await call.save();
+  }
+  return call;
+};
+
+/**
+ * Put a participant back into an ongoing call on the given device: after
+ * they left a group call that went on, or to move the call over from the
+ * device they are in it on. Returns null when the call is over or they are
+ * not a participant who can rejoin.
+ */
+callSchema.statics.rejoin = async function(
+  callId: string,
+  userId: Types.ObjectId | string,
+  deviceId: Types.ObjectId | string
+) {
+  return this.findOneAndUpdate(
+    {
+      callId,
+      status: 'accepted',
+      participants: { $elemMatch: { userId, status: { $in: ['joined', 'left'] } } },
+    },
+    {
+      $set: {
+        'participants.$.status': 'joined',
+        'participants.$.deviceId': deviceId,
+      },
+      $unset: { 'participants.$.leftAt': 1 },
+      $inc: { __v: 1 },
+    },
+    { new: true }
+  );
+};
+
+/**
+ * Record a participant's latest stats sample and add it to the call's means.
+ * Only counts for the device the participant is in the call on, and only
+ * when their previous sample is at least CALL_STATS_MIN_INTERVAL_MS old;
+ * returns whether the sample was taken.
+ */
+callSchema.statics.recordQuality = async function(
+  callId: string,
+  userId: Types.ObjectId | string,
+  deviceId: Types.ObjectId | string,
+  stats: CallQualityMetrics,
+  connectionQuality: ConnectionQuality,
+  sampledAt: Date
+): Promise<boolean> {
+  const throttledUntil = new Date(sampledAt.getTime() - CONFIG.CALL_STATS_MIN_INTERVAL_MS);
+  const result = await this.updateOne(
+    {
+      callId,
+      participants: {
+        $elemMatch: {
+          userId,
+          deviceId,
+          status: 'joined',
+          $or: [
+            { 'networkStats.sampledAt': { $exists: false } },
+            { 'networkStats.sampledAt': { $lte: throttledUntil } },
+          ],
+        },
+      },
+    },
+    {
+      $set: {
+        'participants.$.networkStats': { ...stats, sampledAt },
+        'participants.$.connectionQuality': connectionQuality,
+      },
+      $inc: {
+        'quality.sampleCount': 1,
+        'quality.totals.bitrate': stats.bitrate,
+        'quality.totals.packetLoss': stats.packetLoss,
+        'quality.totals.latency': stats.latency,
+        'quality.totals.jitter': stats.jitter,
+      },
+    }
+  );
+
+  if (result.modifiedCount === 0) {
+    return false;
+  }
+
+  // Means from the totals as they are now, so concurrent samples all count
+  await this.updateOne({ callId }, [{
+    $set: {
+      'quality.avgBitrate': { $divide: ['$quality.totals.bitrate', '$quality.sampleCount'] },
+      'quality.avgPacketLoss': { $divide: ['$quality.totals.packetLoss', '$quality.sampleCount'] },
+      'quality.avgLatency': { $divide: ['$quality.totals.latency', '$quality.sampleCount'] },
+      'quality.avgJitter': { $divide: ['$quality.totals.jitter', '$quality.sampleCount'] },
+    },
+  }]);
+  return true;
+};
+
 callSchema.statics.getActiveCallsForUser = async function(userId: Types.ObjectId) {
   return this.find({
     $or: [
@@ -0,0 +1,94 @@
+import { Schema, model, Document, Types, Model, FilterQuery } from 'mongoose';
+import { CallQualityMetrics, MetricSummary, QualitySummary } from '@private-messaging/shared';
+
+const METRICS: Array<keyof CallQualityMetrics> = ['bitrate', 'packetLoss', 'latency', 'jitter'];
+
+// One stats report from a participant's device, kept as a time series so
+// call quality can be summarized with real means and percentiles
+export interface ICallQualitySample extends Document, CallQualityMetrics {
+  _id: Types.ObjectId;
+  callId: string;
+  userId: Types.ObjectId;
+  deviceId: Types.ObjectId;
+  sampledAt: Date;
+  expiresAt: Date;
+}
+
+export interface CallQualitySampleModel extends Model<ICallQualitySample> {
+  summarize(
+    filter: FilterQuery<ICallQualitySample>,
+    groupBy?: string | Record<string, any>
+  ): Promise<Array<QualitySummary & { _id: any }>>;
+}
+
+const callQualitySampleSchema = new Schema<ICallQualitySample, CallQualitySampleModel>({
+  callId: {
+    type: String,
+    required: true,
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  deviceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Device',
+    required: true,
+  },
+  bitrate: { type: Number, required: true },
+  packetLoss: { type: Number, required: true },
+  latency: { type: Number, required: true },
+  jitter: { type: Number, required: true },
+  sampledAt: {
+    type: Date,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Indexes
+callQualitySampleSchema.index({ callId: 1, userId: 1, sampledAt: -1 });
+callQualitySampleSchema.index({ sampledAt: 1 });
+callQualitySampleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static methods
+
+/**
+ * Means, medians and 95th percentiles of the matching samples, one summary
+ * per group, or a single summary with a null _id when no groupBy is given.
+ * Percentiles are MongoDB's approximate ones.
+ */
+callQualitySampleSchema.statics.summarize = async function(
+  filter: FilterQuery<ICallQualitySample>,
+  groupBy: string | Record<string, any> | null = null
+): Promise<Array<QualitySummary & { _id: any }>> {
+  const accumulators: Record<string, any> = { samples: { $sum: 1 } };
+  METRICS.forEach(metric => {
+    accumulators[`${metric}Mean`] = { $avg: `$${metric}` };
+    accumulators[`${metric}Percentiles`] = {
+      $percentile: { input: `$${metric}`, p: [0.5, 0.95], method: 'approximate' },
+    };
+  });
+
+  const groups = await this.aggregate([
+    { $match: filter },
+    { $group: { _id: groupBy, ...accumulators } },
+  ]);
+
+  return groups.map((group: any) => {
+    const summary: any = { _id: group._id, samples: group.samples };
+    METRICS.forEach(metric => {
+      const [p50, p95] = group[`${metric}Percentiles`];
+      const metricSummary: MetricSummary = { mean: group[`${metric}Mean`], p50, p95 };
+      summary[metric] = metricSummary;
+    });
+    return summary;
+  });
+};
+
+export const CallQualitySample = model<ICallQualitySample, CallQualitySampleModel>('CallQualitySample', callQualitySampleSchema);
+export default CallQualitySample;
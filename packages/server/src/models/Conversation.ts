@@ -0,0 +1,416 @@
+import { Schema, model, Document, Types, Model } from 'mongoose';
+import crypto from 'crypto';
+import { CONFIG } from '@private-messaging/shared';
+
+export type ConversationEventType =
+  | 'created'
+  | 'member_added'
+  | 'member_joined'
+  | 'member_removed'
+  | 'member_left'
+  | 'admin_granted'
+  | 'admin_revoked';
+
+export interface IConversation extends Document {
+  _id: Types.ObjectId;
+  conversationId: string; // Public identifier, also the socket room name
+  type: 'direct' | 'group';
+  createdBy: Types.ObjectId;
+  participantIds: Types.ObjectId[];
+  adminIds: Types.ObjectId[]; // Always a subset of participantIds
+  encryptedTitle?: string; // Encrypted by members; opaque to the server
+  encryptedAvatar?: string;
+  maxParticipants: number;
+  inviteLinks: Array<{
+    code: string;
+    createdBy: Types.ObjectId;
+    createdAt: Date;
+    expiresAt?: Date;
+    maxUses?: number;
+    uses: number;
+    revokedAt?: Date;
+  }>;
+  memberEvents: Array<{
+    type: ConversationEventType;
+    userId: Types.ObjectId; // Member the event is about
+    actorId: Types.ObjectId; // Member who caused it
+    timestamp: Date;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IConversationMethods {
+  isParticipant(userId: Types.ObjectId | string): boolean;
+  isAdmin(userId: Types.ObjectId | string): boolean;
+  addParticipants(userIds: Types.ObjectId[], actorId: Types.ObjectId, via?: 'member_added' | 'member_joined'): Promise<Types.ObjectId[]>;
+  removeParticipant(userId: Types.ObjectId, actorId: Types.ObjectId): Promise<void>;
+  setAdmin(userId: Types.ObjectId, admin: boolean, actorId: Types.ObjectId): Promise<void>;
+  setMaxParticipants(maxParticipants: number): Promise<boolean>;
+  createInviteLink(createdBy: Types.ObjectId, options?: { expiresAt?: Date; maxUses?: number }): Promise<string>;
+  revokeInviteLink(code: string): Promise<boolean>;
+  joinWithInviteLink(code: string, userId: Types.ObjectId): Promise<boolean>;
+}
+
+export interface ConversationModel extends Model<IConversation, {}, IConversationMethods> {
+  directConversationId(a: Types.ObjectId | string, b: Types.ObjectId | string): string;
+  isMember(conversationId: string, userId: Types.ObjectId | string): Promise<boolean>;
+  filterMemberConversations(conversationIds: string[], userId: Types.ObjectId | string): Promise<string[]>;
+}
+
+const conversationSchema = new Schema<IConversation, ConversationModel, IConversationMethods>({
+  conversationId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+  },
+  type: {
+    type: String,
+    enum: ['direct', 'group'],
+    required: true,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  participantIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  }],
+  adminIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  }],
+  encryptedTitle: String,
+  encryptedAvatar: String,
+  maxParticipants: {
+    type: Number,
+    default: CONFIG.MAX_GROUP_PARTICIPANTS,
+    min: 2,
+    max: CONFIG.MAX_GROUP_PARTICIPANTS,
+  },
+  inviteLinks: [{
+    code: {
+      type: String,
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: Date,
+    maxUses: Number,
+    uses: {
+      type: Number,
+      default: 0,
+    },
+    revokedAt: Date,
+  }],
+  memberEvents: [{
+    type: {
+      type: String,
+      enum: ['created', 'member_added', 'member_joined', 'member_removed', 'member_left', 'admin_granted', 'admin_revoked'],
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+    },
+  }],
+}, {
+  timestamps: true,
+});
+
+// Indexes
+conversationSchema.index({ participantIds: 1, updatedAt: -1 });
+conversationSchema.index({ 'inviteLinks.code': 1 }, { sparse: true });
+
+// Methods
+conversationSchema.methods.isParticipant = function(userId: Types.ObjectId | string): boolean {
+  return this.participantIds.some((id: Types.ObjectId) => id.equals(userId));
+};
+
+conversationSchema.methods.isAdmin = function(userId: Types.ObjectId | string): boolean {
+  return this.adminIds.some((id: Types.ObjectId) => id.equals(userId));
+};
+
+// Membership changes are conditional updates on the stored document rather
+// than a save of the loaded one, so concurrent joins, adds and removals can
+// neither overwrite each other nor push a group past maxParticipants
+const reloadMembership = async (conversation: any): Promise<void> => {
+  const fresh = await (conversation.constructor as ConversationModel)
+    .findById(conversation._id)
+    .select('participantIds adminIds inviteLinks memberEvents');
+  if (!fresh) {
+    return;
+  }
+
+  (['participantIds', 'adminIds', 'inviteLinks', 'memberEvents'] as const).forEach(path => {
+    conversation[path] = fresh[path];
+    conversation.unmarkModified(path);
+  });
+};
+
+const hasRoomFor = (count: number) => ({
+  $expr: { $lte: [{ $add: [{ $size: '$participantIds' }, count] }, '$maxParticipants'] },
+});
+
+// Adds the users that are not members yet and returns them
+conversationSchema.methods.addParticipants = async function(
+  userIds: Types.ObjectId[],
+  actorId: Types.ObjectId,
+  via: 'member_added' | 'member_joined' = 'member_added'
+): Promise<Types.ObjectId[]> {
+  const Conversation = this.constructor as ConversationModel;
+  const unique = userIds.filter((userId, index) => userIds.findIndex(id => id.equals(userId)) === index);
+
+  for (;;) {
+    const added = unique.filter(userId => !this.isParticipant(userId));
+    if (added.length === 0) {
+      return added;
+    }
+    if (this.participantIds.length + added.length > this.maxParticipants) {
+      throw new Error('Conversation is full');
+    }
+
+    // All or nothing: none of them joined meanwhile and all of them still fit
+    const result = await Conversation.updateOne(
+      { _id: this._id, participantIds: { $nin: added }, ...hasRoomFor(added.length) },
+      {
+        $addToSet: { participantIds: { $each: added } },
+        $push: {
+          memberEvents: { $each: added.map(userId => ({ type: via, userId, actorId, timestamp: new Date() })) },
+        },
+      }
+    );
+
+    await reloadMembership(this);
+    if (result.modifiedCount > 0) {
+      return added;
+    }
+    // Membership changed since this instance was loaded; retry against the stored state
+  }
+};
+
+conversationSchema.methods.removeParticipant = async function(
+  userId: Types.ObjectId,
+  actorId: Types.ObjectId
+): Promise<void> {
+  const Conversation = this.constructor as ConversationModel;
+
+  await Conversation.updateOne(
+    { _id: this._id, participantIds: userId },
+    {
+      $pull: { participantIds: userId, adminIds: userId },
+      $push: {
+        memberEvents: {
+          type: userId.equals(actorId) ? 'member_left' : 'member_removed',
+          userId,
+          actorId,
+          timestamp: new Date(),
+        },
+      },
+    }
+  );
+  await reloadMembership(this);
+
+  // A group is never left without an admin; the longest-standing member takes over
+  if (this.type === 'group' && this.adminIds.length === 0 && this.participantIds.length > 0) {
+    const successor = this.participantIds[0];
+    await Conversation.updateOne(
+      { _id: this._id, adminIds: { $size: 0 }, participantIds: successor },
+      {
+        $addToSet: { adminIds: successor },
+        $push: { memberEvents: { type: 'admin_granted', userId: successor, actorId, timestamp: new Date() } },
+      }
+    );
+    await reloadMembership(this);
+  }
+};
+
+conversationSchema.methods.setAdmin = async function(
+  userId: Types.ObjectId,
+  admin: boolean,
+  actorId: Types.ObjectId
+): Promise<void> {
+  if (admin === this.isAdmin(userId)) {
+    return;
+  }
+
+  // Only a current member can be made an admin, and a revoke only goes
+  // through while another admin remains
+  const result = await (this.constructor as ConversationModel).updateOne(
+    admin
+      ? { _id: this._id, participantIds: userId, adminIds: { $ne: userId } }
+      : { _id: this._id, adminIds: userId, 'adminIds.1': { $exists: true } },
+    {
+      ...(admin ? { $addToSet: { adminIds: userId } } : { $pull: { adminIds: userId } }),
+      $push: {
+        memberEvents: {
+          type: admin ? 'admin_granted' : 'admin_revoked',
+          userId,
+          actorId,
+          timestamp: new Date(),
+        },
+      },
+    }
+  );
+
+  await reloadMembership(this);
+  if (result.modifiedCount === 0 && !admin && this.isAdmin(userId) && this.adminIds.length === 1) {
+    throw new Error('A group needs at least one admin');
+  }
+};
+
+// Changes the size limit unless the group already has more members; false if it does
+conversationSchema.methods.setMaxParticipants = async function(maxParticipants: number): Promise<boolean> {
+  const result = await (this.constructor as ConversationModel).updateOne(
+    { _id: this._id, $expr: { $lte: [{ $size: '$participantIds' }, maxParticipants] } },
+    { $set: { maxParticipants } }
+  );
+
+  if (result.matchedCount === 0) {
+    return false;
+  }
+
+  this.maxParticipants = maxParticipants;
+  this.unmarkModified('maxParticipants');
+  return true;
+};
+
+conversationSchema.methods.createInviteLink = async function(
+  createdBy: Types.ObjectId,
+  options: { expiresAt?: Date; maxUses?: number } = {}
+): Promise<string> {
+  const code = crypto.randomBytes(16).toString('base64url');
+
+  this.inviteLinks.push({
+    code,
+    createdBy,
+    createdAt: new Date(),
+    expiresAt: options.expiresAt,
+    maxUses: options.maxUses,
+    uses: 0,
+  });
+
+  await this.save();
+  return code;
+};
+
+conversationSchema.methods.revokeInviteLink = async function(code: string): Promise<boolean> {
+  const link = this.inviteLinks.find((l: any) => l.code === code && !l.revokedAt);
+  if (!link) {
+    return false;
+  }
+
+  link.revokedAt = new Date();
+  await this.save();
+  return true;
+};
+
+// Joins the user through an invite link; false if the link cannot be used
+conversationSchema.methods.joinWithInviteLink = async function(
+  code: string,
+  userId: Types.ObjectId
+): Promise<boolean> {
+  const link = this.inviteLinks.find((l: any) => l.code === code);
+
+  const usable = !!link &&
+    !link.revokedAt &&
+    (!link.expiresAt || link.expiresAt > new Date()) &&
+    (link.maxUses === undefined || link.maxUses === null || link.uses < link.maxUses);
+
+  if (!usable) {
+    return false;
+  }
+
+  if (this.isParticipant(userId)) {
+    return true;
+  }
+
+  // Count the use and add the member in one update, so a link can never be
+  // used more than maxUses times and the group can never overfill
+  const result = await (this.constructor as ConversationModel).updateOne(
+    {
+      _id: this._id,
+      participantIds: { $ne: userId },
+      inviteLinks: {
+        $elemMatch: {
+          code,
+          revokedAt: null,
+          ...(link.maxUses === undefined || link.maxUses === null ? {} : { uses: { $lt: link.maxUses } }),
+        },
+      },
+      ...hasRoomFor(1),
+    },
+    {
+      $addToSet: { participantIds: userId },
+      $inc: { 'inviteLinks.$.uses': 1 },
+      $push: { memberEvents: { type: 'member_joined', userId, actorId: userId, timestamp: new Date() } },
+    }
+  );
+
+  await reloadMembership(this);
+  if (result.modifiedCount > 0 || this.isParticipant(userId)) {
+    return true;
+  }
+
+  const current = this.inviteLinks.find((l: any) => l.code === code);
+  const stillUsable = !!current && !current.revokedAt &&
+    (current.maxUses === undefined || current.maxUses === null || current.uses < current.maxUses);
+  if (stillUsable && this.participantIds.length >= this.maxParticipants) {
+    throw new Error('Conversation is full');
+  }
+  return false;
+};
+
+// Static methods
+
+// Direct conversations have one document per pair of users, whoever creates it
+conversationSchema.statics.directConversationId = function(
+  a: Types.ObjectId | string,
+  b: Types.ObjectId | string
+): string {
+  const pair = [a.toString(), b.toString()].sort().join(':');
+  return `direct_${crypto.createHash('sha256').update(pair).digest('hex').slice(0, 32)}`;
+};
+
+conversationSchema.statics.isMember = async function(
+  conversationId: string,
+  userId: Types.ObjectId | string
+): Promise<boolean> {
+  return !!(await this.exists({ conversationId, participantIds: userId }));
+};
+
+// The subset of the given conversations the user belongs to
+conversationSchema.statics.filterMemberConversations = async function(
+  conversationIds: string[],
+  userId: Types.ObjectId | string
+): Promise<string[]> {
+  const conversations = await this.find({
+    conversationId: { $in: conversationIds },
+    participantIds: userId,
+  }).select('conversationId');
+
+  return conversations.map((conversation: IConversation) => conversation.conversationId);
+};
+
+export const Conversation = model<IConversation, ConversationModel>('Conversation', conversationSchema);
+export default Conversation;
@@ -0,0 +1,111 @@
+import { Schema, model, Document, Types, Model } from 'mongoose';
+
+// One undelivered envelope for one recipient device. Entries stay until the
+// device acknowledges the message or the retention period runs out.
+export interface IDeviceInbox extends Document {
+  _id: Types.ObjectId;
+  deviceId: Types.ObjectId;
+  userId: Types.ObjectId; // Owner of the device
+  messageId: string; // MessageEnvelope.messageId
+  envelopeId: Types.ObjectId;
+  conversationId: string;
+  attempts: number; // Times the envelope was sent to the device
+  lastAttemptAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DeviceInboxModel extends Model<IDeviceInbox> {
+  enqueue(
+    envelope: { _id: Types.ObjectId; messageId: string; conversationId: string },
+    devices: Array<{ deviceId: Types.ObjectId; userId: Types.ObjectId }>,
+    expiresAt: Date
+  ): Promise<void>;
+  acknowledge(deviceId: Types.ObjectId | string, messageId: string): Promise<boolean>;
+}
+
+const deviceInboxSchema = new Schema<IDeviceInbox, DeviceInboxModel>({
+  deviceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Device',
+    required: true,
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  messageId: {
+    type: String,
+    required: true,
+  },
+  envelopeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MessageEnvelope',
+    required: true,
+  },
+  conversationId: {
+    type: String,
+    required: true,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  lastAttemptAt: Date,
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+deviceInboxSchema.index({ deviceId: 1, messageId: 1 }, { unique: true });
+deviceInboxSchema.index({ deviceId: 1, createdAt: 1 });
+deviceInboxSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static methods
+
+// Idempotent, so a retried send never queues an envelope twice
+deviceInboxSchema.statics.enqueue = async function(
+  envelope: { _id: Types.ObjectId; messageId: string; conversationId: string },
+  devices: Array<{ deviceId: Types.ObjectId; userId: Types.ObjectId }>,
+  expiresAt: Date
+): Promise<void> {
+  if (devices.length === 0) {
+    return;
+  }
+
+  await this.bulkWrite(devices.map(({ deviceId, userId }) => ({
+    updateOne: {
+      filter: { deviceId, messageId: envelope.messageId },
+      update: {
+        $setOnInsert: {
+          deviceId,
+          userId,
+          messageId: envelope.messageId,
+          envelopeId: envelope._id,
+          conversationId: envelope.conversationId,
+          expiresAt,
+        },
+      },
+      upsert: true,
+    },
+  })), { ordered: false });
+};
+
+// Remove an entry once the device confirmed it has the message
+deviceInboxSchema.statics.acknowledge = async function(
+  deviceId: Types.ObjectId | string,
+  messageId: string
+): Promise<boolean> {
+  const result = await this.deleteOne({ deviceId, messageId });
+  return result.deletedCount > 0;
+};
+
+export const DeviceInbox = model<IDeviceInbox, DeviceInboxModel>('DeviceInbox', deviceInboxSchema);
+export default DeviceInbox;
@@ -133,44 +133,89 @@ keyBundleSchema.index({ 'rotationSchedule.oneTimePreKeyRefill': 1 });
 
 // Methods
 keyBundleSchema.methods.useOneTimePreKey = async function(keyId: number, usedBy: Types.ObjectId): Promise<string | null> {
-  const keyIndex = this.oneTimePreKeys.findIndex(
-    key => key.keyId === keyId && !key.used
+  const usedAt = new Date();
+
+  // Claim the key with a single conditional update so concurrent callers
+  // can never both receive it; only the update that flips `used` wins
+  const result = await (this.constructor as KeyBundleModel).updateOne(
+    {
+      _id: this._id,
+      oneTimePreKeys: { $elemMatch: { keyId, used: false } },
+    },
+    {
+      $set: {
+        'oneTimePreKeys.$.used': true,
+        'oneTimePreKeys.$.usedAt': usedAt,
+        'oneTimePreKeys.$.usedBy': usedBy,
+        'usage.lastKeyUsed': usedAt,
+      },
+      $inc: {
+        'usage.oneTimeKeysUsed': 1,
+        'usage.totalConversationsStarted': 1,
+      },
+    }
   );
-  
-  if (keyIndex === -1) {
+
+  if (result.modifiedCount === 0) {
     return null; // Key not found or already used
   }
-  
-  const key = this.oneTimePreKeys[keyIndex];
+
+  // Mirror the claim on this instance without marking it modified
+  const key = this.oneTimePreKeys.find(k => k.keyId === keyId && !k.used);
+  if (!key) {
+    // Stale instance; the claim still succeeded, so read the key back
+    const fresh = await (this.constructor as KeyBundleModel).findById(this._id);
+    return fresh?.oneTimePreKeys.find(k => k.keyId === keyId)?.publicKey ?? null;
+  }
+
   key.used = true;
-  key.usedAt = new Date();
+  key.usedAt = usedAt;
   key.usedBy = usedBy;
-  
   this.usage.oneTimeKeysUsed += 1;
-  this.usage.lastKeyUsed = new Date();
+  this.usage.lastKeyUsed = usedAt;
   this.usage.totalConversationsStarted += 1;
-  
-  await this.save();
+  this.unmarkModified('oneTimePreKeys');
+  this.unmarkModified('usage');
+
   return key.publicKey;
 };
 
 keyBundleSchema.methods.addOneTimePreKeys = async function(keys: Array<{ keyId: number; publicKey: string }>): Promise<void> {
-  // Remove any existing keys with the same keyIds
+  const Bundle = this.constructor as KeyBundleModel;
+
+  // Remove any existing keys with the same keyIds. Both steps are targeted
+  // updates rather than a full-array save, which would overwrite claims made
+  // concurrently through useOneTimePreKey
   const existingKeyIds = keys.map(k => k.keyId);
-  this.oneTimePreKeys = this.oneTimePreKeys.filter(
-    key => !existingKeyIds.includes(key.keyId)
+  await Bundle.updateOne(
+    { _id: this._id },
+    { $pull: { oneTimePreKeys: { keyId: { $in: existingKeyIds } } } }
   );
-  
+
   // Add new keys
-  this.oneTimePreKeys.push(...keys.map(key => ({
-    ...key,
-    used: false,
-  })));
-  
-  // Update refill schedule
-  this.rotationSchedule.oneTimePreKeyRefill = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
-  
-  await this.save();
+  await Bundle.updateOne(
+    { _id: this._id },
+    {
+      $push: {
+        oneTimePreKeys: {
+          $each: keys.map(key => ({ ...key, used: false })),
+          $sort: { keyId: 1 },
+        },
+      },
+      // Update refill schedule
+      $set: {
+        'rotationSchedule.oneTimePreKeyRefill': new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      },
+    }
+  );
+
+  const updated = await Bundle.findById(this._id).select('oneTimePreKeys rotationSchedule');
+  if (updated) {
+    this.oneTimePreKeys = updated.oneTimePreKeys;
+    this.rotationSchedule = updated.rotationSchedule;
+    this.unmarkModified('oneTimePreKeys');
+    this.unmarkModified('rotationSchedule');
+  }
 };
 
 keyBundleSchema.methods.rotateSignedPreKey = async function(newSignedPreKey: { keyId: number; publicKey: string; signature: string }): Promise<void> {
@@ -230,20 +275,45 @@ keyBundleSchema.statics.getUserKeyBundle = async function(userId: Types.ObjectId
 
 keyBundleSchema.statics.getKeyBundleForConversation = async function(
   recipientUserId: Types.ObjectId,
-  recipientDeviceId?: Types.ObjectId
+  recipientDeviceId?: Types.ObjectId,
+  requestedBy?: Types.ObjectId
 ) {
   const keyBundle = await this.getUserKeyBundle(recipientUserId, recipientDeviceId);
-  
-  if (!keyBundle || keyBundle.getAvailableOneTimeKeys() === 0) {
+
+  if (!keyBundle) {
     return null;
   }
-  
-  // Return a clean key bundle without sensitive information
+
+  // Claim one unused one-time pre-key. Candidates can be taken by a
+  // concurrent request between the read and the claim, so fall through to
+  // the next one until a claim succeeds or the keys run out
+  let oneTimePreKey: { keyId: number; publicKey: string } | undefined;
+  if (requestedBy) {
+    const candidates = keyBundle.oneTimePreKeys
+      .filter((key: any) => !key.used)
+      .map((key: any) => key.keyId);
+
+    for (const keyId of candidates) {
+      const publicKey = await keyBundle.useOneTimePreKey(keyId, requestedBy);
+      if (publicKey) {
+        oneTimePreKey = { keyId, publicKey };
+        break;
+      }
+    }
+  }
+
+  // Return a clean key bundle without sensitive information. X3DH works
+  // without a one-time pre-key, so an exhausted bundle is still returned
   return {
-    userId: keyBundle.userId,
-    deviceId: keyBundle.deviceId,
+    userId: keyBundle.userId._id,
+    deviceId: keyBundle.deviceId._id,
     identityKey: keyBundle.identityKey,
-    signedPreKey: keyBundle.signedPreKey,
+    signedPreKey: {
+      keyId: keyBundle.signedPreKey.keyId,
+      publicKey: keyBundle.signedPreKey.publicKey,
+      signature: keyBundle.signedPreKey.signature,
+    },
+    oneTimePreKey,
     registrationId: keyBundle.registrationId,
     availableOneTimeKeys: keyBundle.getAvailableOneTimeKeys(),
   };
@@ -262,8 +332,11 @@ keyBundleSchema.statics.findKeysNeedingRotation = async function() {
 
 // Pre-save middleware
 keyBundleSchema.pre('save', function(next) {
-  // Ensure one-time pre-keys are sorted by keyId
-  this.oneTimePreKeys.sort((a, b) => a.keyId - b.keyId);
+  // Ensure one-time pre-keys are sorted by keyId. Sorting marks the whole
+  // array as modified, so only do it when it is being written anyway
+  if (this.isModified('oneTimePreKeys')) {
+    this.oneTimePreKeys.sort((a, b) => a.keyId - b.keyId);
+  }
   next();
 });
 
@@ -3,8 +3,9 @@ import { Schema, model, Document, Types, Model } from 'mongoose';
 export interface IMessageEnvelope extends Document {
   _id: Types.ObjectId;
   messageId: string; // Client-generated unique identifier
+  bundleMessageId?: string; // The sender's message id, shared by copies of a bundle
   senderId: Types.ObjectId;
-  recipientId: Types.ObjectId;
+  recipientId?: Types.ObjectId; // Unset for sender-key group messages
   senderDeviceId: Types.ObjectId;
   recipientDeviceId?: Types.ObjectId; // May be null for multi-device scenarios
   conversationId: string; // Derived from participants
@@ -22,20 +23,27 @@ export interface IMessageEnvelope extends Document {
     };
     thumbnail?: string; // Base64 encoded thumbnail
   };
-  doubleRatchetHeader: {
+  doubleRatchetHeader?: {
     dhPublicKey: string;
     previousChainLength: number;
     messageNumber: number;
   };
+  senderKeyHeader?: { // Group messages: one ciphertext for all member devices
+    keyId: number;
+    iteration: number;
+    signature: string;
+  };
   preKeyId?: number; // For initial messages in a conversation
   oneTimePreKeyId?: number; // For initial messages
-  status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
-  deliveryReceipts: Array<{
-    deviceId: Types.ObjectId;
-    status: 'delivered' | 'read';
-    timestamp: Date;
-  }>;
+  senderIdentityKey?: string; // X3DH: sender identity key on initial messages
+  senderEphemeralKey?: string; // X3DH: sender ephemeral key on initial messages
+  status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed'; // Mirrors MessageReceipt once sent
   replyToMessageId?: string;
+  control?: { // System messages that edit, delete or react to another message, or set a timer
+    action: 'edit' | 'delete' | 'react' | 'timer';
+    targetMessageId?: string;
+    scope?: 'me' | 'everyone';
+  };
   forwardedFrom?: {
     originalSenderId: Types.ObjectId;
     originalMessageId: string;
@@ -47,15 +55,15 @@ export interface IMessageEnvelope extends Document {
   }>;
   deletedAt?: Date;
   deletedBy?: Types.ObjectId;
+  deletedFor?: Types.ObjectId[]; // Users who deleted the message for themselves; not selected by default
   expiresAt?: Date; // For disappearing messages
+  expiresIn?: number; // Disappearing messages: seconds after the message is read
   priority: 'low' | 'normal' | 'high' | 'urgent';
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface IMessageEnvelopeMethods {
-  markAsDelivered(deviceId: Types.ObjectId): Promise<void>;
-  markAsRead(deviceId: Types.ObjectId): Promise<void>;
   softDelete(deletedBy: Types.ObjectId): Promise<void>;
   addEdit(previousContent: string): Promise<void>;
   isExpired(): boolean;
@@ -64,6 +72,17 @@ export interface IMessageEnvelopeMethods {
 
 type MessageEnvelopeModel = Model<IMessageEnvelope, {}, IMessageEnvelopeMethods>;
 
+function isSenderKeyMessage(envelope: IMessageEnvelope): boolean {
+  return !!envelope.senderKeyHeader?.signature;
+}
+
+// Ratchet headers are only present on pairwise envelopes
+function pairwiseOnly(this: any): boolean {
+  // Subdocument validators run with the subdocument as `this`
+  const envelope = typeof this.ownerDocument === 'function' ? this.ownerDocument() : this;
+  return !isSenderKeyMessage(envelope);
+}
+
 const messageEnvelopeSchema = new Schema<IMessageEnvelope, MessageEnvelopeModel, IMessageEnvelopeMethods>({
   messageId: {
     type: String,
@@ -71,6 +90,10 @@ const messageEnvelopeSchema = new Schema<IMessageEnvelope, MessageEnvelopeModel,
     unique: true,
     index: true,
   },
+  bundleMessageId: {
+    type: String,
+    index: true,
+  },
   senderId: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -80,7 +103,7 @@ const messageEnvelopeSchema = new Schema<IMessageEnvelope, MessageEnvelopeModel,
   recipientId: {
     type: Schema.Types.ObjectId,
     ref: 'User',
-    required: true,
+    required: function(this: IMessageEnvelope) { return !isSenderKeyMessage(this); },
     index: true,
   },
   senderDeviceId: {
@@ -121,38 +144,40 @@ const messageEnvelopeSchema = new Schema<IMessageEnvelope, MessageEnvelopeModel,
     thumbnail: String,
   },
   doubleRatchetHeader: {
-    dhPublicKey: { type: String, required: true },
-    previousChainLength: { type: Number, required: true },
-    messageNumber: { type: Number, required: true },
+    dhPublicKey: { type: String, required: pairwiseOnly },
+    previousChainLength: { type: Number, required: pairwiseOnly },
+    messageNumber: { type: Number, required: pairwiseOnly },
+  },
+  senderKeyHeader: {
+    keyId: Number,
+    iteration: Number,
+    signature: String,
   },
   preKeyId: Number,
   oneTimePreKeyId: Number,
+  senderIdentityKey: String,
+  senderEphemeralKey: String,
   status: {
     type: String,
     enum: ['pending', 'sent', 'delivered', 'read', 'failed'],
     default: 'pending',
     index: true,
   },
-  deliveryReceipts: [{
-    deviceId: {
-      type: Schema.Types.ObjectId,
-      ref: 'Device',
-      required: true,
-    },
-    status: {
-      type: String,
-      enum: ['delivered', 'read'],
-      required: true,
-    },
-    timestamp: {
-      type: Date,
-      default: Date.now,
-    },
-  }],
   replyToMessageId: {
     type: String,
     index: true,
   },
+  control: {
+    action: {
+      type: String,
+      enum: ['edit', 'delete', 'react', 'timer'],
+    },
+    targetMessageId: String,
+    scope: {
+      type: String,
+      enum: ['me', 'everyone'],
+    },
+  },
   forwardedFrom: {
     originalSenderId: {
       type: Schema.Types.ObjectId,
@@ -179,10 +204,17 @@ const messageEnvelopeSchema = new Schema<IMessageEnvelope, MessageEnvelopeModel,
     type: Schema.Types.ObjectId,
     ref: 'User',
   },
+  // Private to each user; never sent to clients
+  deletedFor: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+    default: undefined,
+    select: false,
+  },
   expiresAt: {
     type: Date,
     index: { expireAfterSeconds: 0 }, // TTL index for disappearing messages
   },
+  expiresIn: Number,
   priority: {
     type: String,
     enum: ['low', 'normal', 'high', 'urgent'],
@@ -193,61 +225,15 @@ const messageEnvelopeSchema = new Schema<IMessageEnvelope, MessageEnvelopeModel,
 });
 
 // Indexes
-messageEnvelopeSchema.index({ conversationId: 1, createdAt: -1 });
+messageEnvelopeSchema.index({ conversationId: 1, createdAt: -1, _id: -1 });
 messageEnvelopeSchema.index({ senderId: 1, createdAt: -1 });
 messageEnvelopeSchema.index({ recipientId: 1, createdAt: -1 });
 messageEnvelopeSchema.index({ messageId: 1 });
 messageEnvelopeSchema.index({ status: 1 });
 messageEnvelopeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 messageEnvelopeSchema.index({ deletedAt: 1 });
-messageEnvelopeSchema.index({ 'deliveryReceipts.deviceId': 1 });
 
 // Methods
-messageEnvelopeSchema.methods.markAsDelivered = async function(deviceId: Types.ObjectId): Promise<void> {
-  const existingReceipt = this.deliveryReceipts.find(
-    receipt => receipt.deviceId.equals(deviceId)
-  );
-  
-  if (!existingReceipt) {
-    this.deliveryReceipts.push({
-      deviceId,
-      status: 'delivered',
-      timestamp: new Date(),
-    });
-    
-    if (this.status === 'sent') {
-      this.status = 'delivered';
-    }
-    
-    await this.save();
-  }
-};
-
-messageEnvelopeSchema.methods.markAsRead = async function(deviceId: Types.ObjectId): Promise<void> {
-  const existingReceipt = this.deliveryReceipts.find(
-    receipt => receipt.deviceId.equals(deviceId)
-  );
-  
-  if (existingReceipt) {
-    existingReceipt.status = 'read';
-    existingReceipt.timestamp = new Date();
-  } else {
-    this.deliveryReceipts.push({
-      deviceId,
-      status: 'read',
-      timestamp: new Date(),
-    });
-  }
-  
-  // Check if all recipient devices have read the message
-  const allRead = this.deliveryReceipts.every(receipt => receipt.status === 'read');
-  if (allRead) {
-    this.status = 'read';
-  }
-  
-  await this.save();
-};
-
 messageEnvelopeSchema.methods.softDelete = async function(deletedBy: Types.ObjectId): Promise<void> {
   this.deletedAt = new Date();
   this.deletedBy = deletedBy;
@@ -273,45 +259,37 @@ messageEnvelopeSchema.methods.canBeDecrypted = function(deviceId: Types.ObjectId
 
 // Static methods
 messageEnvelopeSchema.statics.getConversationMessages = async function(
-  conversationId: string, 
-  page: number = 1, 
-  limit: number = 50
+  conversationId: string,
+  options: {
+    before?: { createdAt: Date; id: Types.ObjectId }; // Cursor: last message of the previous page
+    limit?: number;
+    filter?: Record<string, any>; // Extra conditions, e.g. from req.permissionFilter
+  } = {}
 ) {
-  const skip = (page - 1) * limit;
-  return this.find({
+  const { before, limit = 50, filter = {} } = options;
+
+  const query: any = {
+    ...filter,
     conversationId,
     deletedAt: { $exists: false }
-  })
-  .sort({ createdAt: -1 })
-  .skip(skip)
+  };
+
+  if (before) {
+    // Messages strictly older than the cursor; _id breaks ties on equal timestamps
+    query.$and = [{
+      $or: [
+        { createdAt: { $lt: before.createdAt } },
+        { createdAt: before.createdAt, _id: { $lt: before.id } }
+      ]
+    }];
+  }
+
+  return this.find(query)
+  .sort({ createdAt: -1, _id: -1 })
   .limit(limit)
   .populate('senderId', 'username displayName avatar')
   .populate('recipientId', 'username displayName avatar');
 };
 
-messageEnvelopeSchema.statics.markConversationAsRead = async function(
-  conversationId: string,
-  userId: Types.ObjectId,
-  deviceId: Types.ObjectId
-) {
-  return this.updateMany(
-    {
-      conversationId,
-      recipientId: userId,
-      status: { $in: ['sent', 'delivered'] }
-    },
-    {
-      $addToSet: {
-        deliveryReceipts: {
-          deviceId,
-          status: 'read',
-          timestamp: new Date()
-        }
-      },
-      status: 'read'
-    }
-  );
-};
-
 export const MessageEnvelope = model<IMessageEnvelope, MessageEnvelopeModel>('MessageEnvelope', messageEnvelopeSchema);
 export default MessageEnvelope;
@@ -0,0 +1,211 @@
+import { Schema, model, Document, Types, Model } from 'mongoose';
+import { ReceiptStatus, MessageReceiptSummary, RecipientReceipt } from '@private-messaging/shared';
+
+const STATUS_RANK: Record<ReceiptStatus, number> = { sent: 0, delivered: 1, read: 2 };
+
+const lowestStatus = (statuses: ReceiptStatus[]): ReceiptStatus =>
+  statuses.reduce<ReceiptStatus>((lowest, status) => STATUS_RANK[status] < STATUS_RANK[lowest] ? status : lowest, 'read');
+
+const latest = (dates: Array<Date | undefined>): Date | undefined =>
+  dates.every(Boolean) ? new Date(Math.max(...dates.map(date => date!.getTime()))) : undefined;
+
+// Receipts of one message: every recipient device it was sent to and how far
+// each got. The sender's own devices are never expected.
+export interface IMessageReceipt extends Document {
+  _id: Types.ObjectId;
+  messageId: string; // The id the sender's client knows; bundle copies share it
+  conversationId: string;
+  senderId: Types.ObjectId;
+  devices: Array<{
+    userId: Types.ObjectId;
+    deviceId: Types.ObjectId;
+    envelopeMessageId: string; // MessageEnvelope.messageId of the copy the device reads
+    status: ReceiptStatus;
+    deliveredAt?: Date;
+    readAt?: Date;
+  }>;
+  expiresAt?: Date; // Follows the message for disappearing messages
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IMessageReceiptMethods {
+  recipientStatus(userId: Types.ObjectId | string): ReceiptStatus;
+  messageStatus(): ReceiptStatus;
+  summarize(): MessageReceiptSummary;
+}
+
+export interface MessageReceiptModel extends Model<IMessageReceipt, {}, IMessageReceiptMethods> {
+  track(
+    message: { messageId: string; conversationId: string; senderId: Types.ObjectId; expiresAt?: Date },
+    devices: Array<{ userId: Types.ObjectId; deviceId: Types.ObjectId; envelopeMessageId: string }>
+  ): Promise<void>;
+  recordDevice(
+    envelopeMessageId: string,
+    deviceId: Types.ObjectId | string,
+    status: 'delivered' | 'read',
+    at?: Date
+  ): Promise<(IMessageReceipt & IMessageReceiptMethods) | null>;
+}
+
+const messageReceiptSchema = new Schema<IMessageReceipt, MessageReceiptModel, IMessageReceiptMethods>({
+  messageId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  conversationId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  senderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  },
+  devices: [{
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    deviceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Device',
+      required: true,
+    },
+    envelopeMessageId: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['sent', 'delivered', 'read'],
+      default: 'sent',
+    },
+    deliveredAt: Date,
+    readAt: Date,
+  }],
+  expiresAt: Date,
+}, {
+  timestamps: true,
+});
+
+// Indexes
+messageReceiptSchema.index({ 'devices.envelopeMessageId': 1, 'devices.deviceId': 1 });
+messageReceiptSchema.index({ conversationId: 1, 'devices.deviceId': 1 });
+messageReceiptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Methods
+
+// A recipient has what every one of their expected devices has
+messageReceiptSchema.methods.recipientStatus = function(userId: Types.ObjectId | string): ReceiptStatus {
+  return lowestStatus(this.devices
+    .filter(device => device.userId.equals(userId))
+    .map(device => device.status));
+};
+
+// In a group, read only once every member has read it
+messageReceiptSchema.methods.messageStatus = function(): ReceiptStatus {
+  return this.devices.length > 0 ? lowestStatus(this.devices.map(device => device.status)) : 'sent';
+};
+
+messageReceiptSchema.methods.summarize = function(): MessageReceiptSummary {
+  const recipients = new Map<string, RecipientReceipt>();
+
+  for (const device of this.devices) {
+    const userId = device.userId.toString();
+    if (!recipients.has(userId)) {
+      recipients.set(userId, { userId, status: this.recipientStatus(userId), devices: [] });
+    }
+
+    recipients.get(userId)!.devices.push({
+      deviceId: device.deviceId.toString(),
+      status: device.status,
+      ...(device.deliveredAt && { deliveredAt: device.deliveredAt }),
+      ...(device.readAt && { readAt: device.readAt }),
+    });
+  }
+
+  // Recipient times are when their last device got there
+  for (const recipient of recipients.values()) {
+    const deliveredAt = latest(recipient.devices.map(device => device.deliveredAt));
+    const readAt = latest(recipient.devices.map(device => device.readAt));
+    Object.assign(recipient, deliveredAt && { deliveredAt }, readAt && { readAt });
+  }
+
+  return {
+    messageId: this.messageId,
+    conversationId: this.conversationId,
+    status: this.messageStatus(),
+    recipients: [...recipients.values()],
+  };
+};
+
+// Static methods
+
+// Expect the given devices; idempotent, so retried sends keep recorded receipts
+messageReceiptSchema.statics.track = async function(
+  message: { messageId: string; conversationId: string; senderId: Types.ObjectId; expiresAt?: Date },
+  devices: Array<{ userId: Types.ObjectId; deviceId: Types.ObjectId; envelopeMessageId: string }>
+): Promise<void> {
+  const receipt = await this.findOneAndUpdate(
+    { messageId: message.messageId },
+    {
+      $setOnInsert: {
+        messageId: message.messageId,
+        conversationId: message.conversationId,
+        senderId: message.senderId,
+        ...(message.expiresAt && { expiresAt: message.expiresAt }),
+      },
+    },
+    { upsert: true, new: true }
+  );
+
+  const missing = devices.filter(({ deviceId }) =>
+    !receipt.devices.some(device => device.deviceId.equals(deviceId))
+  );
+  if (missing.length === 0) {
+    return;
+  }
+
+  await this.updateOne(
+    { _id: receipt._id },
+    { $push: { devices: { $each: missing.map(device => ({ ...device, status: 'sent' })) } } }
+  );
+};
+
+/**
+ * Move one device's receipt forward. Receipts never go back, so a late
+ * delivery receipt after a read one changes nothing. Returns the receipt as
+ * it was before the change, or null when nothing changed.
+ */
+messageReceiptSchema.statics.recordDevice = function(
+  envelopeMessageId: string,
+  deviceId: Types.ObjectId | string,
+  status: 'delivered' | 'read',
+  at: Date = new Date()
+) {
+  const update = status === 'read'
+    ? { $set: { 'devices.$.status': 'read', 'devices.$.readAt': at }, $min: { 'devices.$.deliveredAt': at } }
+    : { $set: { 'devices.$.status': 'delivered', 'devices.$.deliveredAt': at } };
+
+  return this.findOneAndUpdate(
+    {
+      devices: {
+        $elemMatch: {
+          envelopeMessageId,
+          deviceId,
+          status: { $in: status === 'read' ? ['sent', 'delivered'] : ['sent'] },
+        },
+      },
+    },
+    update,
+    { new: false }
+  );
+};
+
+export const MessageReceipt = model<IMessageReceipt, MessageReceiptModel>('MessageReceipt', messageReceiptSchema);
+export default MessageReceipt;
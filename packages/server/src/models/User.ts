@@ -253,7 +253,7 @@ userSchema.methods.removeDevice = async function(deviceId: Types.ObjectId): Prom
 };
 
 userSchema.methods.blockUser = async function(userId: Types.ObjectId): Promise<void> {
-  if (!this.blockedUsers.includes(userId)) {
+  if (!this.blockedUsers.some(id => id.equals(userId))) {
     this.blockedUsers.push(userId);
     await this.save();
   }
@@ -5,3 +5,8 @@ export { MessageEnvelope, IMessageEnvelope, IMessageEnvelopeMethods } from './Me
 export { KeyBundle, IKeyBundle, IKeyBundleMethods } from './KeyBundle';
 export { Call, ICall, ICallMethods } from './Call';
 export { AuditLog, IAuditLog, IAuditLogMethods } from './AuditLog';
+export { Attachment, IAttachment, IAttachmentMethods } from './Attachment';
+export { Conversation, IConversation, IConversationMethods } from './Conversation';
+export { DeviceInbox, IDeviceInbox } from './DeviceInbox';
+export { MessageReceipt, IMessageReceipt, IMessageReceiptMethods } from './MessageReceipt';
+export { CallQualitySample, ICallQualitySample } from './CallQualitySample';
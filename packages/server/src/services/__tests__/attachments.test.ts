@@ -0,0 +1,58 @@
+import { CHUNK_OVERHEAD_BYTES, maxStoredBytes, parseRange, withinQuota } from '../attachments';
+
+describe('Attachment limits', () => {
+  describe('parseRange', () => {
+    it('should parse a closed range', () => {
+      expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+    });
+
+    it('should read an open range to the end of the file', () => {
+      expect(parseRange('bytes=900-', 1000)).toEqual({ start: 900, end: 999 });
+    });
+
+    it('should read a suffix range as the last bytes', () => {
+      expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+    });
+
+    it('should clamp a suffix range longer than the file', () => {
+      expect(parseRange('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+    });
+
+    it('should clamp a range end past the file', () => {
+      expect(parseRange('bytes=500-5000', 1000)).toEqual({ start: 500, end: 999 });
+    });
+
+    it('should reject a start past the file', () => {
+      expect(parseRange('bytes=1000-1100', 1000)).toBeNull();
+      expect(parseRange('bytes=1000-', 1000)).toBeNull();
+    });
+
+    it('should reject a range that ends before it starts', () => {
+      expect(parseRange('bytes=200-100', 1000)).toBeNull();
+    });
+
+    it('should reject empty suffix ranges and malformed headers', () => {
+      expect(parseRange('bytes=-0', 1000)).toBeNull();
+      expect(parseRange('bytes=-', 1000)).toBeNull();
+      expect(parseRange('bytes=0-10,20-30', 1000)).toBeNull();
+      expect(parseRange('items=0-10', 1000)).toBeNull();
+    });
+  });
+
+  describe('maxStoredBytes', () => {
+    it('should allow one authentication tag per chunk on top of the declared size', () => {
+      expect(maxStoredBytes(1000, 1)).toBe(1000 + CHUNK_OVERHEAD_BYTES);
+      expect(maxStoredBytes(1000, 4)).toBe(1000 + 4 * CHUNK_OVERHEAD_BYTES);
+    });
+  });
+
+  describe('withinQuota', () => {
+    it('should allow an upload that fills the quota exactly', () => {
+      expect(withinQuota(400, 100, 500)).toBe(true);
+    });
+
+    it('should reject an upload that goes over the quota', () => {
+      expect(withinQuota(400, 101, 500)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { CallQualitySample } from '../../models';
+import { gradeConnection } from '../callQuality';
+
+describe('Call quality', () => {
+  describe('gradeConnection', () => {
+    it('should grade a clean connection excellent', () => {
+      expect(gradeConnection({ packetLoss: 0, latency: 40, jitter: 5 })).toBe('excellent');
+    });
+
+    it('should treat each bound as the start of the next grade', () => {
+      expect(gradeConnection({ packetLoss: 0.99, latency: 149, jitter: 19 })).toBe('excellent');
+      expect(gradeConnection({ packetLoss: 1, latency: 40, jitter: 5 })).toBe('good');
+      expect(gradeConnection({ packetLoss: 0, latency: 250, jitter: 5 })).toBe('fair');
+      expect(gradeConnection({ packetLoss: 0, latency: 40, jitter: 80 })).toBe('poor');
+    });
+
+    it('should give the worst grade any metric earns', () => {
+      expect(gradeConnection({ packetLoss: 0, latency: 40, jitter: 60 })).toBe('fair');
+      expect(gradeConnection({ packetLoss: 12, latency: 40, jitter: 5 })).toBe('poor');
+    });
+  });
+
+  describe('CallQualitySample.summarize', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const group = {
+      _id: 'user-1',
+      samples: 4,
+      bitrateMean: 900, bitratePercentiles: [1000, 1200],
+      packetLossMean: 1.5, packetLossPercentiles: [1, 4],
+      latencyMean: 120, latencyPercentiles: [110, 180],
+      jitterMean: 12, jitterPercentiles: [10, 25],
+    };
+
+    it('should ask for means and approximate medians and 95th percentiles', async () => {
+      const aggregate = jest.spyOn(CallQualitySample, 'aggregate').mockResolvedValue([] as any);
+
+      await CallQualitySample.summarize({ callId: 'call-1' }, '$userId');
+
+      const [pipeline] = aggregate.mock.calls[0] as any;
+      expect(pipeline[0]).toEqual({ $match: { callId: 'call-1' } });
+      expect(pipeline[1].$group._id).toBe('$userId');
+      expect(pipeline[1].$group.samples).toEqual({ $sum: 1 });
+      expect(pipeline[1].$group.latencyMean).toEqual({ $avg: '$latency' });
+      expect(pipeline[1].$group.latencyPercentiles).toEqual({
+        $percentile: { input: '$latency', p: [0.5, 0.95], method: 'approximate' },
+      });
+    });
+
+    it('should summarize every metric as mean, p50 and p95', async () => {
+      jest.spyOn(CallQualitySample, 'aggregate').mockResolvedValue([group] as any);
+
+      const [summary] = await CallQualitySample.summarize({ callId: 'call-1' }, '$userId');
+
+      expect(summary).toEqual({
+        _id: 'user-1',
+        samples: 4,
+        bitrate: { mean: 900, p50: 1000, p95: 1200 },
+        packetLoss: { mean: 1.5, p50: 1, p95: 4 },
+        latency: { mean: 120, p50: 110, p95: 180 },
+        jitter: { mean: 12, p50: 10, p95: 25 },
+      });
+    });
+
+    it('should group everything together without a groupBy', async () => {
+      const aggregate = jest.spyOn(CallQualitySample, 'aggregate').mockResolvedValue([] as any);
+
+      expect(await CallQualitySample.summarize({ callId: 'call-1' })).toEqual([]);
+      expect((aggregate.mock.calls[0] as any)[0][1].$group._id).toBeNull();
+    });
+  });
+});
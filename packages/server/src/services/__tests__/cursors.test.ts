@@ -0,0 +1,32 @@
+import { Types } from 'mongoose';
+import { decodeCursor, encodeCursor } from '../cursors';
+
+const encode = (raw: string) => Buffer.from(raw).toString('base64url');
+
+describe('History cursors', () => {
+  it('should decode the position a cursor was encoded from', () => {
+    const message = { createdAt: new Date('2024-03-01T12:00:00.123Z'), _id: new Types.ObjectId() };
+
+    const decoded = decodeCursor(encodeCursor(message));
+
+    expect(decoded?.createdAt.getTime()).toBe(message.createdAt.getTime());
+    expect(decoded?.id.equals(message._id)).toBe(true);
+  });
+
+  it('should reject a cursor without an id', () => {
+    expect(decodeCursor(encode(`${Date.now()}`))).toBeNull();
+  });
+
+  it('should reject a cursor with an invalid id', () => {
+    expect(decodeCursor(encode(`${Date.now()}:not-an-object-id`))).toBeNull();
+  });
+
+  it('should reject a cursor with an invalid timestamp', () => {
+    expect(decodeCursor(encode(`yesterday:${new Types.ObjectId()}`))).toBeNull();
+  });
+
+  it('should reject input that is not a cursor', () => {
+    expect(decodeCursor('')).toBeNull();
+    expect(decodeCursor('%%%')).toBeNull();
+  });
+});
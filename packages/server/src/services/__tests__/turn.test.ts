@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { CONFIG } from '@private-messaging/shared';
+import { buildIceServers, isTurnConfigured, mintTurnCredentials, turnCredentialTtlSeconds } from '../turn';
+
+describe('TURN credentials', () => {
+  const env = process.env;
+  const now = new Date(1700000000 * 1000);
+
+  beforeEach(() => {
+    process.env = {
+      ...env,
+      TURN_SHARED_SECRET: 'turn-secret',
+      TURN_SERVER_URL: 'turn:turn.example.com:3478, turns:turn.example.com:5349',
+      TURN_CREDENTIAL_TTL_SECONDS: '3600',
+    };
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  describe('mintTurnCredentials', () => {
+    it('should name the expiry, user and call in the username', () => {
+      const credentials = mintTurnCredentials('user-1', 'call-1', now);
+
+      expect(credentials.expiresAt).toEqual(new Date(now.getTime() + 3600 * 1000));
+      expect(credentials.username).toBe('1700003600:user-1.call-1');
+    });
+
+    it('should sign the username with HMAC-SHA1 under the shared secret', () => {
+      const credentials = mintTurnCredentials('user-1', 'call-1', now);
+
+      expect(credentials.credential).toBe('fzW5M0L1URoy6VmaPMSWgOCeFvs=');
+      expect(credentials.credential).toBe(
+        crypto.createHmac('sha1', 'turn-secret').update(credentials.username).digest('base64')
+      );
+    });
+
+    it('should fall back to the default lifetime when the configured one is invalid', () => {
+      process.env.TURN_CREDENTIAL_TTL_SECONDS = 'soon';
+
+      const credentials = mintTurnCredentials('user-1', 'call-1', now);
+
+      expect(turnCredentialTtlSeconds()).toBe(CONFIG.TURN_CREDENTIAL_TTL_SECONDS);
+      expect(credentials.expiresAt.getTime() - now.getTime()).toBe(CONFIG.TURN_CREDENTIAL_TTL_SECONDS * 1000);
+    });
+
+    it('should throw without a shared secret', () => {
+      delete process.env.TURN_SHARED_SECRET;
+
+      expect(() => mintTurnCredentials('user-1', 'call-1', now)).toThrow('TURN_SHARED_SECRET is not set');
+    });
+  });
+
+  describe('isTurnConfigured', () => {
+    it('should need both a secret and a server', () => {
+      expect(isTurnConfigured()).toBe(true);
+
+      process.env.TURN_SERVER_URL = ' , ';
+      expect(isTurnConfigured()).toBe(false);
+
+      process.env.TURN_SERVER_URL = 'turn:turn.example.com:3478';
+      delete process.env.TURN_SHARED_SECRET;
+      expect(isTurnConfigured()).toBe(false);
+    });
+  });
+
+  describe('buildIceServers', () => {
+    it('should list the STUN servers and every TURN server with the credentials', () => {
+      const credentials = mintTurnCredentials('user-1', 'call-1', now);
+
+      expect(buildIceServers(credentials)).toEqual([
+        { urls: [...CONFIG.STUN_SERVERS] },
+        {
+          urls: ['turn:turn.example.com:3478', 'turns:turn.example.com:5349'],
+          username: credentials.username,
+          credential: credentials.credential,
+        },
+      ]);
+    });
+  });
+});
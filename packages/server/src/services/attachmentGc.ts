@@ -0,0 +1,76 @@
+import { Attachment, MessageEnvelope, AuditLog } from '../models';
+import { getAttachmentStorage } from './storage';
+import { copiesOf } from './expiry';
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const ABANDONED_UPLOAD_MS = 24 * 60 * 60 * 1000; // Incomplete uploads idle for a day
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000; // Completed files never attached to a message
+
+// Remove an attachment's ciphertext and mark the record deleted
+async function purge(attachment: any): Promise<void> {
+  await getAttachmentStorage().deleteFile(attachment.fileId);
+  await attachment.markDeleted();
+}
+
+// Delete attachments whose upload was abandoned, whose message expired or was
+// deleted (every copy, for bundles), or whose message never arrived. Returns
+// the number removed.
+export async function collectAttachmentGarbage(now: Date = new Date()): Promise<number> {
+  let removed = 0;
+
+  const abandoned = await Attachment.find({
+    status: 'uploading',
+    updatedAt: { $lt: new Date(now.getTime() - ABANDONED_UPLOAD_MS) },
+  });
+  for (const attachment of abandoned) {
+    await purge(attachment);
+    removed++;
+  }
+
+  // Completed attachments are checked against their message envelopes
+  const cursor = Attachment.find({ status: 'complete' }).cursor();
+  for await (const attachment of cursor) {
+    const copies = await MessageEnvelope.find(copiesOf(attachment.messageId))
+      .select('deletedAt expiresAt');
+
+    const expired = attachment.expiresAt && attachment.expiresAt < now;
+    const orphaned = copies.length === 0 &&
+      attachment.completedAt &&
+      attachment.completedAt.getTime() < now.getTime() - ORPHAN_GRACE_MS;
+    const gone = copies.length > 0 &&
+      copies.every(copy => copy.deletedAt || (copy.expiresAt && copy.expiresAt < now));
+
+    if (expired || orphaned || gone) {
+      await purge(attachment);
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    await AuditLog.logEvent({
+      action: 'attachment.garbage_collected',
+      category: 'system',
+      severity: 'info',
+      status: 'success',
+      description: `Removed ${removed} unreferenced attachments`,
+      metadata: { removed },
+      context: {
+        ipAddress: '127.0.0.1',
+      },
+    });
+  }
+
+  return removed;
+}
+
+// Run the collector periodically; returns a function that stops it
+export function startAttachmentGc(intervalMs: number = DEFAULT_INTERVAL_MS): () => void {
+  const timer = setInterval(() => {
+    collectAttachmentGarbage().catch(error => {
+      console.error('Attachment garbage collection failed:', error);
+    });
+  }, intervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,30 @@
+export const CHUNK_OVERHEAD_BYTES = 16; // Poly1305 tag added to each encrypted chunk
+
+// Most ciphertext an upload may store: the declared size plus one tag per chunk
+export const maxStoredBytes = (size: number, totalChunks: number): number =>
+  size + totalChunks * CHUNK_OVERHEAD_BYTES;
+
+// Uploads in progress count with their declared size
+export const withinQuota = (usage: number, size: number, quota: number): boolean =>
+  usage + size <= quota;
+
+// Parse a single "bytes=start-end" range; null means unsatisfiable
+export function parseRange(header: string, total: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(total - Number(match[2]), 0);
+    end = total - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? total - 1 : Math.min(Number(match[2]), total - 1);
+  }
+
+  return start <= end && start < total ? { start, end } : null;
+}
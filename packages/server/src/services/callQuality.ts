@@ -0,0 +1,90 @@
+import { Types } from 'mongoose';
+import {
+  CONFIG,
+  CallQualityMetrics,
+  CallQualitySummary,
+  ConnectionQuality,
+  QualitySummary
+} from '@private-messaging/shared';
+import { Call, CallQualitySample, ICall } from '../models';
+
+// Upper bounds per grade; a sample gets the worst grade any metric earns
+const QUALITY_GRADES: Array<{ grade: ConnectionQuality; packetLoss: number; latency: number; jitter: number }> = [
+  { grade: 'excellent', packetLoss: 1, latency: 150, jitter: 20 },
+  { grade: 'good', packetLoss: 3, latency: 250, jitter: 40 },
+  { grade: 'fair', packetLoss: 8, latency: 400, jitter: 80 },
+];
+
+export function gradeConnection(stats: Pick<CallQualityMetrics, 'packetLoss' | 'latency' | 'jitter'>): ConnectionQuality {
+  const grade = QUALITY_GRADES.find(bounds =>
+    stats.packetLoss < bounds.packetLoss && stats.latency < bounds.latency && stats.jitter < bounds.jitter
+  );
+  return grade?.grade ?? 'poor';
+}
+
+/**
+ * Take a stats sample from the device a participant is in the call on. The
+ * participant's connectionQuality is graded on the mean of their latest
+ * CALL_QUALITY_WINDOW_SAMPLES samples, so one bad report does not flip it.
+ * Returns the grade, or null when the sample was dropped because the
+ * participant is not in the call on that device or reported too recently.
+ */
+export async function recordCallStats(
+  call: ICall,
+  userId: Types.ObjectId | string,
+  deviceId: Types.ObjectId | string,
+  stats: CallQualityMetrics,
+  now: Date = new Date()
+): Promise<ConnectionQuality | null> {
+  const previous = await CallQualitySample.find({ callId: call.callId, userId })
+    .sort({ sampledAt: -1 })
+    .limit(CONFIG.CALL_QUALITY_WINDOW_SAMPLES - 1)
+    .select('packetLoss latency jitter')
+    .lean();
+
+  const window = [...previous, stats];
+  const mean = (metric: 'packetLoss' | 'latency' | 'jitter') =>
+    window.reduce((sum, sample) => sum + sample[metric], 0) / window.length;
+  const connectionQuality = gradeConnection({
+    packetLoss: mean('packetLoss'),
+    latency: mean('latency'),
+    jitter: mean('jitter'),
+  });
+
+  const recorded = await Call.recordQuality(call.callId, userId, deviceId, stats, connectionQuality, now);
+  if (!recorded) {
+    return null;
+  }
+
+  await CallQualitySample.create({
+    callId: call.callId,
+    userId,
+    deviceId,
+    ...stats,
+    sampledAt: now,
+    expiresAt: new Date(now.getTime() + CONFIG.CALL_QUALITY_SAMPLE_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+  });
+
+  return connectionQuality;
+}
+
+const withoutId = ({ _id, ...summary }: QualitySummary & { _id: any }): QualitySummary => summary;
+
+// Means and percentiles for a call, overall and per participant
+export async function summarizeCallQuality(call: ICall): Promise<CallQualitySummary> {
+  const [[overall], perUser] = await Promise.all([
+    CallQualitySample.summarize({ callId: call.callId }),
+    CallQualitySample.summarize({ callId: call.callId }, '$userId'),
+  ]);
+
+  return {
+    callId: call.callId,
+    overall: overall ? withoutId(overall) : null,
+    participants: perUser.map(summary => ({
+      ...withoutId(summary),
+      userId: summary._id.toString(),
+      connectionQuality: call.participants.find(participant => participant.userId.equals(summary._id))?.connectionQuality
+        ?? 'unknown',
+    })),
+  };
+}
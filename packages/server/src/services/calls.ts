@@ -0,0 +1,170 @@
+import { Types } from 'mongoose';
+import { CONFIG } from '@private-messaging/shared';
+import { Call, ICall, ICallMethods } from '../models';
+
+const DEFAULT_SWEEP_INTERVAL_MS = 5 * 1000;
+
+type CallDocument = ICall & ICallMethods;
+
+// Told about callees whose devices stopped ringing without an answer
+export type RingTimeoutListener = (call: CallDocument, missedUserIds: string[]) => void | Promise<void>;
+
+const ringTimeoutListeners: RingTimeoutListener[] = [];
+
+export function onRingTimeout(listener: RingTimeoutListener): void {
+  ringTimeoutListeners.push(listener);
+}
+
+// Invited or being rung, and not answered yet
+export const isRinging = (participant: ICall['participants'][number]) =>
+  participant.status === 'invited' || participant.status === 'ringing';
+
+// Participants in the call or being rung for it
+export const callMembers = (call: ICall) =>
+  call.participants.filter(participant => isRinging(participant) || participant.status === 'joined');
+
+// Most participants a call may have, host included; MAX_CALL_PARTICIPANTS
+export function maxCallParticipants(): number {
+  const max = Number(process.env.MAX_CALL_PARTICIPANTS);
+  return Number.isInteger(max) && max >= 2 ? max : CONFIG.MAX_CALL_PARTICIPANTS;
+}
+
+export function hasRoomFor(call: ICall, additional: number): boolean {
+  return callMembers(call).length + additional <= maxCallParticipants();
+}
+
+// Nobody but the initiator ever joined, and nobody is still being rung
+const nobodyAnswered = (call: CallDocument) =>
+  call.participants.every(participant =>
+    participant.userId.equals(call.initiatorId) || ['rejected', 'missed', 'removed'].includes(participant.status)
+  );
+
+/**
+ * A callee declines. A declined one-to-one call is over; a group call goes on
+ * unless every callee declined or missed it.
+ */
+export async function declineCall(call: CallDocument, userId: Types.ObjectId | string): Promise<void> {
+  if (!call.isGroupCall) {
+    call.status = 'rejected';
+    call.endReason = 'declined';
+  }
+  await call.updateParticipantStatus(new Types.ObjectId(userId.toString()), 'rejected');
+
+  if (call.status === 'ringing' && nobodyAnswered(call)) {
+    call.status = 'rejected';
+    call.endReason = 'declined';
+    await call.save();
+  }
+}
+
+/**
+ * A participant hangs up. The initiator, or either side of a one-to-one call,
+ * ends the call for everyone; other group participants just leave. A caller
+ * hanging up before anyone answered leaves the call missed. Returns whether
+ * the call ended for everyone rather than the participant just leaving.
+ */
+export async function hangUpCall(call: CallDocument, userId: Types.ObjectId | string): Promise<boolean> {
+  const endsForEveryone = !call.isGroupCall || call.initiatorId.equals(userId);
+
+  if (endsForEveryone && call.status !== 'accepted') {
+    call.participants.forEach(participant => {
+      if (isRinging(participant)) {
+        participant.status = 'missed';
+      }
+    });
+    call.status = 'missed';
+    call.endReason = 'user_ended';
+    await call.save();
+    return true;
+  }
+
+  if (endsForEveryone) {
+    await call.endCall('user_ended');
+    return true;
+  }
+
+  await call.removeParticipant(new Types.ObjectId(userId.toString()));
+  return false;
+}
+
+/**
+ * The host removes someone from a group call. When nobody but the host is
+ * left in the call or being rung for it, the call is over. Returns whether
+ * the call ended.
+ */
+export async function removeCallParticipant(call: CallDocument, userId: Types.ObjectId | string): Promise<boolean> {
+  const participant = call.participants.find(entry => entry.userId.equals(userId));
+  if (participant) {
+    participant.status = 'removed';
+    participant.leftAt = new Date();
+  }
+
+  if (callMembers(call).length > 1) {
+    await call.save();
+    return false;
+  }
+
+  if (call.status === 'accepted') {
+    await call.endCall('user_ended');
+  } else {
+    call.status = 'missed';
+    call.endReason = 'user_ended';
+    await call.save();
+  }
+  return true;
+}
+
+/**
+ * Mark callees whose devices rang for longer than the ring timeout as having
+ * missed the call. A call nobody answered is missed as a whole.
+ */
+export async function expireRingingCalls(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - CONFIG.CALL_RING_TIMEOUT_MS);
+  const calls = await Call.find({
+    status: { $in: ['ringing', 'accepted'] },
+    participants: { $elemMatch: { status: 'ringing', ringingAt: { $lte: cutoff } } },
+  });
+
+  let expired = 0;
+  for (const call of calls) {
+    const missed = call.participants.filter(participant =>
+      participant.status === 'ringing' && participant.ringingAt && participant.ringingAt <= cutoff
+    );
+    missed.forEach(participant => {
+      participant.status = 'missed';
+    });
+
+    if (call.status === 'ringing' && nobodyAnswered(call)) {
+      call.status = 'missed';
+      call.endReason = 'timeout';
+    }
+
+    try {
+      await call.save();
+    } catch (error: any) {
+      // Another node or an answer got there first
+      if (error.name === 'VersionError') continue;
+      throw error;
+    }
+
+    expired++;
+    const missedUserIds = missed.map(participant => participant.userId.toString());
+    for (const listener of ringTimeoutListeners) {
+      await listener(call, missedUserIds);
+    }
+  }
+
+  return expired;
+}
+
+// Check ringing calls periodically; returns a function that stops it
+export function startRingTimeouts(intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS): () => void {
+  const timer = setInterval(() => {
+    expireRingingCalls().catch(error => {
+      console.error('Call ring timeout sweep failed:', error);
+    });
+  }, intervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,18 @@
+import { Types } from 'mongoose';
+
+// Cursors are opaque to clients: base64url("<createdAt ms>:<_id>") of the
+// oldest message on the previous page
+export function encodeCursor(message: { createdAt: Date; _id: Types.ObjectId | string }): string {
+  return Buffer.from(`${message.createdAt.getTime()}:${message._id}`).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): { createdAt: Date; id: Types.ObjectId } | null {
+  const [timestamp, id] = Buffer.from(cursor, 'base64url').toString('utf8').split(':');
+  const createdAt = new Date(Number(timestamp));
+
+  if (isNaN(createdAt.getTime()) || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  return { createdAt, id: new Types.ObjectId(id) };
+}
@@ -0,0 +1,53 @@
+import { Attachment, IMessageEnvelope, MessageEnvelope } from '../models';
+import { inboxRetentionMs } from './inbox';
+
+// Every stored copy of a message: the envelope itself, or the copies of a bundle
+export const copiesOf = (messageId: string) => ({
+  $or: [{ messageId }, { bundleMessageId: messageId }],
+});
+
+/**
+ * When a new disappearing message leaves the server if nobody reads it. The
+ * sender has seen the message, so copies for their own devices start the
+ * timer right away; other copies wait for a read, but no longer than the
+ * inbox keeps undelivered messages.
+ */
+export function initialExpiry(envelope: IMessageEnvelope, now: Date = new Date()): Date | undefined {
+  if (!envelope.expiresIn) {
+    return envelope.expiresAt;
+  }
+
+  const ownCopy = envelope.recipientId?.equals(envelope.senderId);
+  const expiresAt = new Date(now.getTime() + (ownCopy ? envelope.expiresIn * 1000 : inboxRetentionMs()));
+  return envelope.expiresAt && envelope.expiresAt < expiresAt ? envelope.expiresAt : expiresAt;
+}
+
+/**
+ * Start a disappearing message's timer when a recipient device reads it.
+ * Pairwise copies belong to one device each; a group message has a single
+ * copy for every member, so its timer starts with the first read.
+ */
+export async function startExpiryTimer(envelope: IMessageEnvelope, readAt: Date = new Date()): Promise<void> {
+  if (!envelope.expiresIn) {
+    return;
+  }
+
+  const expiresAt = new Date(readAt.getTime() + envelope.expiresIn * 1000);
+  if (envelope.expiresAt && envelope.expiresAt <= expiresAt) {
+    return;
+  }
+
+  await MessageEnvelope.updateOne({ _id: envelope._id }, { expiresAt });
+  await expireAttachments(envelope.bundleMessageId ?? envelope.messageId);
+}
+
+// Attachments go with the last copy of their message
+async function expireAttachments(messageId: string): Promise<void> {
+  const copies = await MessageEnvelope.find(copiesOf(messageId)).select('expiresAt');
+  if (copies.length === 0 || copies.some(copy => !copy.expiresAt)) {
+    return;
+  }
+
+  const expiresAt = new Date(Math.max(...copies.map(copy => copy.expiresAt!.getTime())));
+  await Attachment.updateMany({ messageId, status: { $ne: 'deleted' } }, { expiresAt });
+}
@@ -0,0 +1,126 @@
+import { Types } from 'mongoose';
+import { StaleDevices } from '@private-messaging/shared';
+import { Conversation, Device, DeviceInbox, IMessageEnvelope } from '../models';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long an undelivered envelope waits for a device; INBOX_RETENTION_DAYS
+export function inboxRetentionMs(): number {
+  const days = Number(process.env.INBOX_RETENTION_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : 30) * DAY_MS;
+}
+
+/**
+ * Devices an envelope is delivered to. A pairwise envelope goes to the device
+ * it was encrypted for, or to every active device of the recipient when it
+ * names none. A group envelope goes to every active device of every member
+ * except the one that sent it.
+ */
+export async function recipientDevices(
+  envelope: IMessageEnvelope
+): Promise<Array<{ deviceId: Types.ObjectId; userId: Types.ObjectId }>> {
+  let query: Record<string, any>;
+
+  if (envelope.recipientId) {
+    query = envelope.recipientDeviceId
+      ? { _id: envelope.recipientDeviceId, userId: envelope.recipientId }
+      : { userId: envelope.recipientId };
+  } else {
+    const conversation = await Conversation.findOne({ conversationId: envelope.conversationId })
+      .select('participantIds');
+    query = {
+      userId: { $in: conversation?.participantIds || [] },
+      _id: { $ne: envelope.senderDeviceId },
+    };
+  }
+
+  const devices = await Device.find({ ...query, status: 'active' }).select('_id userId');
+  return devices.map(device => ({ deviceId: device._id, userId: device.userId }));
+}
+
+/**
+ * Compare the devices a message bundle was encrypted for with the active
+ * devices of each addressed user. The sending device never receives a copy.
+ * Returns one entry per user whose device list differs.
+ */
+export async function findStaleDevices(
+  userIds: string[],
+  sendingDeviceId: string,
+  bundleDevices: Array<{ userId: string; deviceId: string }>
+): Promise<StaleDevices[]> {
+  const devices = await Device.find({
+    userId: { $in: userIds },
+    status: 'active',
+    _id: { $ne: sendingDeviceId },
+  }).select('_id userId');
+
+  const stale: StaleDevices[] = [];
+  for (const userId of userIds) {
+    const active = devices
+      .filter(device => device.userId.equals(userId))
+      .map(device => device._id.toString());
+    const provided = bundleDevices
+      .filter(entry => entry.userId === userId)
+      .map(entry => entry.deviceId);
+
+    const added = active.filter(deviceId => !provided.includes(deviceId));
+    const removed = provided.filter(deviceId => !active.includes(deviceId));
+    if (added.length > 0 || removed.length > 0) {
+      stale.push({ userId, added, removed });
+    }
+  }
+
+  return stale;
+}
+
+// Queue a stored envelope for its recipient devices; returns the devices
+export async function enqueueDelivery(
+  envelope: IMessageEnvelope
+): Promise<Array<{ deviceId: Types.ObjectId; userId: Types.ObjectId }>> {
+  const devices = await recipientDevices(envelope);
+
+  const retainUntil = new Date(Date.now() + inboxRetentionMs());
+  const expiresAt = envelope.expiresAt && envelope.expiresAt < retainUntil ? envelope.expiresAt : retainUntil;
+
+  await DeviceInbox.enqueue(envelope, devices, expiresAt);
+  return devices;
+}
+
+/**
+ * Send every envelope still waiting for a device, oldest first. Delivery is
+ * at least once: entries stay until acknowledged, so devices must drop
+ * envelopes whose messageId they already have.
+ */
+export async function replayInbox(
+  deviceId: string,
+  deliver: (envelope: IMessageEnvelope) => void
+): Promise<number> {
+  const cursor = DeviceInbox.find({ deviceId })
+    .sort({ createdAt: 1 })
+    .populate<{ envelopeId: IMessageEnvelope | null }>('envelopeId')
+    .cursor();
+
+  let delivered = 0;
+  for await (const entry of cursor) {
+    const envelope = entry.envelopeId;
+
+    // Nothing left to deliver once the message expired or was deleted
+    if (!envelope || envelope.deletedAt) {
+      await entry.deleteOne();
+      continue;
+    }
+
+    deliver(envelope);
+    await DeviceInbox.updateOne(
+      { _id: entry._id },
+      { $inc: { attempts: 1 }, $set: { lastAttemptAt: new Date() } }
+    );
+    delivered++;
+  }
+
+  return delivered;
+}
+
+export function acknowledgeDelivery(deviceId: string, messageId: string): Promise<boolean> {
+  return DeviceInbox.acknowledge(deviceId, messageId);
+}
@@ -0,0 +1,250 @@
+import { Types } from 'mongoose';
+import { CONFIG, PresenceState } from '@private-messaging/shared';
+import { Conversation, User } from '../models';
+import { RedisClient, getRedisClient } from './redis';
+
+const DEFAULT_SWEEP_INTERVAL_MS = 30 * 1000;
+
+// Redis keys. Connections are `<deviceId>:<socketId>` members so a device
+// with several tabs stays online until its last socket goes away.
+const connectionsKey = (userId: string) => `presence:connections:${userId}`; // zset member -> expiry
+const statesKey = (userId: string) => `presence:states:${userId}`; // hash member -> online|away
+const publishedKey = (userId: string) => `presence:published:${userId}`; // last known state
+const visibleKey = (userId: string) => `presence:visible:${userId}`; // last state shown to contacts
+const lastSeenKey = (userId: string) => `presence:lastseen:${userId}`;
+const ACTIVE_USERS_KEY = 'presence:users'; // zset userId -> latest connection expiry
+
+// Drop a user from the active set only if no heartbeat extended their expiry
+// since the sweep read it; returns 1 when they were removed
+const REMOVE_IF_EXPIRED_SCRIPT = `
+local score = redis.call('ZSCORE', KEYS[1], ARGV[1])
+if score and tonumber(score) <= tonumber(ARGV[2]) then
+  return redis.call('ZREM', KEYS[1], ARGV[1])
+end
+return 0
+`;
+
+export interface UserPresence {
+  state: PresenceState;
+  lastSeen?: Date;
+}
+
+// Told whenever what contacts see of a user's presence changes
+export type PresenceListener = (userId: string, presence: UserPresence) => void | Promise<void>;
+
+interface PrivacySettings {
+  onlineStatus?: boolean;
+  lastSeen?: boolean;
+}
+
+/**
+ * What others may see of a user's presence. Users hiding their online status
+ * always appear offline; lastSeen is only shared by users who allow it.
+ */
+export function visiblePresence(privacy: PrivacySettings | undefined, presence: UserPresence): UserPresence {
+  const state = privacy?.onlineStatus === false ? 'offline' : presence.state;
+
+  return {
+    state,
+    ...(state === 'offline' && privacy?.lastSeen !== false && presence.lastSeen && { lastSeen: presence.lastSeen }),
+  };
+}
+
+/**
+ * Presence and device registry kept in Redis so every server instance sees
+ * the same picture. Connections are refreshed by heartbeats and expire after
+ * the presence TTL; a sweep reports users whose last connection expired
+ * without a disconnect, e.g. when a node died.
+ */
+export class PresenceService {
+  private listeners: PresenceListener[] = [];
+
+  constructor(private redis: RedisClient, private ttlMs: number = CONFIG.PRESENCE_TTL_MS) {}
+
+  onChange(listener: PresenceListener): void {
+    this.listeners.push(listener);
+  }
+
+  // Register a new socket of a device
+  async connect(userId: string, deviceId: string, socketId: string): Promise<void> {
+    await this.heartbeat(userId, deviceId, socketId, 'online');
+  }
+
+  // Refresh a connection; the state is kept when none is given
+  async heartbeat(userId: string, deviceId: string, socketId: string, state?: 'online' | 'away'): Promise<void> {
+    const member = `${deviceId}:${socketId}`;
+    const expiresAt = Date.now() + this.ttlMs;
+
+    const multi = this.redis.multi()
+      .zAdd(connectionsKey(userId), { score: expiresAt, value: member })
+      .pExpire(connectionsKey(userId), this.ttlMs)
+      .zAdd(ACTIVE_USERS_KEY, { score: expiresAt, value: userId }, { GT: true });
+    if (state) {
+      multi.hSet(statesKey(userId), member, state);
+    } else {
+      multi.hSetNX(statesKey(userId), member, 'online');
+    }
+    await multi.pExpire(statesKey(userId), this.ttlMs).exec();
+
+    await this.publish(userId);
+  }
+
+  async disconnect(userId: string, deviceId: string, socketId: string): Promise<void> {
+    const member = `${deviceId}:${socketId}`;
+
+    await this.redis.multi()
+      .zRem(connectionsKey(userId), member)
+      .hDel(statesKey(userId), member)
+      .exec();
+
+    await this.publish(userId);
+  }
+
+  // Ids of the user's devices with a live connection on any node
+  async getDevices(userId: string): Promise<string[]> {
+    const members = await this.liveConnections(userId);
+    return [...new Set(members.map(member => member.split(':')[0]))];
+  }
+
+  // Current presence of each user, without privacy applied
+  async getPresence(userIds: string[]): Promise<Map<string, UserPresence>> {
+    const presence = new Map<string, UserPresence>();
+    if (userIds.length === 0) {
+      return presence;
+    }
+
+    const lastSeen = await this.redis.mGet(userIds.map(lastSeenKey));
+    for (const [index, userId] of userIds.entries()) {
+      const seen = lastSeen[index];
+      presence.set(userId, {
+        state: await this.currentState(userId),
+        ...(seen && { lastSeen: new Date(Number(seen)) }),
+      });
+    }
+
+    return presence;
+  }
+
+  // Re-evaluate what contacts see, e.g. after privacy settings changed
+  async announce(userId: string): Promise<void> {
+    const [presence] = (await this.getPresence([userId])).values();
+    await this.notify(userId, presence);
+  }
+
+  /**
+   * Report users whose connections all expired. Safe to run on every node:
+   * the published state only changes once.
+   */
+  async sweep(now: number = Date.now()): Promise<number> {
+    const candidates = await this.redis.zRangeByScore(ACTIVE_USERS_KEY, '-inf', now);
+
+    let expired = 0;
+    for (const userId of candidates) {
+      const removed = await this.redis.eval(REMOVE_IF_EXPIRED_SCRIPT, {
+        keys: [ACTIVE_USERS_KEY],
+        arguments: [userId, String(now)],
+      });
+      if (removed === 1) {
+        expired++;
+        await this.publish(userId);
+      }
+    }
+
+    return expired;
+  }
+
+  private async liveConnections(userId: string): Promise<string[]> {
+    await this.redis.zRemRangeByScore(connectionsKey(userId), '-inf', Date.now());
+    return this.redis.zRange(connectionsKey(userId), 0, -1);
+  }
+
+  // Online while any connection is active, away when all of them are idle
+  private async currentState(userId: string): Promise<PresenceState> {
+    const members = await this.liveConnections(userId);
+    if (members.length === 0) {
+      return 'offline';
+    }
+
+    const states = await this.redis.hmGet(statesKey(userId), members);
+    return states.some(state => state !== 'away') ? 'online' : 'away';
+  }
+
+  // Record the user's state, and its last-seen time when they went offline
+  private async publish(userId: string): Promise<void> {
+    const state = await this.currentState(userId);
+    const previous = await this.redis.set(publishedKey(userId), state, { GET: true });
+    if ((previous ?? 'offline') === state) {
+      return;
+    }
+
+    let lastSeen: Date | undefined;
+    if (state === 'offline') {
+      lastSeen = new Date();
+      await this.redis.set(lastSeenKey(userId), String(lastSeen.getTime()));
+      await User.updateOne({ _id: userId }, { lastActive: lastSeen });
+    }
+
+    await this.notify(userId, { state, ...(lastSeen && { lastSeen }) });
+  }
+
+  // Tell listeners when the state contacts may see changed. Users hiding
+  // their status stay offline here, so their activity is never revealed.
+  private async notify(userId: string, presence: UserPresence): Promise<void> {
+    const user = await User.findById(userId).select('settings.privacy');
+    const visible = visiblePresence(user?.settings?.privacy, presence);
+
+    const previous = await this.redis.set(visibleKey(userId), visible.state, { GET: true });
+    if ((previous ?? 'offline') === visible.state) {
+      return;
+    }
+
+    for (const listener of this.listeners) {
+      await listener(userId, visible);
+    }
+  }
+}
+
+/**
+ * Users who may be told about a user's presence: everyone sharing a
+ * conversation with them, minus blocks in either direction
+ */
+export async function getPresenceAudience(userId: string): Promise<string[]> {
+  const user = await User.findById(userId).select('blockedUsers');
+  if (!user) {
+    return [];
+  }
+
+  const contactIds: Types.ObjectId[] = await Conversation.distinct('participantIds', { participantIds: userId });
+  const candidates = contactIds.filter(id =>
+    !id.equals(userId) && !user.blockedUsers.some(blocked => blocked.equals(id))
+  );
+
+  const contacts = await User.find({
+    _id: { $in: candidates },
+    status: 'active',
+    blockedUsers: { $ne: user._id },
+  }).select('_id');
+
+  return contacts.map(contact => contact._id.toString());
+}
+
+let presence: PresenceService | null = null;
+
+export function getPresenceService(): PresenceService {
+  if (!presence) {
+    presence = new PresenceService(getRedisClient());
+  }
+  return presence;
+}
+
+// Periodically report connections that expired; returns a function that stops it
+export function startPresenceSweep(intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS): () => void {
+  const timer = setInterval(() => {
+    getPresenceService().sweep().catch(error => {
+      console.error('Presence sweep failed:', error);
+    });
+  }, intervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,126 @@
+import { Types } from 'mongoose';
+import { MessageStatusUpdate } from '@private-messaging/shared';
+import { IMessageEnvelope, MessageEnvelope, MessageReceipt, User } from '../models';
+import { startExpiryTimer } from './expiry';
+
+// A status change to tell the sender about
+export interface ReceiptUpdate extends MessageStatusUpdate {
+  senderId: string;
+}
+
+/**
+ * Expect receipts from the devices an envelope was queued for. Copies of a
+ * bundle are tracked under the sender's message id, passed as messageId.
+ */
+export async function trackReceipts(
+  envelope: IMessageEnvelope,
+  devices: Array<{ deviceId: Types.ObjectId; userId: Types.ObjectId }>,
+  messageId: string = envelope.messageId
+): Promise<void> {
+  const expected = devices.filter(device => !device.userId.equals(envelope.senderId));
+  if (expected.length === 0) {
+    return;
+  }
+
+  await MessageReceipt.track(
+    {
+      messageId,
+      conversationId: envelope.conversationId,
+      senderId: envelope.senderId,
+      expiresAt: envelope.expiresAt,
+    },
+    expected.map(device => ({ ...device, envelopeMessageId: envelope.messageId }))
+  );
+}
+
+/**
+ * Record a device's receipt for an envelope it received. Users who turned
+ * off read receipts only ever report delivery. Returns the update for the
+ * sender when the recipient's status changed.
+ */
+export async function recordReceipt(
+  envelopeMessageId: string,
+  userId: string,
+  deviceId: string,
+  status: 'delivered' | 'read'
+): Promise<ReceiptUpdate | null> {
+  if (status === 'read') {
+    const user = await User.findById(userId).select('settings.privacy.readReceipts');
+    if (user?.settings?.privacy?.readReceipts === false) {
+      status = 'delivered';
+    }
+  }
+
+  const timestamp = new Date();
+  const receipt = await MessageReceipt.recordDevice(envelopeMessageId, deviceId, status, timestamp);
+  if (!receipt) {
+    return null;
+  }
+
+  // The receipt comes back as it was; apply the change to compare
+  const previous = receipt.recipientStatus(userId);
+  const previousMessageStatus = receipt.messageStatus();
+  const device = receipt.devices.find(entry =>
+    entry.deviceId.equals(deviceId) && entry.envelopeMessageId === envelopeMessageId
+  )!;
+  device.status = status;
+
+  const recipientStatus = receipt.recipientStatus(userId);
+  const messageStatus = receipt.messageStatus();
+
+  if (messageStatus !== previousMessageStatus) {
+    const envelopeMessageIds = [...new Set(receipt.devices.map(entry => entry.envelopeMessageId))];
+    await MessageEnvelope.updateMany({ messageId: { $in: envelopeMessageIds } }, { status: messageStatus });
+  }
+
+  if (recipientStatus === previous || recipientStatus === 'sent') {
+    return null;
+  }
+
+  return {
+    senderId: receipt.senderId.toString(),
+    messageId: receipt.messageId,
+    status: recipientStatus,
+    timestamp,
+    deviceId,
+    recipientId: userId,
+    messageStatus,
+  };
+}
+
+// Read receipts for everything a device has not read yet in a conversation.
+// Disappearing messages start their timers as they are marked read.
+export async function markConversationRead(
+  conversationId: string,
+  userId: string,
+  deviceId: string
+): Promise<{ updated: number; updates: ReceiptUpdate[] }> {
+  const receipts = await MessageReceipt.find({
+    conversationId,
+    devices: { $elemMatch: { deviceId, status: { $ne: 'read' } } },
+  }).select('devices');
+
+  let updated = 0;
+  const updates: ReceiptUpdate[] = [];
+  for (const receipt of receipts) {
+    const pending = receipt.devices.filter(device => device.deviceId.equals(deviceId) && device.status !== 'read');
+    const envelopes = await MessageEnvelope.find({
+      messageId: { $in: pending.map(device => device.envelopeMessageId) },
+    });
+
+    for (const device of pending) {
+      const envelope = envelopes.find(entry => entry.messageId === device.envelopeMessageId);
+      if (envelope) {
+        await startExpiryTimer(envelope);
+      }
+
+      const update = await recordReceipt(device.envelopeMessageId, userId, deviceId, 'read');
+      if (update) {
+        updates.push(update);
+      }
+    }
+    updated++;
+  }
+
+  return { updated, updates };
+}
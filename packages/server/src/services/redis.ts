@@ -0,0 +1,15 @@
+import { createClient } from 'redis';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+let client: RedisClient | null = null;
+
+// Command client shared by the Socket.IO adapter and server-side services.
+// Commands issued before the connection is up are queued by the client.
+export function getRedisClient(): RedisClient {
+  if (!client) {
+    client = createClient({ url: process.env.REDIS_URL });
+    client.connect().catch(console.error);
+  }
+  return client;
+}
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { AttachmentStorage } from './types';
+
+// Only ids and versions we generate (UUID v4, hex) may reach the filesystem
+const FILE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+const VERSION_PATTERN = /^[0-9a-f]{16,64}$/;
+
+// Stores each chunk as <root>/<fileId>/<chunkId>.<version>.bin, or
+// <chunkId>.bin for chunks stored before versions
+export class LocalDiskStorage implements AttachmentStorage {
+  readonly name = 'local';
+
+  constructor(private readonly root: string) {}
+
+  private fileDir(fileId: string): string {
+    if (!FILE_ID_PATTERN.test(fileId)) {
+      throw new Error(`Invalid file id: ${fileId}`);
+    }
+    return path.join(this.root, fileId);
+  }
+
+  private chunkPath(fileId: string, chunkId: number, version?: string): string {
+    if (!Number.isInteger(chunkId) || chunkId < 0) {
+      throw new Error(`Invalid chunk id: ${chunkId}`);
+    }
+    if (version !== undefined && !VERSION_PATTERN.test(version)) {
+      throw new Error(`Invalid chunk version: ${version}`);
+    }
+    return path.join(this.fileDir(fileId), version ? `${chunkId}.${version}.bin` : `${chunkId}.bin`);
+  }
+
+  async putChunk(fileId: string, chunkId: number, version: string, data: Buffer): Promise<void> {
+    const target = this.chunkPath(fileId, chunkId, version);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temp file and rename so readers never see a partial chunk
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(temp, data);
+    await fs.promises.rename(temp, target);
+  }
+
+  async getChunk(fileId: string, chunkId: number, version?: string): Promise<Buffer> {
+    return fs.promises.readFile(this.chunkPath(fileId, chunkId, version));
+  }
+
+  createChunkStream(
+    fileId: string,
+    chunkId: number,
+    version?: string,
+    range?: { start: number; end: number }
+  ): Readable {
+    return fs.createReadStream(this.chunkPath(fileId, chunkId, version), range);
+  }
+
+  async deleteChunk(fileId: string, chunkId: number, version: string): Promise<void> {
+    await fs.promises.rm(this.chunkPath(fileId, chunkId, version), { force: true });
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    await fs.promises.rm(this.fileDir(fileId), { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,21 @@
+import path from 'path';
+import { AttachmentStorage } from './types';
+import { LocalDiskStorage } from './LocalDiskStorage';
+
+export type { AttachmentStorage } from './types';
+export { LocalDiskStorage } from './LocalDiskStorage';
+
+let storage: AttachmentStorage | null = null;
+
+// Storage used for attachments. Defaults to local disk under UPLOAD_PATH;
+// other backends (e.g. object storage) can be installed with setAttachmentStorage
+export function getAttachmentStorage(): AttachmentStorage {
+  if (!storage) {
+    storage = new LocalDiskStorage(path.resolve(process.env.UPLOAD_PATH || './uploads'));
+  }
+  return storage;
+}
+
+export function setAttachmentStorage(backend: AttachmentStorage): void {
+  storage = backend;
+}
@@ -0,0 +1,30 @@
+import { Readable } from 'stream';
+
+// Backend for attachment ciphertext. Implementations only ever see opaque
+// encrypted chunks addressed by file id, chunk index and version. Every write
+// of a chunk is a new version, so concurrent writes of the same chunk never
+// overwrite each other; the attachment records which version is current.
+// Chunks stored before versions existed have none.
+export interface AttachmentStorage {
+  readonly name: string;
+
+  // Store one version of a chunk
+  putChunk(fileId: string, chunkId: number, version: string, data: Buffer): Promise<void>;
+
+  // Read a whole chunk
+  getChunk(fileId: string, chunkId: number, version?: string): Promise<Buffer>;
+
+  // Stream part of a chunk; `end` is inclusive, matching HTTP ranges
+  createChunkStream(
+    fileId: string,
+    chunkId: number,
+    version?: string,
+    range?: { start: number; end: number }
+  ): Readable;
+
+  // Remove one version of a chunk; must succeed if it is already gone
+  deleteChunk(fileId: string, chunkId: number, version: string): Promise<void>;
+
+  // Remove every chunk of a file; must succeed if the file is already gone
+  deleteFile(fileId: string): Promise<void>;
+}
@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+import { CONFIG, IceServer } from '@private-messaging/shared';
+
+export interface TurnCredentials {
+  username: string;
+  credential: string;
+  expiresAt: Date;
+}
+
+// Comma-separated TURN_SERVER_URL; empty when TURN is not set up
+export function turnServerUrls(): string[] {
+  return (process.env.TURN_SERVER_URL || '').split(',').map(url => url.trim()).filter(Boolean);
+}
+
+// How long minted credentials work; TURN_CREDENTIAL_TTL_SECONDS
+export function turnCredentialTtlSeconds(): number {
+  const seconds = Number(process.env.TURN_CREDENTIAL_TTL_SECONDS);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : CONFIG.TURN_CREDENTIAL_TTL_SECONDS;
+}
+
+export function isTurnConfigured(): boolean {
+  return Boolean(process.env.TURN_SHARED_SECRET) && turnServerUrls().length > 0;
+}
+
+/**
+ * Mint credentials in the TURN REST API format that coturn accepts with
+ * `use-auth-secret`: the username is `<expiry>:<user>` and the password the
+ * base64 HMAC-SHA1 of the username under the shared secret. The user part
+ * names the user and call so relay usage can be traced back.
+ */
+export function mintTurnCredentials(userId: string, callId: string, now: Date = new Date()): TurnCredentials {
+  const secret = process.env.TURN_SHARED_SECRET;
+  if (!secret) {
+    throw new Error('TURN_SHARED_SECRET is not set');
+  }
+
+  const expiresAt = new Date(now.getTime() + turnCredentialTtlSeconds() * 1000);
+  const username = `${Math.floor(expiresAt.getTime() / 1000)}:${userId}.${callId}`;
+  const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+
+  return { username, credential, expiresAt };
+}
+
+// STUN servers for everyone, plus TURN with the given credentials
+export function buildIceServers(credentials: TurnCredentials): IceServer[] {
+  return [
+    { urls: [...CONFIG.STUN_SERVERS] },
+    { urls: turnServerUrls(), username: credentials.username, credential: credentials.credential },
+  ];
+}
@@ -0,0 +1,50 @@
+import { Types } from 'mongoose';
+import { authenticateToken } from '../middleware/auth';
+import { Device } from '../models';
+import { MessagingSocket } from './types';
+
+/**
+ * Namespace middleware running the HTTP access-token check on the handshake.
+ * The authenticated user id is kept on `socket.data.userId`; handlers must
+ * take the sender from there, never from event payloads.
+ */
+export const authenticateSocket = (socket: MessagingSocket, next: (err?: Error) => void) => {
+  const req: any = {
+    headers: { authorization: `Bearer ${socket.handshake.auth.token}` },
+    ip: socket.handshake.address,
+    get: (name: string) => socket.handshake.headers[name.toLowerCase()],
+  };
+
+  // authenticateToken answers failures through res.status().json()
+  const res: any = {
+    status: () => res,
+    json: (body: { error?: string }) => next(new Error(body.error || 'Authentication failed')),
+  };
+
+  authenticateToken(req, res, () => {
+    socket.data.userId = req.user.userId.toString();
+    next();
+  });
+};
+
+/**
+ * Runs after authenticateSocket. The handshake must name one of the user's
+ * active devices, which is kept on `socket.data.deviceId`.
+ */
+export const verifySocketDevice = async (socket: MessagingSocket, next: (err?: Error) => void) => {
+  const deviceId = socket.handshake.auth.deviceId;
+  if (typeof deviceId !== 'string' || !Types.ObjectId.isValid(deviceId)) {
+    return next(new Error('Missing device id'));
+  }
+
+  try {
+    if (!(await Device.exists({ _id: deviceId, userId: socket.data.userId, status: 'active' }))) {
+      return next(new Error('Unknown device'));
+    }
+
+    socket.data.deviceId = deviceId;
+    next();
+  } catch (error) {
+    next(new Error('Authentication failed'));
+  }
+};
@@ -0,0 +1,487 @@
+import {
+  CallStartEventSchema,
+  CallEndEventSchema,
+  CallEnded,
+  WebRTCOfferEventSchema,
+  WebRTCAnswerEventSchema,
+  WebRTCIceCandidateEventSchema,
+  CallKeyEventSchema,
+  CallStatsEventSchema,
+  CallMediaEventSchema,
+  CallSignal,
+  CallParticipantUpdate
+} from '@private-messaging/shared';
+import { AuditLog, Call, Device, ICall, ICallMethods } from '../models';
+import { callMembers, declineCall, hangUpCall } from '../services/calls';
+import { recordCallStats } from '../services/callQuality';
+import { MessagingNamespace, MessagingSocket } from './types';
+import { SocketAck, ackFrom, rejectEvent, parsePayload } from './validation';
+
+type CallDocument = ICall & ICallMethods;
+type Participant = ICall['participants'][number];
+
+const ACTIVE_CALL_STATUSES = ['initiated', 'ringing', 'accepted'];
+
+const isRinging = (participant: Participant) =>
+  participant.status === 'invited' || participant.status === 'ringing';
+
+// Every device of every participant, ringing or not
+const participantRooms = (call: ICall) => call.participants.map(participant => `user:${participant.userId}`);
+
+// Tell every participant device that someone left, declined or missed the
+// call, or that it is over
+export function notifyCallEnded(
+  namespace: MessagingNamespace,
+  call: ICall,
+  userId?: string,
+  participantStatus?: string
+): void {
+  const ended: CallEnded = {
+    callId: call.callId,
+    status: call.status,
+    ...(userId && { userId }),
+    ...(participantStatus && { participantStatus }),
+    ...(call.endReason && { endReason: call.endReason }),
+  };
+  namespace.to(participantRooms(call)).emit('webrtc:call-end', ended);
+}
+
+// Ring invitees on every device, naming the host's device as the caller
+export function notifyInvited(namespace: MessagingNamespace, call: ICall, userIds: string[]): void {
+  const host = call.participants.find(participant => participant.userId.equals(call.initiatorId));
+  if (userIds.length === 0 || !host?.deviceId) return;
+
+  namespace.to(userIds.map(id => `user:${id}`)).emit('webrtc:call-start', {
+    callId: call.callId,
+    callerId: call.initiatorId.toString(),
+    callerDeviceId: host.deviceId.toString(),
+    callType: call.callType,
+    isGroupCall: call.isGroupCall,
+    participantIds: call.participantIds.map(id => id.toString()),
+  });
+}
+
+// Tell everyone in the call or being rung for it how a participant changed
+export function notifyParticipantUpdate(
+  namespace: MessagingNamespace,
+  call: ICall,
+  participant: Participant,
+  change: CallParticipantUpdate['change']
+): void {
+  const update: CallParticipantUpdate = {
+    callId: call.callId,
+    change,
+    participant: {
+      userId: participant.userId.toString(),
+      ...(participant.deviceId && { deviceId: participant.deviceId.toString() }),
+      status: participant.status,
+      audioEnabled: participant.audioEnabled,
+      videoEnabled: participant.videoEnabled,
+      screenShareEnabled: participant.screenShareEnabled,
+    },
+  };
+  namespace.to(callMembers(call).map(member => `user:${member.userId}`)).emit('webrtc:participant-update', update);
+}
+
+// The host asks a participant, on the device they are in the call on, to
+// turn tracks off
+export function notifyMuteRequest(
+  namespace: MessagingNamespace,
+  call: ICall,
+  participant: Participant,
+  audio: boolean,
+  video: boolean
+): void {
+  if (!participant.deviceId) return;
+
+  namespace.to(`device:${participant.deviceId}`).emit('webrtc:mute-request', {
+    callId: call.callId,
+    from: call.initiatorId.toString(),
+    audio,
+    video,
+  });
+}
+
+// The user's other devices stop ringing once one of them answered
+export function notifyAnsweredElsewhere(namespace: MessagingNamespace, call: ICall, userId: string, deviceId: string): void {
+  namespace.to(`user:${userId}`).except(`device:${deviceId}`).emit('webrtc:answered-elsewhere', {
+    callId: call.callId,
+    deviceId,
+  });
+}
+
+/**
+ * WebRTC signaling for calls created through the REST API. SDP and ICE are
+ * only relayed between devices of the call's participants: a joined
+ * participant's device, or any device of a callee whose devices are ringing.
+ * The first callee device to answer takes the call.
+ */
+export function registerCallHandlers(namespace: MessagingNamespace, socket: MessagingSocket): void {
+  const { userId, deviceId } = socket.data;
+
+  const logCallEvent = (action: string, call: ICall, description: string, metadata?: Record<string, any>) => {
+    AuditLog.logEvent({
+      userId,
+      action,
+      category: 'call',
+      severity: 'info',
+      status: 'success',
+      resourceType: 'call',
+      resourceId: call.callId,
+      description,
+      metadata,
+      context: {
+        deviceId,
+        ipAddress: socket.handshake.address,
+        userAgent: socket.handshake.headers['user-agent']
+      },
+    });
+  };
+
+  // Calls of other users are reported as missing, like the REST API does
+  const loadCall = async (
+    event: string,
+    callId: string,
+    callback?: SocketAck
+  ): Promise<{ call: CallDocument; participant: Participant } | null> => {
+    const call = await Call.findOne({ callId });
+    const participant = call?.participants.find(entry => entry.userId.equals(userId));
+    if (!call || !participant) {
+      rejectEvent(socket, userId, event, 'Call not found', callback, { callId });
+      return null;
+    }
+
+    if (!ACTIVE_CALL_STATUSES.includes(call.status)) {
+      rejectEvent(socket, userId, event, 'Call is no longer active', callback, { callId });
+      return null;
+    }
+
+    return { call, participant };
+  };
+
+  // This device is the one the participant is in the call on
+  const inCallOnThisDevice = (participant: Participant) =>
+    participant.status === 'joined' && !!participant.deviceId?.equals(deviceId);
+
+  /**
+   * Room a signal goes to: the device a joined participant is in the call
+   * on, or every device of a ringing callee. Until a callee answers, any
+   * of their devices may take the call, so a device id in the payload is
+   * never used to address one. Answers only ever go to a joined
+   * participant. Returns null for anyone else.
+   */
+  const signalRoom = (call: ICall, to: { userId: string; deviceId?: string }, ringingAllowed: boolean): string | null => {
+    const target = call.participants.find(entry => entry.userId.equals(to.userId));
+    if (!target || target.userId.equals(userId)) {
+      return null;
+    }
+
+    if (target.status === 'joined' && target.deviceId) {
+      return !to.deviceId || target.deviceId.equals(to.deviceId) ? `device:${target.deviceId}` : null;
+    }
+
+    if (ringingAllowed && target.status === 'ringing') {
+      return `user:${target.userId}`;
+    }
+
+    return null;
+  };
+
+  const relaySignal = (
+    event: 'webrtc:offer' | 'webrtc:answer' | 'webrtc:ice-candidate',
+    room: string,
+    signal: Omit<CallSignal, 'from'>
+  ) => {
+    namespace.to(room).emit(event, { ...signal, from: { userId, deviceId } });
+  };
+
+  // The caller rings the callees from the device that created the call
+  socket.on('webrtc:call-start', async (payload: unknown, ack?: unknown) => {
+    const callback = ackFrom(ack);
+    const data = parsePayload(socket, userId, 'webrtc:call-start', CallStartEventSchema, payload, callback);
+    if (!data) return;
+
+    try {
+      const loaded = await loadCall('webrtc:call-start', data.callId, callback);
+      if (!loaded) return;
+      const { call, participant } = loaded;
+
+      if (!call.initiatorId.equals(userId) || !inCallOnThisDevice(participant)) {
+        return rejectEvent(socket, userId, 'webrtc:call-start', 'Only the calling device can start a call', callback, {
+          callId: call.callId,
+        });
+      }
+
+      // Ringing already; a retry is acknowledged again
+      if (call.status !== 'initiated') {
+        return callback?.({ success: true });
+      }
+
+      await call.startCall();
+
+      const callees = call.participants.filter(entry => entry.status === 'ringing');
+      notifyInvited(namespace, call, callees.map(entry => entry.userId.toString()));
+
+      callback?.({ success: true });
+      logCallEvent('call.ringing', call, 'Call ringing', { callees: callees.length });
+    } catch (error) {
+      console.error('Error starting call:', error);
+      callback?.({ success: false, error: 'Failed to start call' });
+    }
+  });
+
+  socket.on('webrtc:offer', async (payload: unknown, ack?: unknown) => {
+    const callback = ackFrom(ack);
+    const data = parsePayload(socket, userId, 'webrtc:offer', WebRTCOfferEventSchema, payload, callback);
+    if (!data) return;
+
+    try {
+      const loaded = await loadCall('webrtc:offer', data.callId, callback);
+      if (!loaded) return;
+      const { call, participant } = loaded;
+
+      const room = inCallOnThisDevice(participant) && signalRoom(call, data.to, true);
+      if (!room) {
+        return rejectEvent(socket, userId, 'webrtc:offer', 'Participant not in call', callback, { callId: call.callId });
+      }
+
+      relaySignal('webrtc:offer', room, { callId: call.callId, sdp: data.sdp });
+      callback?.({ success: true });
+    } catch (error) {
+      console.error('Error relaying offer:', error);
+      callback?.({ success: false, error: 'Failed to relay offer' });
+    }
+  });
+
+  // Answering a ringing call takes it on this device and stops the others
+  socket.on('webrtc:answer', async (payload: unknown, ack?: unknown) => {
+    const callback = ackFrom(ack);
+    const data = parsePayload(socket, userId, 'webrtc:answer', WebRTCAnswerEventSchema, payload, callback);
+    if (!data) return;
+
+    try {
+      const loaded = await loadCall('webrtc:answer', data.callId, callback);
+      if (!loaded) return;
+      let { call } = loaded;
+      const { participant } = loaded;
+
+      if (!signalRoom(call, data.to, false)) {
+        return rejectEvent(socket, userId, 'webrtc:answer', 'Participant not in call', callback, { callId: call.callId });
+      }
+
+      if (isRinging(participant)) {
+        const answered = await Call.claimAnswer(call.callId, userId, deviceId);
+        if (!answered) {
+          return rejectEvent(socket, userId, 'webrtc:answer', 'Call already answered', callback, { callId: call.callId });
+        }
+
+        call = answered;
+        notifyAnsweredElsewhere(namespace, call, userId, deviceId);
+        notifyParticipantUpdate(namespace, call, call.participants.find(entry => entry.userId.equals(userId))!, 'joined');
+        logCallEvent('call.accepted', call, 'Call accepted');
+      } else if (!inCallOnThisDevice(participant)) {
+        return rejectEvent(socket, userId, 'webrtc:answer', 'Participant not in call', callback, { callId: call.callId });
+      }
+
+      relaySignal('webrtc:answer', signalRoom(call, data.to, false)!, { callId: call.callId, sdp: data.sdp });
+      callback?.({ success: true });
+    } catch (error) {
+      console.error('Error relaying answer:', error);
+      callback?.({ success: false, error: 'Failed to relay answer' });
+    }
+  });
+
+  // Candidates are fire-and-forget; invalid ones are dropped
+  socket.on('webrtc:ice-candidate', async (payload: unknown) => {
+    const data = parsePayload(socket, userId, 'webrtc:ice-candidate', WebRTCIceCandidateEventSchema, payload);
+    if (!data) return;
+
+    try {
+      const loaded = await loadCall('webrtc:ice-candidate', data.callId);
+      if (!loaded) return;
+      const { call, participant } = loaded;
+
+      const room = inCallOnThisDevice(participant) && signalRoom(call, data.to, true);
+      if (!room) {
+        return rejectEvent(socket, userId, 'webrtc:ice-candidate', 'Participant not in call', undefined, {
+          callId: call.callId,
+        });
+      }
+
+      relaySignal('webrtc:ice-candidate', room, { callId: call.callId, candidate: data.candidate });
+    } catch (error) {
+      console.error('Error relaying ICE candidate:', error);
+    }
+  });
+
+  /**
+   * The caller hands out the frame key of a new epoch: for the first time,
+   * or after someone joined or left a group call. Copies may only go to
+   * devices in the call or ringing for it, and every joined participant
+   * must get one. Epochs only move forward.
+   */
+  socket.on('webrtc:call-key', async (payload: unknown, ack?: unknown) => {
+    const callback = ackFrom(ack);
+    const data = parsePayload(socket, userId, 'webrtc:call-key', CallKeyEventSchema, payload, callback);
+    if (!data) return;
+
+    try {
+      const loaded = await loadCall('webrtc:call-key', data.callId, callback);
+      if (!loaded) return;
+      const { call, participant } = loaded;
+
+      if (call.encryption.keyExchange !== 'E2E-Custom') {
+        return rejectEvent(socket, userId, 'webrtc:call-key', 'Call does not use end-to-end media keys', callback, {
+          callId: call.callId,
+        });
+      }
+
+      if (!call.initiatorId.equals(userId) || !inCallOnThisDevice(participant)) {
+        return rejectEvent(socket, userId, 'webrtc:call-key', 'Only the calling device can distribute call keys', callback, {
+          callId: call.callId,
+        });
+      }
+
+      const ringingUserIds = call.participants.filter(entry => entry.status === 'ringing').map(entry => entry.userId);
+      const ringingDevices = await Device.find({ userId: { $in: ringingUserIds }, status: 'active' }).select('_id userId');
+
+      const allowed = (entry: { userId: string; deviceId: string }) => {
+        const target = call.participants.find(candidate => candidate.userId.equals(entry.userId));
+        if (!target || target.userId.equals(userId)) return false;
+        if (target.status === 'joined') return !!target.deviceId?.equals(entry.deviceId);
+        return target.status === 'ringing'
+          && ringingDevices.some(device => device._id.equals(entry.deviceId) && device.userId.equals(entry.userId));
+      };
+
+      const joined = call.participants.filter(entry => entry.status === 'joined' && !entry.userId.equals(userId));
+      const complete = joined.every(entry =>
+        data.envelopes.some(envelope => entry.deviceId?.equals(envelope.deviceId))
+      );
+
+      if (!data.envelopes.every(allowed) || !complete) {
+        return rejectEvent(socket, userId, 'webrtc:call-key', 'Call key must go to exactly the call participants', callback, {
+          callId: call.callId,
+        });
+      }
+
+      const advanced = await Call.updateOne(
+        { _id: call._id, 'encryption.keyEpoch': { $lt: data.keyEpoch } },
+        { $set: { 'encryption.keyEpoch': data.keyEpoch } }
+      );
+      if (advanced.modifiedCount === 0) {
+        return rejectEvent(socket, userId, 'webrtc:call-key', 'Stale call key epoch', callback, {
+          callId: call.callId,
+          keyEpoch: data.keyEpoch,
+        });
+      }
+
+      for (const { userId: recipientId, deviceId: recipientDeviceId, ...envelope } of data.envelopes) {
+        namespace.to(`device:${recipientDeviceId}`).emit('webrtc:call-key', {
+          ...envelope,
+          callId: call.callId,
+          keyEpoch: data.keyEpoch,
+          senderId: userId,
+          senderDeviceId: deviceId,
+        });
+      }
+
+      callback?.({ success: true });
+      logCallEvent('call.key_rotated', call, 'Call key distributed', {
+        keyEpoch: data.keyEpoch,
+        devices: data.envelopes.length,
+      });
+    } catch (error) {
+      console.error('Error distributing call key:', error);
+      callback?.({ success: false, error: 'Failed to distribute call key' });
+    }
+  });
+
+  // A participant turned tracks on or off; everyone in the call hears of it
+  socket.on('webrtc:media', async (payload: unknown, ack?: unknown) => {
+    const callback = ackFrom(ack);
+    const data = parsePayload(socket, userId, 'webrtc:media', CallMediaEventSchema, payload, callback);
+    if (!data) return;
+
+    try {
+      const loaded = await loadCall('webrtc:media', data.callId, callback);
+      if (!loaded) return;
+      const { call, participant } = loaded;
+
+      if (!inCallOnThisDevice(participant)) {
+        return rejectEvent(socket, userId, 'webrtc:media', 'Not in this call on this device', callback, {
+          callId: call.callId,
+        });
+      }
+
+      await call.updateParticipantMedia(participant.userId, data.audioEnabled, data.videoEnabled, data.screenShareEnabled);
+      notifyParticipantUpdate(namespace, call, participant, 'media');
+      callback?.({ success: true });
+    } catch (error) {
+      console.error('Error updating call media:', error);
+      callback?.({ success: false, error: 'Failed to update media' });
+    }
+  });
+
+  // Periodic WebRTC stats from the device this participant is in the call on
+  socket.on('webrtc:stats', async (payload: unknown, ack?: unknown) => {
+    const callback = ackFrom(ack);
+    const data = parsePayload(socket, userId, 'webrtc:stats', CallStatsEventSchema, payload, callback);
+    if (!data) return;
+
+    try {
+      const loaded = await loadCall('webrtc:stats', data.callId, callback);
+      if (!loaded) return;
+      const { call, participant } = loaded;
+
+      if (!inCallOnThisDevice(participant)) {
+        return rejectEvent(socket, userId, 'webrtc:stats', 'Not in this call on this device', callback, {
+          callId: call.callId,
+        });
+      }
+
+      const { callId, ...stats } = data;
+      const connectionQuality = await recordCallStats(call, userId, deviceId, stats);
+      if (!connectionQuality) {
+        callback?.({ success: false, error: 'Stats sample dropped; report less often' });
+        return;
+      }
+
+      callback?.({ success: true });
+    } catch (error) {
+      console.error('Error recording call stats:', error);
+      callback?.({ success: false, error: 'Failed to record call stats' });
+    }
+  });
+
+  // Ending a call that is still ringing on this user's devices declines it
+  socket.on('webrtc:call-end', async (payload: unknown, ack?: unknown) => {
+    const callback = ackFrom(ack);
+    const data = parsePayload(socket, userId, 'webrtc:call-end', CallEndEventSchema, payload, callback);
+    if (!data) return;
+
+    try {
+      const loaded = await loadCall('webrtc:call-end', data.callId, callback);
+      if (!loaded) return;
+      const { call, participant } = loaded;
+
+      if (isRinging(participant)) {
+        await declineCall(call, userId);
+        notifyCallEnded(namespace, call, userId, 'rejected');
+        logCallEvent('call.rejected', call, 'Call rejected');
+      } else if (inCallOnThisDevice(participant)) {
+        const ended = await hangUpCall(call, userId);
+        notifyCallEnded(namespace, call, userId, ended ? undefined : 'left');
+        logCallEvent(ended ? 'call.ended' : 'call.left', call, ended ? 'Call ended' : 'Participant left call', {
+          duration: call.duration,
+        });
+      } else {
+        return rejectEvent(socket, userId, 'webrtc:call-end', 'Participant not in call', callback, { callId: call.callId });
+      }
+
+      callback?.({ success: true });
+    } catch (error) {
+      console.error('Error ending call:', error);
+      callback?.({ success: false, error: 'Failed to end call' });
+    }
+  });
+}
@@ -1,37 +1,101 @@
-import { Server, Socket } from 'socket.io';
+import { Server } from 'socket.io';
 import { createAdapter } from '@socket.io/redis-adapter';
-import { createClient } from 'redis';
 import dotenv from 'dotenv';
-import { authenticateToken } from '../middleware/auth';
-import { IMessageEnvelope, User, MessageEnvelope, AuditLog, Device } from '../models';
+import {
+  RegisterDeviceEventSchema,
+  JoinConversationsEventSchema,
+  SendMessageEventSchema,
+  SendMessageBundleEventSchema,
+  SendGroupMessageEventSchema,
+  AcknowledgeMessageEventSchema,
+  RequestSyncEventSchema,
+  TypingEventSchema,
+  PresenceHeartbeatEventSchema,
+  EditMessageEventSchema,
+  DeleteMessageEventSchema,
+  ReactToMessageEventSchema,
+  SetDisappearingMessagesEventSchema,
+  CONFIG,
+  MessageControl,
+  MessageEnvelopePayload,
+  SendMessageBundleEvent,
+  SendGroupMessageEvent,
+  CallParticipantUpdate
+} from '@private-messaging/shared';
+import { IMessageEnvelope, MessageEnvelope, AuditLog, Conversation, ICall } from '../models';
 import { Types } from 'mongoose';
 import crypto from 'crypto';
+import { getRedisClient } from '../services/redis';
+import { getPresenceService, getPresenceAudience } from '../services/presence';
+import { enqueueDelivery, replayInbox, acknowledgeDelivery, findStaleDevices } from '../services/inbox';
+import { ReceiptUpdate, trackReceipts, recordReceipt } from '../services/receipts';
+import { copiesOf, initialExpiry, startExpiryTimer } from '../services/expiry';
+import { onRingTimeout } from '../services/calls';
+import { authenticateSocket, verifySocketDevice } from './auth';
+import { registerLegacyAliases } from './legacy';
+import {
+  registerCallHandlers,
+  notifyCallEnded,
+  notifyAnsweredElsewhere,
+  notifyInvited,
+  notifyMuteRequest,
+  notifyParticipantUpdate
+} from './calls';
+import { MessagingNamespace, MessagingSocket } from './types';
+import {
+  SocketAck,
+  ackFrom,
+  rejectEvent,
+  parsePayload,
+  requireMembership,
+  joinMemberConversations
+} from './validation';
 
 dotenv.config();
 
-const pubClient = createClient({ url: process.env.REDIS_URL });
-const subClient = pubClient.duplicate();
-
-pubClient.connect().catch(console.error);
-subClient.connect().catch(console.error);
-
-// Store connected devices for multi-device sync
-const connectedDevices = new Map<string, Set<string>>(); // userId -> Set of socketIds
-const deviceSocketMap = new Map<string, { userId: string, deviceId: string }>(); // socketId -> device info
-
-// Message acknowledgment tracking
-interface MessageAck {
-  messageId: string;
-  senderId: string;
-  recipientId: string;
-  conversationId: string;
-  timestamp: Date;
-  status: 'sent' | 'delivered' | 'read';
-  deviceId?: string;
+type BundleEnvelope = SendMessageBundleEvent['envelopes'][number];
+
+// A parsed control message: per-device copies, or one sender-key copy
+type ControlMessage = { messageId: string; conversationId: string } & (
+  | { recipientId: string; envelopes: BundleEnvelope[] }
+  | { encryptedContent: string; senderKeyHeader: SendGroupMessageEvent['senderKeyHeader'] }
+);
+
+const CONTROL_AUDIT_ACTIONS: Record<MessageControl['action'], string> = {
+  edit: 'message.edited',
+  delete: 'message.deleted',
+  react: 'message.reacted',
+  timer: 'conversation.disappearing_messages_set',
+};
+
+let messagingNamespace: MessagingNamespace | null = null;
+
+// Envelopes go out with ObjectIds as strings
+function toEnvelopePayload(message: IMessageEnvelope): MessageEnvelopePayload {
+  return message.toJSON<MessageEnvelopePayload>({ flattenObjectIds: true });
 }
 
-const pendingAcks = new Map<string, MessageAck>(); // messageId -> ack info
+// Copies of a user's own message reach their other devices as messageSync,
+// and so do control messages on every participant device
+function envelopeEvent(message: IMessageEnvelope): 'newMessage' | 'messageSync' {
+  return message.control?.action || message.recipientId?.equals(message.senderId) ? 'messageSync' : 'newMessage';
+}
 
+// Send a stored envelope to whichever of its devices are connected; the
+// device inbox covers the others
+function deliverToDevices(message: IMessageEnvelope, devices: Array<{ deviceId: Types.ObjectId }>): void {
+  if (!messagingNamespace || devices.length === 0) return;
+
+  messagingNamespace
+    .to(devices.map(({ deviceId }) => `device:${deviceId}`))
+    .emit(envelopeEvent(message), toEnvelopePayload(message));
+}
+
+/**
+ * The messaging gateway. A single Socket.IO server with the /messaging
+ * namespace; sockets authenticate with an access token and one of the user's
+ * active devices during the handshake.
+ */
 export function setupSocketIO(server: any) {
   const io = new Server(server, {
     cors: {
@@ -39,44 +103,78 @@ export function setupSocketIO(server: any) {
       methods: ['GET', 'POST'],
       credentials: true,
     },
+    transports: ['websocket', 'polling'],
   });
 
+  const pubClient = getRedisClient();
+  const subClient = pubClient.duplicate();
+
+  subClient.connect().catch(console.error);
+
   io.adapter(createAdapter(pubClient, subClient));
 
-  const messagingNamespace = io.of('/messaging');
-  
-  messagingNamespace.use((socket, next) => {
-    const token = socket.handshake.auth.token;
-    authenticateToken({ headers: { authorization: `Bearer ${token}` } }, 
-      {} as any, 
-      next as any);
+  const namespace: MessagingNamespace = io.of('/messaging');
+  messagingNamespace = namespace;
+
+  namespace.use(authenticateSocket);
+  namespace.use(verifySocketDevice);
+
+  // Contacts follow presence through their personal rooms; the Redis adapter
+  // carries the event to whichever node they are connected to
+  const presence = getPresenceService();
+  presence.onChange(async (userId, update) => {
+    const audience = await getPresenceAudience(userId);
+    if (audience.length === 0) return;
+
+    const event = update.state === 'online' ? 'user:online'
+      : update.state === 'away' ? 'user:status'
+      : 'user:offline';
+    namespace.to(audience.map(contactId => `user:${contactId}`)).emit(event, { userId, ...update });
   });
 
-  messagingNamespace.on('connection', (socket: Socket) => {
-    const { userId } = socket.request as any;
-    console.log(`User ${userId} connected to messaging namespace.`);
+  // Callees who did not answer in time stop ringing on every device
+  onRingTimeout((call, missedUserIds) => {
+    missedUserIds.forEach(userId => notifyCallEnded(namespace, call, userId, 'missed'));
+  });
+
+  namespace.on('connection', (socket: MessagingSocket) => {
+    const { userId, deviceId } = socket.data;
+    console.log(`User ${userId} (device: ${deviceId}) connected to messaging namespace.`);
+
+    // Join user's personal room for multi-device sync, and the device room
+    // that envelopes addressed to this device are sent to
+    socket.join([`user:${userId}`, `device:${deviceId}`]);
+
+    presence.connect(userId, deviceId, socket.id).catch(error => {
+      console.error('Error registering presence:', error);
+    });
+
+    // Heartbeats keep the connection alive in the presence registry and
+    // carry the device's online/away state
+    socket.on('presence:heartbeat', async (payload: unknown) => {
+      const data = parsePayload(socket, userId, 'presence:heartbeat', PresenceHeartbeatEventSchema, payload);
+      if (!data) return;
 
-    // Device registration and multi-device handling
-    socket.on('registerDevice', async (data: { conversationIds: string[], deviceId: string }) => {
       try {
-        const { conversationIds, deviceId } = data;
-        
-        // Store device info
-        deviceSocketMap.set(socket.id, { userId, deviceId });
-        
-        // Add to connected devices
-        if (!connectedDevices.has(userId)) {
-          connectedDevices.set(userId, new Set());
-        }
-        connectedDevices.get(userId)!.add(socket.id);
+        await presence.heartbeat(userId, deviceId, socket.id, data.state);
+      } catch (error) {
+        console.error('Error updating presence:', error);
+      }
+    });
 
-        // Join conversation rooms
-        conversationIds.forEach((conversationId) => {
-          socket.join(conversationId);
-        });
+    // Device registration: join conversation rooms and receive everything
+    // still waiting in this device's inbox
+    socket.on('registerDevice', async (payload: unknown, ack?: unknown) => {
+      const callback = ackFrom(ack);
+      const data = parsePayload(socket, userId, 'registerDevice', RegisterDeviceEventSchema, payload, callback);
+      if (!data) return;
+
+      try {
+        const joined = await joinMemberConversations(socket, userId, 'registerDevice', data.conversationIds);
+
+        await replayInbox(deviceId, envelope => socket.emit(envelopeEvent(envelope), toEnvelopePayload(envelope)));
 
-        // Join user's personal room for multi-device sync
-        socket.join(`user:${userId}`);
+        callback?.({ success: true, conversationIds: joined });
 
         AuditLog.logEvent({
           userId,
@@ -93,56 +191,96 @@ export function setupSocketIO(server: any) {
         });
       } catch (error) {
         console.error('Error registering device:', error);
+        callback?.({ success: false, error: 'Device registration failed' });
       }
     });
 
     // Legacy support for joinConversations
-    socket.on('joinConversations', (conversationIds: string[]) => {
-      conversationIds.forEach((conversationId) => {
-        socket.join(conversationId);
-      });
+    socket.on('joinConversations', async (payload: unknown, ack?: unknown) => {
+      const callback = ackFrom(ack);
+      const conversationIds = parsePayload(socket, userId, 'joinConversations', JoinConversationsEventSchema, payload, callback);
+      if (!conversationIds) return;
 
-      AuditLog.logEvent({
-        userId,
-        action: 'socket.join_conversations',
-        category: 'system',
-        severity: 'info',
-        status: 'success',
-        description: `User joined conversations`,
-        context: {
-          ipAddress: socket.handshake.address,
-          userAgent: socket.handshake.headers['user-agent']
-        },
-      });
+      try {
+        const joined = await joinMemberConversations(socket, userId, 'joinConversations', conversationIds);
+        callback?.({ success: true, conversationIds: joined });
+        if (joined.length === 0) return;
+
+        AuditLog.logEvent({
+          userId,
+          action: 'socket.join_conversations',
+          category: 'system',
+          severity: 'info',
+          status: 'success',
+          description: `User joined conversations`,
+          context: {
+            ipAddress: socket.handshake.address,
+            userAgent: socket.handshake.headers['user-agent']
+          },
+        });
+      } catch (error) {
+        console.error('Error joining conversations:', error);
+        callback?.({ success: false, error: 'Failed to join conversations' });
+      }
     });
 
-// Handle sending messages
-    socket.on('sendMessage', async (data: IMessageEnvelope) => {
+    // Retries of a message we already stored are queued (in case the first
+    // attempt failed before that) and acknowledged again; a message id taken
+    // by another sender is rejected
+    const isStoredRetry = async (event: string, messageId: string, callback?: SocketAck): Promise<boolean> => {
+      const existing = await MessageEnvelope.findOne({ messageId });
+      if (!existing) {
+        return false;
+      }
+
+      if (existing.senderId.equals(userId)) {
+        await trackReceipts(existing, await enqueueDelivery(existing));
+        callback?.({ success: true, messageId });
+      } else {
+        rejectEvent(socket, userId, event, 'Duplicate message id', callback, { messageId });
+      }
+      return true;
+    };
+
+    // Handle sending messages. The sender is the authenticated user on this
+    // device, whatever the payload says.
+    socket.on('sendMessage', async (payload: unknown, ack?: unknown) => {
+      const callback = ackFrom(ack);
+      const data = parsePayload(socket, userId, 'sendMessage', SendMessageEventSchema, payload, callback);
+      if (!data) return;
+
       try {
-        const sender = await User.findById(data.senderId);
-        if (!sender || sender.status !== 'active') {
-          throw new Error('Invalid sender');
+        if (!(await requireMembership(socket, userId, 'sendMessage', data.conversationId, callback))) {
+          return;
         }
 
-        // Generate unique messageId
-        data.messageId = crypto.randomUUID();
-        const message = new MessageEnvelope(data);
-        await message.save();
+        if (!(await Conversation.isMember(data.conversationId, data.recipientId))) {
+          return rejectEvent(socket, userId, 'sendMessage', 'Recipient is not a member of this conversation', callback, {
+            conversationId: data.conversationId,
+          });
+        }
 
-        // Emit message to the recipient's conversation room
-        socket.to(data.conversationId).emit('newMessage', message);
+        const messageId = data.messageId ?? crypto.randomUUID();
+        if (await isStoredRetry('sendMessage', messageId, callback)) {
+          return;
+        }
 
-        // Add to pending acknowledgments
-        pendingAcks.set(data.messageId, {
-          messageId: data.messageId,
-          senderId: data.senderId,
-          recipientId: data.recipientId,
-          conversationId: data.conversationId,
-          timestamp: new Date(),
+        const message = new MessageEnvelope({
+          ...data,
+          messageId,
+          senderId: userId,
+          senderDeviceId: deviceId,
           status: 'sent',
         });
+        message.expiresAt = initialExpiry(message);
+        await message.save();
+
+        const devices = await enqueueDelivery(message);
+        await trackReceipts(message, devices);
+        deliverToDevices(message, devices);
+
+        callback?.({ success: true, messageId });
 
-        // Logging the event
         AuditLog.logEvent({
           action: 'message.send',
           category: 'message',
@@ -151,14 +289,17 @@ export function setupSocketIO(server: any) {
           userId,
           description: 'User sent a message',
           context: {
+            messageId,
+            conversationId: data.conversationId,
+            deviceId,
             ipAddress: socket.handshake.address,
             userAgent: socket.handshake.headers['user-agent']
           },
         });
       } catch (error: any) {
         console.error('Error sending message:', error);
+        callback?.({ success: false, error: 'Failed to send message' });
 
-        // Logging the failure
         AuditLog.logEvent({
           action: 'message.send_failure',
           category: 'message',
@@ -171,6 +312,7 @@ export function setupSocketIO(server: any) {
             message: error.message
           },
           context: {
+            deviceId,
             ipAddress: socket.handshake.address,
             userAgent: socket.handshake.headers['user-agent']
           },
@@ -178,74 +320,503 @@ export function setupSocketIO(server: any) {
       }
     });
 
-    // Enhanced message acknowledgment handling
-    socket.on('acknowledgeMessage', async (ack: { 
-      messageId: string, 
-      status: 'delivered' | 'read', 
-      timestamp?: Date 
-    }) => {
+    /**
+     * Store one copy of a bundle per device and deliver it. Bundles that miss
+     * a device or name an inactive one are rejected with the differences, so
+     * the client can update its sessions and retry. Copies stored by an
+     * earlier attempt are only queued again. Returns whether the bundle was
+     * accepted.
+     */
+    const storeBundle = async (
+      event: string,
+      bundle: { messageId: string; conversationId: string; recipientId: string; envelopes: BundleEnvelope[] },
+      fields: Record<string, any>,
+      callback?: SocketAck
+    ): Promise<boolean> => {
+      const deviceIds = bundle.envelopes.map(entry => entry.deviceId.toLowerCase());
+      if (new Set(deviceIds).size !== deviceIds.length) {
+        rejectEvent(socket, userId, event, 'Duplicate devices in bundle', callback, { messageId: bundle.messageId });
+        return false;
+      }
+
+      const userIds = [...new Set([bundle.recipientId, userId])];
+      if (bundle.envelopes.some(entry => !userIds.includes(entry.userId))) {
+        rejectEvent(socket, userId, event, 'Bundle addresses another user', callback, { messageId: bundle.messageId });
+        return false;
+      }
+
+      const staleDevices = await findStaleDevices(
+        userIds,
+        deviceId,
+        bundle.envelopes.map((entry, index) => ({ userId: entry.userId, deviceId: deviceIds[index] }))
+      );
+      if (staleDevices.length > 0) {
+        callback?.({ success: false, error: 'Stale devices', code: 'STALE_DEVICES', staleDevices });
+        return false;
+      }
+
+      // Control messages carry no receipts
+      const track = fields.control
+        ? async () => {}
+        : (message: IMessageEnvelope, devices: Awaited<ReturnType<typeof enqueueDelivery>>) =>
+          trackReceipts(message, devices, bundle.messageId);
+
+      const messageIds = deviceIds.map(id => `${bundle.messageId}:${id}`);
+      const stored = await MessageEnvelope.find({ messageId: { $in: messageIds } });
+      if (stored.some(existing => !existing.senderId.equals(userId))) {
+        rejectEvent(socket, userId, event, 'Duplicate message id', callback, { messageId: bundle.messageId });
+        return false;
+      }
+      for (const existing of stored) {
+        await track(existing, await enqueueDelivery(existing));
+      }
+
+      for (const [index, entry] of bundle.envelopes.entries()) {
+        const messageId = messageIds[index];
+        if (stored.some(existing => existing.messageId === messageId)) {
+          continue;
+        }
+
+        const message = new MessageEnvelope({
+          ...fields,
+          ...entry,
+          messageId,
+          bundleMessageId: bundle.messageId,
+          conversationId: bundle.conversationId,
+          senderId: userId,
+          senderDeviceId: deviceId,
+          recipientId: entry.userId,
+          recipientDeviceId: deviceIds[index],
+          status: 'sent',
+        });
+        message.expiresAt = initialExpiry(message);
+        await message.save();
+
+        // Receipts of every copy count towards the sender's message id
+        const devices = await enqueueDelivery(message);
+        await track(message, devices);
+        deliverToDevices(message, devices);
+      }
+
+      return true;
+    };
+
+    // A message encrypted once per device: every active device of the
+    // recipient and every other device of the sender
+    socket.on('sendMessageBundle', async (payload: unknown, ack?: unknown) => {
+      const callback = ackFrom(ack);
+      const data = parsePayload(socket, userId, 'sendMessageBundle', SendMessageBundleEventSchema, payload, callback);
+      if (!data) return;
+
       try {
-        const deviceInfo = deviceSocketMap.get(socket.id);
-        if (!deviceInfo) return;
+        if (!(await requireMembership(socket, userId, 'sendMessageBundle', data.conversationId, callback))) {
+          return;
+        }
 
-        const { deviceId } = deviceInfo;
-        const message = await MessageEnvelope.findOne({ messageId: ack.messageId });
-        if (!message) return;
+        if (!(await Conversation.isMember(data.conversationId, data.recipientId))) {
+          return rejectEvent(socket, userId, 'sendMessageBundle', 'Recipient is not a member of this conversation', callback, {
+            conversationId: data.conversationId,
+          });
+        }
 
-        // Update delivery receipts
-        if (ack.status === 'delivered') {
-          await message.markAsDelivered(new Types.ObjectId(deviceId));
-        } else if (ack.status === 'read') {
-          await message.markAsRead(new Types.ObjectId(deviceId));
+        const { envelopes, messageId, ...fields } = data;
+        if (!(await storeBundle('sendMessageBundle', data, fields, callback))) {
+          return;
         }
 
-        // Update pending acknowledgments
-        const pendingAck = pendingAcks.get(ack.messageId);
-        if (pendingAck) {
-          pendingAck.status = ack.status;
-          pendingAck.timestamp = ack.timestamp || new Date();
-          pendingAck.deviceId = deviceId;
+        callback?.({ success: true, messageId });
 
-          // Notify sender about status update on all their devices
-          socket.to(`user:${pendingAck.senderId}`).emit('messageStatusUpdate', {
-            messageId: ack.messageId,
-            status: ack.status,
-            timestamp: pendingAck.timestamp,
+        AuditLog.logEvent({
+          action: 'message.send',
+          category: 'message',
+          severity: 'info',
+          status: 'success',
+          userId,
+          description: 'User sent a message',
+          context: {
+            messageId,
+            conversationId: data.conversationId,
             deviceId,
-            recipientId: pendingAck.recipientId
-          });
+            ipAddress: socket.handshake.address,
+            userAgent: socket.handshake.headers['user-agent']
+          },
+          metadata: { devices: envelopes.length },
+        });
+      } catch (error: any) {
+        console.error('Error sending message bundle:', error);
+        callback?.({ success: false, error: 'Failed to send message' });
+
+        AuditLog.logEvent({
+          action: 'message.send_failure',
+          category: 'message',
+          severity: 'error',
+          status: 'failure',
+          userId,
+          description: 'Failed to send message bundle',
+          error: {
+            code: error.name,
+            message: error.message
+          },
+          context: {
+            deviceId,
+            ipAddress: socket.handshake.address,
+            userAgent: socket.handshake.headers['user-agent']
+          },
+        });
+      }
+    });
+
+    /**
+     * The stored copies of the message a control refers to. It must be a
+     * live message of the conversation; only its sender may edit it or
+     * delete it for everyone, the latter within the delete window. Returns
+     * null when the control was rejected.
+     */
+    const findControlTargets = async (
+      event: string,
+      conversationId: string,
+      control: MessageControl,
+      callback?: SocketAck
+    ): Promise<IMessageEnvelope[] | null> => {
+      const targets = await MessageEnvelope.find({
+        ...copiesOf(control.targetMessageId!),
+        conversationId,
+        deletedAt: { $exists: false },
+      });
+      const [target] = targets;
+      if (!target || target.control?.action) {
+        rejectEvent(socket, userId, event, 'Message not found', callback, { messageId: control.targetMessageId });
+        return null;
+      }
+
+      if ((control.action === 'edit' || control.scope === 'everyone') && !target.senderId.equals(userId)) {
+        rejectEvent(socket, userId, event, 'Not the sender of this message', callback, { messageId: control.targetMessageId });
+        return null;
+      }
+
+      if (control.scope === 'everyone' && Date.now() - target.createdAt.getTime() > CONFIG.DELETE_FOR_EVERYONE_WINDOW_MS) {
+        rejectEvent(socket, userId, event, 'Too late to delete for everyone', callback, { messageId: control.targetMessageId });
+        return null;
+      }
+
+      return targets;
+    };
+
+    /**
+     * Edits, deletions, reactions and disappearing-message timers. They are
+     * stored and delivered like any other message, as system messages naming
+     * their target.
+     */
+    const sendControl = async (
+      event: 'editMessage' | 'deleteMessage' | 'reactToMessage' | 'setDisappearingMessages',
+      control: MessageControl,
+      data: ControlMessage,
+      callback?: SocketAck
+    ): Promise<void> => {
+      try {
+        if (!(await requireMembership(socket, userId, event, data.conversationId, callback))) {
+          return;
+        }
+
+        const targets = control.targetMessageId
+          ? await findControlTargets(event, data.conversationId, control, callback)
+          : [];
+        if (!targets) {
+          return;
+        }
+
+        const fields = { messageType: 'system', control };
+        if ('envelopes' in data) {
+          if (control.scope === 'me' && data.recipientId !== userId) {
+            return rejectEvent(socket, userId, event, 'Deleting for me only goes to your own devices', callback, {
+              messageId: control.targetMessageId,
+            });
+          }
+
+          if (data.recipientId !== userId && !(await Conversation.isMember(data.conversationId, data.recipientId))) {
+            return rejectEvent(socket, userId, event, 'Recipient is not a member of this conversation', callback, {
+              conversationId: data.conversationId,
+            });
+          }
 
-          // Remove from pending if read
-          if (ack.status === 'read') {
-            pendingAcks.delete(ack.messageId);
+          if (!(await storeBundle(event, data, fields, callback))) {
+            return;
+          }
+        } else {
+          const existing = await MessageEnvelope.findOne({ messageId: data.messageId });
+          if (existing && !existing.senderId.equals(userId)) {
+            return rejectEvent(socket, userId, event, 'Duplicate message id', callback, { messageId: data.messageId });
+          }
+
+          const message = existing || new MessageEnvelope({
+            ...fields,
+            messageId: data.messageId,
+            conversationId: data.conversationId,
+            encryptedContent: data.encryptedContent,
+            senderKeyHeader: data.senderKeyHeader,
+            senderId: userId,
+            senderDeviceId: deviceId,
+            status: 'sent',
+          });
+          if (!existing) {
+            await message.save();
           }
+          deliverToDevices(message, await enqueueDelivery(message));
+        }
+
+        // Applied after storing, so a retry after a failure here finds the
+        // target again
+        if (control.scope === 'everyone') {
+          await MessageEnvelope.updateMany(
+            { _id: { $in: targets.map(copy => copy._id) } },
+            { deletedAt: new Date(), deletedBy: userId }
+          );
+        } else if (control.scope === 'me') {
+          await MessageEnvelope.updateMany(
+            { _id: { $in: targets.map(copy => copy._id) } },
+            { $addToSet: { deletedFor: userId } }
+          );
+        }
+
+        callback?.({ success: true, messageId: data.messageId });
+
+        AuditLog.logEvent({
+          action: CONTROL_AUDIT_ACTIONS[control.action],
+          category: 'message',
+          severity: 'info',
+          status: 'success',
+          userId,
+          resourceType: 'message',
+          resourceId: control.targetMessageId,
+          description: `User sent ${event}`,
+          context: {
+            deviceId,
+            ipAddress: socket.handshake.address,
+            userAgent: socket.handshake.headers['user-agent']
+          },
+          metadata: { conversationId: data.conversationId, scope: control.scope },
+        });
+      } catch (error: any) {
+        console.error(`Error handling ${event}:`, error);
+        callback?.({ success: false, error: 'Failed to update message' });
+
+        AuditLog.logEvent({
+          action: 'message.control_failure',
+          category: 'message',
+          severity: 'error',
+          status: 'failure',
+          userId,
+          description: `Failed to handle ${event}`,
+          error: {
+            code: error.name,
+            message: error.message
+          },
+          context: {
+            deviceId,
+            ipAddress: socket.handshake.address,
+            userAgent: socket.handshake.headers['user-agent']
+          },
+        });
+      }
+    };
+
+    socket.on('editMessage', async (payload: unknown, ack?: unknown) => {
+      const callback = ackFrom(ack);
+      const data = parsePayload(socket, userId, 'editMessage', EditMessageEventSchema, payload, callback);
+      if (!data) return;
+
+      await sendControl('editMessage', { action: 'edit', targetMessageId: data.targetMessageId }, data, callback);
+    });
+
+    socket.on('deleteMessage', async (payload: unknown, ack?: unknown) => {
+      const callback = ackFrom(ack);
+      const data = parsePayload(socket, userId, 'deleteMessage', DeleteMessageEventSchema, payload, callback);
+      if (!data) return;
+
+      await sendControl('deleteMessage', {
+        action: 'delete',
+        targetMessageId: data.targetMessageId,
+        scope: data.scope,
+      }, data, callback);
+    });
+
+    socket.on('reactToMessage', async (payload: unknown, ack?: unknown) => {
+      const callback = ackFrom(ack);
+      const data = parsePayload(socket, userId, 'reactToMessage', ReactToMessageEventSchema, payload, callback);
+      if (!data) return;
+
+      await sendControl('reactToMessage', { action: 'react', targetMessageId: data.targetMessageId }, data, callback);
+    });
+
+    socket.on('setDisappearingMessages', async (payload: unknown, ack?: unknown) => {
+      const callback = ackFrom(ack);
+      const data = parsePayload(socket, userId, 'setDisappearingMessages', SetDisappearingMessagesEventSchema, payload, callback);
+      if (!data) return;
+
+      await sendControl('setDisappearingMessages', { action: 'timer' }, data, callback);
+    });
+
+    // Group messages are encrypted once with the sender's sender key and
+    // stored as a single envelope that every member device reads
+    socket.on('sendGroupMessage', async (payload: unknown, ack?: unknown) => {
+      const callback = ackFrom(ack);
+      const data = parsePayload(socket, userId, 'sendGroupMessage', SendGroupMessageEventSchema, payload, callback);
+      if (!data) return;
+
+      try {
+        if (!(await requireMembership(socket, userId, 'sendGroupMessage', data.conversationId, callback))) {
+          return;
+        }
+
+        const messageId = data.messageId ?? crypto.randomUUID();
+        if (await isStoredRetry('sendGroupMessage', messageId, callback)) {
+          return;
+        }
+
+        const message = new MessageEnvelope({
+          ...data,
+          messageId,
+          senderId: userId,
+          senderDeviceId: deviceId,
+          status: 'sent',
+        });
+        message.expiresAt = initialExpiry(message);
+        await message.save();
+
+        // Every member device, including the sender's other devices
+        const devices = await enqueueDelivery(message);
+        await trackReceipts(message, devices);
+        deliverToDevices(message, devices);
+
+        callback?.({ success: true, messageId });
+
+        AuditLog.logEvent({
+          action: 'message.send',
+          category: 'message',
+          severity: 'info',
+          status: 'success',
+          userId,
+          description: 'User sent a group message',
+          context: {
+            deviceId,
+            ipAddress: socket.handshake.address,
+            userAgent: socket.handshake.headers['user-agent']
+          },
+          metadata: { conversationId: data.conversationId },
+        });
+      } catch (error: any) {
+        console.error('Error sending group message:', error);
+        callback?.({ success: false, error: 'Failed to send group message' });
+
+        AuditLog.logEvent({
+          action: 'message.send_failure',
+          category: 'message',
+          severity: 'error',
+          status: 'failure',
+          userId,
+          description: 'Failed to send group message',
+          error: {
+            code: error.name,
+            message: error.message
+          },
+          context: {
+            deviceId,
+            ipAddress: socket.handshake.address,
+            userAgent: socket.handshake.headers['user-agent']
+          },
+        });
+      }
+    });
+
+    // Delivery and read receipts. Legacy receipt events are routed here too.
+    const acknowledgeMessage = async (payload: unknown): Promise<void> => {
+      const ack = parsePayload(socket, userId, 'acknowledgeMessage', AcknowledgeMessageEventSchema, payload);
+      if (!ack) return;
+
+      try {
+        // Devices acknowledge bundle copies by the sender's message id
+        const message = await MessageEnvelope.findOne({
+          $or: [
+            { messageId: ack.messageId },
+            { bundleMessageId: ack.messageId, recipientDeviceId: deviceId },
+          ],
+        });
+        if (!message) return;
+
+        // Recipients acknowledge: the addressee of a pairwise envelope, or
+        // another member for a group message. The sender's other devices
+        // acknowledge their copies too, but those carry no receipts.
+        const isOwnMessage = message.senderId.equals(userId);
+        const isRecipient = isOwnMessage || (message.recipientId
+          ? message.recipientId.equals(userId)
+          : await Conversation.isMember(message.conversationId, userId));
+        if (!isRecipient) {
+          return rejectEvent(socket, userId, 'acknowledgeMessage', 'Not a recipient of this message', undefined, {
+            messageId: ack.messageId,
+          });
+        }
+
+        // The device has the message; stop redelivering it
+        await acknowledgeDelivery(deviceId, message.messageId);
+        if (isOwnMessage) return;
+
+        if (ack.status === 'read') {
+          await startExpiryTimer(message);
+        }
+
+        const update = await recordReceipt(message.messageId, userId, deviceId, ack.status);
+        if (update) {
+          emitMessageStatusUpdate(update);
         }
       } catch (error) {
         console.error('Error processing acknowledgment:', error);
       }
-    });
+    };
+
+    socket.on('acknowledgeMessage', acknowledgeMessage);
+    registerLegacyAliases(socket, acknowledgeMessage);
+
+    // WebRTC call signaling
+    registerCallHandlers(namespace, socket);
 
     // Multi-device sync request
-    socket.on('requestSync', async (data: { 
-      conversationId?: string, 
-      lastSyncTime?: Date,
-      messageCount?: number 
-    }) => {
+    socket.on('requestSync', async (payload: unknown) => {
+      const data = parsePayload(socket, userId, 'requestSync', RequestSyncEventSchema, payload);
+      if (!data) return;
+
       try {
+        if (data.conversationId && !(await requireMembership(socket, userId, 'requestSync', data.conversationId))) {
+          socket.emit('syncError', { error: 'Sync failed' });
+          return;
+        }
+
         const query: any = {
           $or: [
             { senderId: userId },
             { recipientId: userId }
           ],
-          deletedAt: { $exists: false }
+          // Pairwise copies are encrypted for one device only; sender-key
+          // group messages and single-copy envelopes name no device
+          recipientDeviceId: { $in: [deviceId, null] },
+          deletedAt: { $exists: false },
+          deletedFor: { $ne: userId }
         };
 
         if (data.conversationId) {
           query.conversationId = data.conversationId;
+          // Group messages of a conversation the user belongs to
+          query.$or.push({ 'senderKeyHeader.signature': { $exists: true } });
+        } else {
+          // Group messages of every conversation the user belongs to
+          const conversationIds = await Conversation.distinct('conversationId', { participantIds: userId });
+          query.$or.push({
+            conversationId: { $in: conversationIds },
+            'senderKeyHeader.signature': { $exists: true },
+          });
         }
 
         if (data.lastSyncTime) {
-          query.updatedAt = { $gt: new Date(data.lastSyncTime) };
+          query.updatedAt = { $gt: data.lastSyncTime };
         }
 
         const messages = await MessageEnvelope.find(query)
@@ -255,10 +826,7 @@ export function setupSocketIO(server: any) {
           .populate('recipientId', 'username displayName avatar');
 
         socket.emit('syncResponse', {
-          messages: messages.map(msg => ({
-            ...msg.toObject(),
-            _id: msg._id.toString()
-          })),
+          messages: messages.map(toEnvelopePayload),
           syncTime: new Date()
         });
       } catch (error) {
@@ -267,58 +835,38 @@ export function setupSocketIO(server: any) {
       }
     });
 
-    // Typing indicators with rooms
-    socket.on('startTyping', (data: { conversationId: string }) => {
-      socket.to(data.conversationId).emit('userStartedTyping', {
-        userId,
-        conversationId: data.conversationId,
-        timestamp: new Date()
-      });
-    });
+    // Typing indicators with rooms. Sockets are only ever in rooms of
+    // conversations they belong to, so room membership is the check here.
+    const relayTyping = (
+      event: 'startTyping' | 'stopTyping',
+      relayed: 'userStartedTyping' | 'userStoppedTyping'
+    ) => (payload: unknown) => {
+      const data = parsePayload(socket, userId, event, TypingEventSchema, payload);
+      if (!data) return;
+
+      if (!socket.rooms.has(data.conversationId)) {
+        return rejectEvent(socket, userId, event, 'Not in this conversation', undefined, {
+          conversationId: data.conversationId,
+        });
+      }
 
-    socket.on('stopTyping', (data: { conversationId: string }) => {
-      socket.to(data.conversationId).emit('userStoppedTyping', {
+      socket.to(data.conversationId).emit(relayed, {
         userId,
         conversationId: data.conversationId,
         timestamp: new Date()
       });
-    });
+    };
 
-    // Legacy support for old acknowledgment events
-    socket.on('messageDelivered', (messageId: string) => {
-      socket.emit('acknowledgeMessage', {
-        messageId,
-        status: 'delivered',
-        timestamp: new Date()
-      });
-    });
-
-    socket.on('messageRead', (messageId: string) => {
-      socket.emit('acknowledgeMessage', {
-        messageId,
-        status: 'read',
-        timestamp: new Date()
-      });
-    });
+    socket.on('startTyping', relayTyping('startTyping', 'userStartedTyping'));
+    socket.on('stopTyping', relayTyping('stopTyping', 'userStoppedTyping'));
 
     // Handle disconnects with cleanup
     socket.on('disconnect', () => {
-      const deviceInfo = deviceSocketMap.get(socket.id);
-      const deviceId = deviceInfo?.deviceId || 'unknown';
-      
       console.log(`User ${userId} (device: ${deviceId}) disconnected from messaging namespace.`);
 
-      // Remove from connected devices
-      const userSockets = connectedDevices.get(userId);
-      if (userSockets) {
-        userSockets.delete(socket.id);
-        if (userSockets.size === 0) {
-          connectedDevices.delete(userId);
-        }
-      }
-
-      // Remove device socket mapping
-      deviceSocketMap.delete(socket.id);
+      presence.disconnect(userId, deviceId, socket.id).catch(error => {
+        console.error('Error clearing presence:', error);
+      });
 
       AuditLog.logEvent({
         userId,
@@ -339,49 +887,51 @@ export function setupSocketIO(server: any) {
   return io;
 }
 
-// Utility functions for multi-device management
-export function getConnectedDevices(userId: string): string[] {
-  const sockets = connectedDevices.get(userId);
-  if (!sockets) return [];
-  
-  return Array.from(sockets).map(socketId => {
-    const deviceInfo = deviceSocketMap.get(socketId);
-    return deviceInfo?.deviceId || socketId;
-  });
+// Room membership for conversation changes made through the REST API. Each
+// user's sockets share the `user:<id>` room, so this reaches every device.
+export function joinConversationRoom(userId: string, conversationId: string): void {
+  messagingNamespace?.in(`user:${userId}`).socketsJoin(conversationId);
 }
 
-export function getUserDeviceCount(userId: string): number {
-  return connectedDevices.get(userId)?.size || 0;
+export function leaveConversationRoom(userId: string, conversationId: string): void {
+  messagingNamespace?.in(`user:${userId}`).socketsLeave(conversationId);
 }
 
-export function isUserOnline(userId: string): boolean {
-  return connectedDevices.has(userId) && connectedDevices.get(userId)!.size > 0;
+export function emitConversationUpdate(conversationId: string, update: { event: string; [key: string]: any }): void {
+  messagingNamespace?.to(conversationId).emit('conversationUpdated', { conversationId, ...update });
 }
 
-// Message acknowledgment utilities
-export function getPendingAcknowledgments(userId: string): MessageAck[] {
-  const pending: MessageAck[] = [];
-  for (const ack of pendingAcks.values()) {
-    if (ack.senderId === userId || ack.recipientId === userId) {
-      pending.push(ack);
-    }
-  }
-  return pending;
+// Devices of a user connected to any server instance
+export function getConnectedDevices(userId: string): Promise<string[]> {
+  return getPresenceService().getDevices(userId);
 }
 
-export function clearExpiredAcknowledgments(maxAge: number = 24 * 60 * 60 * 1000): number {
-  const now = new Date();
-  let cleared = 0;
-  
-  for (const [messageId, ack] of pendingAcks.entries()) {
-    if (now.getTime() - ack.timestamp.getTime() > maxAge) {
-      pendingAcks.delete(messageId);
-      cleared++;
-    }
-  }
-  
-  return cleared;
+// Call changes made through the REST API reach every participant device
+export function emitCallEnded(call: ICall, userId?: string, participantStatus?: string): void {
+  if (messagingNamespace) notifyCallEnded(messagingNamespace, call, userId, participantStatus);
 }
 
-// Offline message queueing (used by enhanced-messaging.ts)
-export { queueOfflineMessage } from './enhanced-messaging';
+export function emitCallAnswered(call: ICall, userId: string, deviceId: string): void {
+  if (messagingNamespace) notifyAnsweredElsewhere(messagingNamespace, call, userId, deviceId);
+}
+
+export function emitCallInvitation(call: ICall, userIds: string[]): void {
+  if (messagingNamespace) notifyInvited(messagingNamespace, call, userIds);
+}
+
+export function emitParticipantUpdate(
+  call: ICall,
+  participant: ICall['participants'][number],
+  change: CallParticipantUpdate['change']
+): void {
+  if (messagingNamespace) notifyParticipantUpdate(messagingNamespace, call, participant, change);
+}
+
+export function emitMuteRequest(call: ICall, participant: ICall['participants'][number], audio: boolean, video: boolean): void {
+  if (messagingNamespace) notifyMuteRequest(messagingNamespace, call, participant, audio, video);
+}
+
+// Tell the sender's devices that a recipient's receipt status changed
+export function emitMessageStatusUpdate({ senderId, ...update }: ReceiptUpdate): void {
+  messagingNamespace?.to(`user:${senderId}`).emit('messageStatusUpdate', update);
+}
@@ -0,0 +1,30 @@
+import { MessageIdEventSchema } from '@private-messaging/shared';
+import { MessagingSocket } from './types';
+import { parsePayload } from './validation';
+
+/**
+ * Compatibility layer for clients that still send receipts as
+ * `messageDelivered` / `messageRead` with a bare message id. Both are
+ * translated into an acknowledgeMessage payload and go through the same
+ * handler, so they get the same validation and recipient checks.
+ */
+export function registerLegacyAliases(
+  socket: MessagingSocket,
+  acknowledgeMessage: (payload: unknown) => Promise<void>
+): void {
+  const userId = socket.data.userId;
+
+  socket.on('messageDelivered', (payload: unknown) => {
+    const messageId = parsePayload(socket, userId, 'messageDelivered', MessageIdEventSchema, payload);
+    if (!messageId) return;
+
+    acknowledgeMessage({ messageId, status: 'delivered', timestamp: new Date() });
+  });
+
+  socket.on('messageRead', (payload: unknown) => {
+    const messageId = parsePayload(socket, userId, 'messageRead', MessageIdEventSchema, payload);
+    if (!messageId) return;
+
+    acknowledgeMessage({ messageId, status: 'read', timestamp: new Date() });
+  });
+}
@@ -0,0 +1,21 @@
+import { Namespace, Socket } from 'socket.io';
+import {
+  ClientToServerEvents,
+  LegacyClientToServerEvents,
+  ServerToClientEvents,
+  MessagingSocketData
+} from '@private-messaging/shared';
+
+export type MessagingNamespace = Namespace<
+  ClientToServerEvents & LegacyClientToServerEvents,
+  ServerToClientEvents,
+  {},
+  MessagingSocketData
+>;
+
+export type MessagingSocket = Socket<
+  ClientToServerEvents & LegacyClientToServerEvents,
+  ServerToClientEvents,
+  {},
+  MessagingSocketData
+>;
@@ -0,0 +1,99 @@
+import { ZodType, ZodTypeDef } from 'zod';
+import { SocketAckCallback } from '@private-messaging/shared';
+import { AuditLog, Conversation } from '../models';
+import { MessagingSocket } from './types';
+
+export type SocketAck = SocketAckCallback;
+
+// Acks are optional on every event; ignore anything that is not a function
+export const ackFrom = (callback: unknown): SocketAck | undefined =>
+  typeof callback === 'function' ? callback as SocketAck : undefined;
+
+/**
+ * Record a rejected socket event and answer its ack, if any
+ */
+export function rejectEvent(
+  socket: MessagingSocket,
+  userId: string,
+  event: string,
+  reason: string,
+  callback?: SocketAck,
+  metadata?: Record<string, any>
+): void {
+  callback?.({ success: false, error: reason });
+
+  AuditLog.logEvent({
+    userId,
+    action: 'socket.event_rejected',
+    category: 'security',
+    severity: 'warning',
+    status: 'failure',
+    description: `Rejected ${event} event: ${reason}`,
+    metadata: { event, ...metadata },
+    context: {
+      ipAddress: socket.handshake.address,
+      userAgent: socket.handshake.headers['user-agent']
+    },
+  });
+}
+
+/**
+ * Parse an event payload against its schema. Invalid payloads are rejected
+ * and null is returned.
+ */
+export function parsePayload<T>(
+  socket: MessagingSocket,
+  userId: string,
+  event: string,
+  schema: ZodType<T, ZodTypeDef, any>,
+  payload: unknown,
+  callback?: SocketAck
+): T | null {
+  const result = schema.safeParse(payload);
+  if (result.success) {
+    return result.data;
+  }
+
+  rejectEvent(socket, userId, event, 'Invalid payload', callback, {
+    issues: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+  });
+  return null;
+}
+
+/**
+ * Check that the user belongs to a conversation before acting on its room.
+ * Non-members are rejected.
+ */
+export async function requireMembership(
+  socket: MessagingSocket,
+  userId: string,
+  event: string,
+  conversationId: string,
+  callback?: SocketAck
+): Promise<boolean> {
+  if (await Conversation.isMember(conversationId, userId)) {
+    return true;
+  }
+
+  rejectEvent(socket, userId, event, 'Not a member of this conversation', callback, { conversationId });
+  return false;
+}
+
+// Join only the requested rooms of conversations the user belongs to and
+// reject the rest
+export async function joinMemberConversations(
+  socket: MessagingSocket,
+  userId: string,
+  event: string,
+  conversationIds: string[]
+): Promise<string[]> {
+  const allowed = await Conversation.filterMemberConversations(conversationIds, userId);
+  allowed.forEach(conversationId => socket.join(conversationId));
+
+  const denied = conversationIds.filter(id => !allowed.includes(id));
+  if (denied.length > 0) {
+    rejectEvent(socket, userId, event, 'Not a member of some conversations', undefined, { conversationIds: denied });
+  }
+
+  return allowed;
+}
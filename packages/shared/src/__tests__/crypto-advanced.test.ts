@@ -14,6 +14,12 @@ import {
   initializeDoubleRatchet,
   encryptMessage as ratchetEncrypt,
   decryptMessage as ratchetDecrypt,
+  packMessageHeader,
+  unpackMessageHeader,
+  serializeRatchetState,
+  deserializeRatchetState,
+  RATCHET_STATE_VERSION,
+  DEFAULT_RATCHET_LIMITS,
 } from '../crypto/double-ratchet';
 
 import {
@@ -32,6 +38,30 @@ import {
   EncryptedChunk,
 } from '../crypto/sdk';
 
+import {
+  InMemorySessionStore,
+  SessionManager,
+  SessionEntry,
+} from '../crypto/session-store';
+
+import {
+  createSenderKey,
+  createSenderKeyDistribution,
+  processSenderKeyDistribution,
+  senderKeyEncrypt,
+  senderKeyDecrypt,
+  GroupSessionManager,
+  InMemorySenderKeyStore,
+} from '../crypto/sender-keys';
+
+import {
+  createCallKey,
+  createCallKeyDistribution,
+  processCallKeyDistribution,
+  deriveFrameKey,
+  CallKeyRing,
+} from '../crypto/call-keys';
+
 import { hybridEncrypt, hybridDecrypt } from '../crypto/hybrid';
 import sodium from 'libsodium-wrappers';
 
@@ -157,6 +187,319 @@ describe('Advanced Cryptography Suite', () => {
       expect(decrypted2.plaintext).toBe(message2);
       expect(decrypted3.plaintext).toBe(message3);
     });
+
+    it('should round-trip headers through envelope fields', async () => {
+      const envelopeHeader = {
+        dhPublicKey: sodium.to_base64(sodium.randombytes_buf(32)),
+        previousChainLength: 3,
+        messageNumber: 42,
+      };
+
+      const packed = await packMessageHeader(envelopeHeader);
+      const unpacked = await unpackMessageHeader(packed);
+
+      expect(unpacked).toEqual(envelopeHeader);
+      expect(await packMessageHeader(unpacked)).toBe(packed);
+    });
+  });
+
+  describe('Skipped Message Keys', () => {
+    // Both sides of a ratchet, set up the way X3DH leaves them
+    const createRatchetPair = async () => {
+      const rootKey = sodium.randombytes_buf(32);
+      const bobRatchetKeyPair = sodium.crypto_box_keypair();
+
+      const alice = await initializeDoubleRatchet(rootKey, true, bobRatchetKeyPair.publicKey);
+      const bob = await initializeDoubleRatchet(rootKey, false, undefined, {
+        publicKey: bobRatchetKeyPair.publicKey,
+        privateKey: bobRatchetKeyPair.privateKey,
+      });
+
+      return { alice, bob };
+    };
+
+    const encryptAll = async (state: any, messages: string[]) => {
+      const encrypted = [];
+      for (const message of messages) {
+        const result = await ratchetEncrypt(state, message);
+        encrypted.push(result.message);
+        state = result.newState;
+      }
+      return { encrypted, state };
+    };
+
+    it('should reject headers that skip more than MAX_SKIP messages', async () => {
+      const { alice, bob } = await createRatchetPair();
+      const { message } = await ratchetEncrypt(alice, 'hello');
+
+      const header = await unpackMessageHeader(message.header);
+      const forged = {
+        ...message,
+        header: await packMessageHeader({ ...header, messageNumber: DEFAULT_RATCHET_LIMITS.maxSkip + 1 }),
+      };
+
+      await expect(ratchetDecrypt(bob, forged)).rejects.toThrow('Too many skipped messages');
+      expect(bob.skippedKeys.size).toBe(0);
+
+      // The untouched state still decrypts the genuine message
+      const decrypted = await ratchetDecrypt(bob, message);
+      expect(decrypted.plaintext).toBe('hello');
+    });
+
+    it('should keep keys from the previous chain across a DH ratchet step', async () => {
+      let { alice, bob } = await createRatchetPair();
+
+      const first = await encryptAll(alice, ['a1', 'a2', 'a3']);
+      alice = first.state;
+
+      const a1 = await ratchetDecrypt(bob, first.encrypted[0]);
+      bob = a1.newState;
+
+      // Bob replies, so Alice's next message starts a new chain
+      const reply = await ratchetEncrypt(bob, 'b1');
+      bob = reply.newState;
+      const b1 = await ratchetDecrypt(alice, reply.message);
+      alice = b1.newState;
+
+      const second = await ratchetEncrypt(alice, 'a4');
+      expect((await unpackMessageHeader(second.message.header)).previousChainLength).toBe(3);
+
+      // a4 arrives before a2 and a3 from the previous chain
+      const a4 = await ratchetDecrypt(bob, second.message);
+      const a3 = await ratchetDecrypt(a4.newState, first.encrypted[2]);
+      const a2 = await ratchetDecrypt(a3.newState, first.encrypted[1]);
+
+      expect([a1.plaintext, b1.plaintext, a4.plaintext, a3.plaintext, a2.plaintext])
+        .toEqual(['a1', 'b1', 'a4', 'a3', 'a2']);
+      expect(a2.newState.skippedKeys.size).toBe(0);
+    });
+
+    it('should evict the oldest skipped keys beyond the global cap', async () => {
+      const { alice, bob } = await createRatchetPair();
+      const limits = { maxSkip: 10, maxSkippedKeys: 5 };
+
+      const { encrypted } = await encryptAll(alice, ['m0', 'm1', 'm2', 'm3', 'm4', 'm5', 'm6', 'm7']);
+
+      const last = await ratchetDecrypt(bob, encrypted[7], limits);
+      expect(last.newState.skippedKeys.size).toBe(5);
+
+      // m0 and m1 were evicted; m2 onwards are still available
+      await expect(ratchetDecrypt(last.newState, encrypted[0], limits)).rejects.toThrow();
+      await expect(ratchetDecrypt(last.newState, encrypted[1], limits)).rejects.toThrow();
+      const m2 = await ratchetDecrypt(last.newState, encrypted[2], limits);
+      expect(m2.plaintext).toBe('m2');
+      expect(m2.newState.skippedKeys.size).toBe(4);
+    });
+  });
+
+  describe('Sender Keys', () => {
+    const encryptAll = async (state: any, messages: string[]) => {
+      const encrypted = [];
+      for (const message of messages) {
+        const result = await senderKeyEncrypt(state, message);
+        encrypted.push(result.message);
+        state = result.newState;
+      }
+      return { encrypted, state };
+    };
+
+    it('should let every member decrypt the same ciphertext', async () => {
+      const alice = await createSenderKey('group-1');
+      const distribution = await createSenderKeyDistribution(alice);
+
+      const bob = await processSenderKeyDistribution(distribution);
+      const carol = await processSenderKeyDistribution(distribution);
+      expect(bob.signingKey.privateKey).toBeUndefined();
+
+      const { message } = await senderKeyEncrypt(alice, 'hello group');
+
+      expect((await senderKeyDecrypt(bob, message)).plaintext).toBe('hello group');
+      expect((await senderKeyDecrypt(carol, message)).plaintext).toBe('hello group');
+    });
+
+    it('should reject messages with an invalid signature', async () => {
+      const alice = await createSenderKey('group-1');
+      const bob = await processSenderKeyDistribution(await createSenderKeyDistribution(alice));
+
+      const { message } = await senderKeyEncrypt(alice, 'hello');
+      const forger = await createSenderKey('group-1');
+      const forged = {
+        ...message,
+        signature: sodium.to_base64(sodium.crypto_sign_detached(
+          sodium.from_base64(message.ciphertext),
+          forger.signingKey.privateKey!
+        )),
+      };
+
+      await expect(senderKeyDecrypt(bob, forged)).rejects.toThrow('Invalid sender key message signature');
+
+      // Members cannot encrypt with a received chain
+      await expect(senderKeyEncrypt(bob, 'spoofed')).rejects.toThrow();
+    });
+
+    it('should decrypt out of order and bound skipped iterations', async () => {
+      const alice = await createSenderKey('group-1');
+      const bob = await processSenderKeyDistribution(await createSenderKeyDistribution(alice));
+      const limits = { maxSkip: 3, maxSkippedKeys: 10 };
+
+      const { encrypted } = await encryptAll(alice, ['m0', 'm1', 'm2', 'm3', 'm4']);
+
+      await expect(senderKeyDecrypt(bob, encrypted[4], limits)).rejects.toThrow('Too many skipped messages');
+
+      const m2 = await senderKeyDecrypt(bob, encrypted[2], limits);
+      const m0 = await senderKeyDecrypt(m2.newState, encrypted[0], limits);
+      const m1 = await senderKeyDecrypt(m0.newState, encrypted[1], limits);
+
+      expect([m2.plaintext, m0.plaintext, m1.plaintext]).toEqual(['m2', 'm0', 'm1']);
+      expect(m1.newState.skippedKeys.size).toBe(0);
+
+      // Each message key is used once
+      await expect(senderKeyDecrypt(m1.newState, encrypted[0], limits)).rejects.toThrow();
+    });
+
+    it('should rekey so departed members cannot read new messages', async () => {
+      const identity = {} as any; // Distributions are exchanged directly below
+      const aliceAddress = { userId: 'alice', deviceId: 'phone' };
+      const bobAddress = { userId: 'bob', deviceId: 'laptop' };
+
+      const alice = new GroupSessionManager(
+        aliceAddress, new SessionManager(identity, new InMemorySessionStore()), new InMemorySenderKeyStore()
+      );
+      const bob = new GroupSessionManager(
+        bobAddress, new SessionManager(identity, new InMemorySessionStore()), new InMemorySenderKeyStore()
+      );
+      const carol = new GroupSessionManager(
+        { userId: 'carol', deviceId: 'web' }, new SessionManager(identity, new InMemorySessionStore()), new InMemorySenderKeyStore()
+      );
+
+      const firstKey = await alice.getDistribution('group-1');
+      await bob.processDistribution(aliceAddress, firstKey);
+      await carol.processDistribution(aliceAddress, firstKey);
+      await carol.processDistribution(bobAddress, await bob.getDistribution('group-1'));
+
+      const before = await alice.encrypt('group-1', 'before');
+      expect(await bob.decrypt('group-1', aliceAddress, before)).toBe('before');
+      expect(await carol.decrypt('group-1', aliceAddress, before)).toBe('before');
+
+      // Carol leaves; Alice forgets Carol's chains and rekeys for Bob only
+      await alice.removeMember('group-1', 'carol');
+      await bob.processDistribution(aliceAddress, await alice.getDistribution('group-1'));
+
+      const after = await alice.encrypt('group-1', 'after');
+      expect(after.keyId).not.toBe(before.keyId);
+      expect(await bob.decrypt('group-1', aliceAddress, after)).toBe('after');
+      await expect(carol.decrypt('group-1', aliceAddress, after)).rejects.toThrow('No sender key');
+    });
+  });
+
+  describe('Call Keys', () => {
+    it('should carry a call key to another device', async () => {
+      const callKey = await createCallKey('call-1');
+      const received = await processCallKeyDistribution(await createCallKeyDistribution(callKey), 'call-1');
+
+      expect(callKey.epoch).toBe(1);
+      expect(received.epoch).toBe(1);
+      expect(sodium.to_base64(received.key)).toBe(sodium.to_base64(callKey.key));
+    });
+
+    it('should reject distributions for another call', async () => {
+      const distribution = await createCallKeyDistribution(await createCallKey('call-1'));
+
+      await expect(processCallKeyDistribution(distribution, 'call-2')).rejects.toThrow('Call key is for another call');
+    });
+
+    it('should draw an unrelated key for every epoch', async () => {
+      const first = await createCallKey('call-1');
+      const second = await createCallKey('call-1', first);
+
+      expect(second.epoch).toBe(2);
+      expect(sodium.to_base64(second.key)).not.toBe(sodium.to_base64(first.key));
+    });
+
+    it('should derive a separate frame key per sender device', async () => {
+      const callKey = await createCallKey('call-1');
+      const phone = await deriveFrameKey(callKey, { userId: 'alice', deviceId: 'phone' });
+      const laptop = await deriveFrameKey(callKey, { userId: 'alice', deviceId: 'laptop' });
+
+      expect(phone.length).toBe(32);
+      expect(sodium.to_base64(phone)).not.toBe(sodium.to_base64(laptop));
+      expect(sodium.to_base64(await deriveFrameKey(callKey, { userId: 'alice', deviceId: 'phone' })))
+        .toBe(sodium.to_base64(phone));
+    });
+
+    it('should only move forward and keep a few recent epochs', async () => {
+      const ring = new CallKeyRing(2);
+      const first = await createCallKey('call-1');
+      const second = await createCallKey('call-1', first);
+      const third = await createCallKey('call-1', second);
+
+      expect(ring.add(second)).toBe(true);
+      expect(ring.add(first)).toBe(false);
+      expect(ring.add(third)).toBe(true);
+
+      expect(ring.current('call-1')?.epoch).toBe(3);
+      expect(ring.get('call-1', 2)).toBeDefined();
+
+      expect(ring.add(await createCallKey('call-1', third))).toBe(true);
+      expect(ring.get('call-1', 3)).toBeDefined();
+      expect(ring.get('call-1', 2)).toBeUndefined();
+
+      ring.remove('call-1');
+      expect(ring.current('call-1')).toBeUndefined();
+    });
+  });
+
+  describe('Ratchet State Serialization', () => {
+    const makeState = async () => {
+      const state = await initializeDoubleRatchet(sodium.randombytes_buf(32), false);
+      state.sendingChain = { chainKey: sodium.randombytes_buf(32), messageNumber: 5 };
+      state.receivingChain = { chainKey: sodium.randombytes_buf(32), messageNumber: 3 };
+      state.receivingRatchetKey = sodium.randombytes_buf(32);
+      state.previousCounter = 2;
+      state.messageNumber = 7;
+      state.skippedKeys.set('key-b-4', sodium.randombytes_buf(32));
+      state.skippedKeys.set('key-a-1', sodium.randombytes_buf(32));
+      return state;
+    };
+
+    it('should round-trip state without loss', async () => {
+      const state = await makeState();
+
+      const serialized = await serializeRatchetState(state);
+      const restored = await deserializeRatchetState(serialized);
+
+      expect(JSON.parse(serialized).version).toBe(RATCHET_STATE_VERSION);
+      expect(restored).toEqual(state);
+      expect(Array.from(restored.skippedKeys.keys())).toEqual(['key-b-4', 'key-a-1']);
+      expect(await serializeRatchetState(restored)).toBe(serialized);
+    });
+
+    it('should round-trip state without a receiving chain', async () => {
+      const state = await initializeDoubleRatchet(sodium.randombytes_buf(32), false);
+
+      const restored = await deserializeRatchetState(await serializeRatchetState(state));
+
+      expect(restored).toEqual(state);
+      expect(restored.receivingRatchetKey).toBeNull();
+    });
+
+    it('should wrap state with a passphrase', async () => {
+      const state = await makeState();
+
+      const wrapped = await serializeRatchetState(state, 'correct horse battery staple');
+
+      expect(wrapped).not.toContain(sodium.to_base64(state.rootKey));
+      expect(await deserializeRatchetState(wrapped, 'correct horse battery staple')).toEqual(state);
+      await expect(deserializeRatchetState(wrapped, 'wrong passphrase')).rejects.toThrow('wrong passphrase');
+      await expect(deserializeRatchetState(wrapped)).rejects.toThrow('passphrase protected');
+    }, 30000); // Key derivation is deliberately slow
+
+    it('should reject unknown format versions', async () => {
+      const data = JSON.parse(await serializeRatchetState(await makeState()));
+      data.version = RATCHET_STATE_VERSION + 1;
+
+      await expect(deserializeRatchetState(JSON.stringify(data))).rejects.toThrow('Unsupported ratchet state version');
+    });
   });
 
   describe('Device Identity Management', () => {
@@ -349,6 +692,46 @@ describe('Advanced Cryptography Suite', () => {
     });
   });
 
+  describe('Session Store', () => {
+    const makeEntry = (userId: string, deviceId: string, active: boolean): SessionEntry => ({
+      address: { userId, deviceId },
+      active: active ? {
+        baseKey: `${userId}-${deviceId}`,
+        initiator: true,
+        remoteIdentityKey: 'identity',
+        state: {} as any,
+        createdAt: Date.now(),
+        lastUsedAt: Date.now(),
+      } : null,
+      archived: [],
+    });
+
+    it('should keep independent sessions per peer device', async () => {
+      const store = new InMemorySessionStore();
+
+      await store.save(makeEntry('bob', 'phone', true));
+      await store.save(makeEntry('bob', 'laptop', true));
+      await store.save(makeEntry('bob', 'tablet', false));
+      await store.save(makeEntry('carol', 'phone', true));
+
+      expect((await store.listDevices('bob')).sort()).toEqual(['laptop', 'phone']);
+      expect((await store.load({ userId: 'bob', deviceId: 'laptop' }))?.active?.baseKey).toBe('bob-laptop');
+
+      await store.remove({ userId: 'bob', deviceId: 'phone' });
+      expect(await store.load({ userId: 'bob', deviceId: 'phone' })).toBeNull();
+      expect(await store.listDevices('bob')).toEqual(['laptop']);
+    });
+
+    it('should refuse to use a missing session', async () => {
+      const manager = new SessionManager({} as any, new InMemorySessionStore());
+      const address = { userId: 'bob', deviceId: 'phone' };
+
+      expect(await manager.hasSession(address)).toBe(false);
+      await expect(manager.encrypt(address, 'hello')).rejects.toThrow('No session');
+      await expect(manager.decrypt(address, { header: '', ciphertext: '' })).rejects.toThrow('No session');
+    });
+  });
+
   describe('Wycheproof Test Vectors', () => {
     // Simplified Wycheproof-style tests
     it('should handle AES-GCM test vectors correctly', async () => {
@@ -31,28 +31,43 @@ export const API_ENDPOINTS = {
   },
 } as const;
 
-// Socket events
+// Socket events. Messaging events are the wire names of the /messaging
+// namespace; see socket-events.ts for their payloads.
 export const SOCKET_EVENTS = {
   // Connection
   CONNECT: 'connect',
   DISCONNECT: 'disconnect',
   RECONNECT: 'reconnect',
   
-  // Authentication
-  AUTHENTICATE: 'authenticate',
-  AUTHENTICATED: 'authenticated',
-  AUTHENTICATION_ERROR: 'authentication_error',
-  
-  // Messages
-  MESSAGE_SEND: 'message:send',
-  MESSAGE_RECEIVE: 'message:receive',
-  MESSAGE_READ: 'message:read',
-  MESSAGE_TYPING: 'message:typing',
-  
-  // Conversations
-  CONVERSATION_JOIN: 'conversation:join',
-  CONVERSATION_LEAVE: 'conversation:leave',
-  CONVERSATION_TYPING: 'conversation:typing',
+  // Messaging (client to server)
+  REGISTER_DEVICE: 'registerDevice',
+  JOIN_CONVERSATIONS: 'joinConversations',
+  SEND_MESSAGE: 'sendMessage',
+  SEND_MESSAGE_BUNDLE: 'sendMessageBundle',
+  SEND_GROUP_MESSAGE: 'sendGroupMessage',
+  EDIT_MESSAGE: 'editMessage',
+  DELETE_MESSAGE: 'deleteMessage',
+  REACT_TO_MESSAGE: 'reactToMessage',
+  SET_DISAPPEARING_MESSAGES: 'setDisappearingMessages',
+  ACKNOWLEDGE_MESSAGE: 'acknowledgeMessage',
+  REQUEST_SYNC: 'requestSync',
+  START_TYPING: 'startTyping',
+  STOP_TYPING: 'stopTyping',
+  PRESENCE_HEARTBEAT: 'presence:heartbeat',
+  
+  // Messaging (server to client)
+  NEW_MESSAGE: 'newMessage',
+  MESSAGE_SYNC: 'messageSync',
+  MESSAGE_STATUS_UPDATE: 'messageStatusUpdate',
+  SYNC_RESPONSE: 'syncResponse',
+  SYNC_ERROR: 'syncError',
+  USER_STARTED_TYPING: 'userStartedTyping',
+  USER_STOPPED_TYPING: 'userStoppedTyping',
+  CONVERSATION_UPDATED: 'conversationUpdated',
+  
+  // Legacy aliases of acknowledgeMessage
+  MESSAGE_DELIVERED: 'messageDelivered',
+  MESSAGE_READ: 'messageRead',
   
   // WebRTC
   WEBRTC_OFFER: 'webrtc:offer',
@@ -60,6 +75,12 @@ export const SOCKET_EVENTS = {
   WEBRTC_ICE_CANDIDATE: 'webrtc:ice-candidate',
   WEBRTC_CALL_START: 'webrtc:call-start',
   WEBRTC_CALL_END: 'webrtc:call-end',
+  WEBRTC_ANSWERED_ELSEWHERE: 'webrtc:answered-elsewhere',
+  WEBRTC_CALL_KEY: 'webrtc:call-key',
+  WEBRTC_STATS: 'webrtc:stats',
+  WEBRTC_MEDIA: 'webrtc:media',
+  WEBRTC_PARTICIPANT_UPDATE: 'webrtc:participant-update',
+  WEBRTC_MUTE_REQUEST: 'webrtc:mute-request',
   
   // User status
   USER_STATUS: 'user:status',
@@ -126,12 +147,37 @@ export const CONFIG = {
   MAX_USERNAME_LENGTH: 20,
   MIN_USERNAME_LENGTH: 3,
   MIN_PASSWORD_LENGTH: 8,
+
+  // Group conversations
+  MAX_GROUP_PARTICIPANTS: 256,
+
+  // Presence. A device is offline once it misses heartbeats for the TTL.
+  PRESENCE_HEARTBEAT_INTERVAL_MS: 30 * 1000,
+  PRESENCE_TTL_MS: 90 * 1000,
+
+  // Senders may delete a message for everyone this long after sending it
+  DELETE_FOR_EVERYONE_WINDOW_MS: 48 * 60 * 60 * 1000,
+
+  // Disappearing messages, in seconds after the message is read
+  DISAPPEARING_MESSAGES_MIN_SECONDS: 5,
+  DISAPPEARING_MESSAGES_MAX_SECONDS: 4 * 7 * 24 * 60 * 60,
+  DISAPPEARING_MESSAGES_SWEEP_INTERVAL_MS: 5 * 1000, // Local cleanup on clients
+
+  // Unanswered calls are marked missed after ringing this long
+  CALL_RING_TIMEOUT_MS: 45 * 1000,
+  MAX_CALL_PARTICIPANTS: 8, // Including the host; MAX_CALL_PARTICIPANTS on the server overrides it
+
+  // Call quality samples from participants
+  CALL_STATS_MIN_INTERVAL_MS: 2 * 1000, // Closer samples from one participant are dropped
+  CALL_QUALITY_WINDOW_SAMPLES: 5, // Recent samples connectionQuality is judged on
+  CALL_QUALITY_SAMPLE_RETENTION_DAYS: 90,
   
   // WebRTC
   STUN_SERVERS: [
     'stun:stun.l.google.com:19302',
     'stun:stun1.l.google.com:19302',
   ],
+  TURN_CREDENTIAL_TTL_SECONDS: 60 * 60, // Minted per user and call
   
   // Rate limiting
   RATE_LIMIT_WINDOW_MS: 15 * 60 * 1000, // 15 minutes
@@ -188,6 +234,4 @@ export const ENV_DEFAULTS = {
   JWT_SECRET: 'your-jwt-secret-change-in-production',
   REDIS_URL: 'redis://localhost:6379',
   TURN_SERVER_URL: 'turn:localhost:3478',
-  TURN_SERVER_USERNAME: 'testuser',
-  TURN_SERVER_CREDENTIAL: 'testpass',
 } as const;
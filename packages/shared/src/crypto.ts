@@ -4,6 +4,9 @@ export * from './crypto/identity';
 export * from './crypto/x3dh';
 export * from './crypto/hybrid';
 export * from './crypto/sdk';
+export * from './crypto/session-store';
+export * from './crypto/sender-keys';
+export * from './crypto/call-keys';
 
 // Legacy crypto functions (kept for backward compatibility)
 import CryptoJS from 'crypto-js';
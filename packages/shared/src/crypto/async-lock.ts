@@ -0,0 +1,22 @@
+/**
+ * Runs async operations one at a time per key; operations on different keys
+ * run concurrently
+ */
+export class AsyncLock {
+  private tails = new Map<string, Promise<void>>();
+
+  async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const run = previous.then(fn);
+    const tail = run.then(() => undefined, () => undefined);
+    this.tails.set(key, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
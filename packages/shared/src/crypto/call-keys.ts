@@ -0,0 +1,123 @@
+import sodium from 'libsodium-wrappers';
+import { initSodium } from './x3dh';
+import { SessionAddress } from './session-store';
+
+// Epochs kept per call, so frames sent just before a rotation still decrypt
+export const MAX_CALL_KEY_EPOCHS = 3;
+
+const CALL_KEY_BYTES = 32;
+
+// The caller's frame-encryption key for one epoch of a call. Every rotation
+// draws a fresh random key, so departed participants learn nothing about it.
+export interface CallKey {
+  callId: string;
+  epoch: number;
+  key: Uint8Array;
+}
+
+// Sent to each participant device over its pairwise session
+export interface CallKeyDistribution {
+  callId: string;
+  epoch: number;
+  key: string; // base64
+}
+
+/**
+ * Create the key for a call's next epoch; the first key has epoch 1
+ */
+export async function createCallKey(callId: string, previous?: CallKey): Promise<CallKey> {
+  await initSodium();
+
+  return {
+    callId,
+    epoch: (previous?.epoch ?? 0) + 1,
+    key: sodium.randombytes_buf(CALL_KEY_BYTES),
+  };
+}
+
+export async function createCallKeyDistribution(callKey: CallKey): Promise<string> {
+  await initSodium();
+
+  const distribution: CallKeyDistribution = {
+    callId: callKey.callId,
+    epoch: callKey.epoch,
+    key: sodium.to_base64(callKey.key),
+  };
+
+  return JSON.stringify(distribution);
+}
+
+/**
+ * Read a distribution message. It must be for the call it arrived on, so a
+ * key cannot be replayed into another call.
+ */
+export async function processCallKeyDistribution(serialized: string, callId: string): Promise<CallKey> {
+  await initSodium();
+
+  const distribution: CallKeyDistribution = JSON.parse(serialized);
+  if (distribution.callId !== callId) {
+    throw new Error('Call key is for another call');
+  }
+  if (!Number.isInteger(distribution.epoch) || distribution.epoch < 1) {
+    throw new Error('Invalid call key epoch');
+  }
+
+  const key = sodium.from_base64(distribution.key);
+  if (key.length !== CALL_KEY_BYTES) {
+    throw new Error('Invalid call key length');
+  }
+
+  return { callId, epoch: distribution.epoch, key };
+}
+
+/**
+ * Key one participant device encrypts its frames with. Every sender derives
+ * its own key from the call key, so senders never share nonce space.
+ */
+export async function deriveFrameKey(callKey: CallKey, sender: SessionAddress): Promise<Uint8Array> {
+  await initSodium();
+
+  return sodium.crypto_generichash(
+    CALL_KEY_BYTES,
+    sodium.from_string(`frame:${callKey.callId}:${callKey.epoch}:${sender.userId}:${sender.deviceId}`),
+    callKey.key
+  );
+}
+
+/**
+ * Call keys received on this device, newest epoch first. Keys only move
+ * forward: a distribution for an epoch at or below the newest one is
+ * ignored.
+ */
+export class CallKeyRing {
+  private keys = new Map<string, CallKey[]>();
+
+  constructor(private maxEpochs: number = MAX_CALL_KEY_EPOCHS) {}
+
+  // Returns whether the key was newer than what we had
+  add(callKey: CallKey): boolean {
+    const keys = this.keys.get(callKey.callId) || [];
+    if (keys.length > 0 && callKey.epoch <= keys[0].epoch) {
+      return false;
+    }
+
+    const kept = [callKey, ...keys];
+    kept.splice(this.maxEpochs).forEach(dropped => sodium.memzero(dropped.key));
+    this.keys.set(callKey.callId, kept);
+    return true;
+  }
+
+  current(callId: string): CallKey | undefined {
+    return this.keys.get(callId)?.[0];
+  }
+
+  get(callId: string, epoch: number): CallKey | undefined {
+    return this.keys.get(callId)?.find(callKey => callKey.epoch === epoch);
+  }
+
+  // Forget a call's keys once it is over
+  remove(callId: string): void {
+    this.keys.get(callId)?.forEach(callKey => sodium.memzero(callKey.key));
+    this.keys.delete(callId);
+  }
+}
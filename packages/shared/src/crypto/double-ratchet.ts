@@ -1,4 +1,5 @@
 import sodium from 'libsodium-wrappers';
+import CryptoJS from 'crypto-js';
 import { initSodium, X3DHKeyPair } from './x3dh';
 
 export interface DoubleRatchetState {
@@ -33,19 +34,68 @@ export interface EncryptedMessage {
   ciphertext: string; // base64 encoded ciphertext
 }
 
+// Bounds on stored keys for skipped (out-of-order or lost) messages
+export interface RatchetLimits {
+  maxSkip: number; // Most messages a single header may skip
+  maxSkippedKeys: number; // Most skipped keys kept across all chains
+}
+
+export const DEFAULT_RATCHET_LIMITS: RatchetLimits = {
+  maxSkip: 1000,
+  maxSkippedKeys: 2000,
+};
+
+// Current version of the persisted ratchet state format
+export const RATCHET_STATE_VERSION = 1;
+
+const STATE_WRAP_ITERATIONS = 100000;
+
+// Persisted form of DoubleRatchetState; byte arrays are base64 and skipped
+// keys keep their insertion order
+interface SerializedRatchetState {
+  version: number;
+  rootKey: string;
+  sendingChain: { chainKey: string; messageNumber: number };
+  receivingChain: { chainKey: string; messageNumber: number };
+  sendingRatchetKey: { publicKey: string; privateKey: string };
+  receivingRatchetKey: string | null;
+  previousCounter: number;
+  skippedKeys: Array<[string, string]>;
+  messageNumber: number;
+}
+
+// Passphrase-wrapped serialized state
+interface WrappedRatchetState {
+  version: number;
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+// Header as carried in a message envelope's doubleRatchetHeader
+export interface EnvelopeHeader {
+  dhPublicKey: string; // base64 ratchet public key
+  previousChainLength: number;
+  messageNumber: number;
+}
+
 /**
- * Initialize Double Ratchet state from X3DH session
+ * Initialize Double Ratchet state from X3DH session. The responder passes the
+ * key pair the initiator ratchets against (its signed prekey).
  */
 export async function initializeDoubleRatchet(
   rootKey: Uint8Array,
   isInitiator: boolean,
-  theirRatchetKey?: Uint8Array
+  theirRatchetKey?: Uint8Array,
+  ourRatchetKeyPair?: X3DHKeyPair
 ): Promise<DoubleRatchetState> {
   await initSodium();
   
-  const initialRatchetKeyPair = sodium.crypto_box_keypair();
+  const initialRatchetKeyPair = ourRatchetKeyPair || sodium.crypto_box_keypair();
   
-  let state: DoubleRatchetState = {
+  const state: DoubleRatchetState = {
     rootKey,
     sendingChain: { chainKey: new Uint8Array(32), messageNumber: 0 },
     receivingChain: { chainKey: new Uint8Array(32), messageNumber: 0 },
@@ -60,15 +110,23 @@ export async function initializeDoubleRatchet(
   };
 
   if (isInitiator && theirRatchetKey) {
-    // Perform initial DH ratchet step
-    state = await performDHRatchetStep(state, theirRatchetKey);
+    // Initial sending chain against the responder's ratchet key
+    const sending = kdfRootKey(
+      rootKey,
+      sodium.crypto_scalarmult(initialRatchetKeyPair.privateKey, theirRatchetKey)
+    );
+
+    state.rootKey = sending.rootKey;
+    state.sendingChain = { chainKey: sending.chainKey, messageNumber: 0 };
+    state.receivingRatchetKey = theirRatchetKey;
   }
 
   return state;
 }
 
 /**
- * Perform DH ratchet step
+ * Perform DH ratchet step on receiving a new ratchet key: derive the receiving
+ * chain from it, then start a new sending chain with a fresh key pair
  */
 async function performDHRatchetStep(
   state: DoubleRatchetState,
@@ -76,31 +134,43 @@ async function performDHRatchetStep(
 ): Promise<DoubleRatchetState> {
   await initSodium();
   
-  // Store previous chain for skipped message keys
-  state.previousCounter = state.sendingChain.messageNumber;
+  const receiving = kdfRootKey(
+    state.rootKey,
+    sodium.crypto_scalarmult(state.sendingRatchetKey.privateKey, theirRatchetKey)
+  );
   
   // Generate new ratchet key pair
   const newRatchetKeyPair = sodium.crypto_box_keypair();
   
-  // Compute DH shared secret
-  const dhOutput = sodium.crypto_scalarmult(newRatchetKeyPair.privateKey, theirRatchetKey);
-  
-  // KDF ratchet
-  const kdfOutput = sodium.crypto_kdf_derive_from_key(64, 1, 'RATCHET', 
-    concatenateArrays(state.rootKey, dhOutput));
-  
-  const newRootKey = kdfOutput.slice(0, 32);
-  const newChainKey = kdfOutput.slice(32, 64);
+  const sending = kdfRootKey(
+    receiving.rootKey,
+    sodium.crypto_scalarmult(newRatchetKeyPair.privateKey, theirRatchetKey)
+  );
   
   return {
     ...state,
-    rootKey: newRootKey,
-    sendingChain: { chainKey: newChainKey, messageNumber: 0 },
+    rootKey: sending.rootKey,
+    sendingChain: { chainKey: sending.chainKey, messageNumber: 0 },
+    receivingChain: { chainKey: receiving.chainKey, messageNumber: 0 },
     sendingRatchetKey: {
       publicKey: newRatchetKeyPair.publicKey,
       privateKey: newRatchetKeyPair.privateKey
     },
     receivingRatchetKey: theirRatchetKey,
+    // Length of the sending chain we are leaving, announced in our headers
+    previousCounter: state.sendingChain.messageNumber,
+  };
+}
+
+/**
+ * Root key KDF: keyed BLAKE2b over the DH output, split into the next root
+ * key and a chain key
+ */
+function kdfRootKey(rootKey: Uint8Array, dhOutput: Uint8Array): { rootKey: Uint8Array; chainKey: Uint8Array } {
+  const output = sodium.crypto_generichash(64, dhOutput, rootKey);
+  return {
+    rootKey: output.slice(0, 32),
+    chainKey: output.slice(32, 64),
   };
 }
 
@@ -162,11 +232,13 @@ export async function encryptMessage(
 }
 
 /**
- * Decrypt message using Double Ratchet
+ * Decrypt message using Double Ratchet. The given state is never modified, so
+ * a failed decryption leaves it usable.
  */
 export async function decryptMessage(
   state: DoubleRatchetState,
-  encryptedMessage: EncryptedMessage
+  encryptedMessage: EncryptedMessage,
+  limits: RatchetLimits = DEFAULT_RATCHET_LIMITS
 ): Promise<{ plaintext: string; newState: DoubleRatchetState }> {
   await initSodium();
   
@@ -175,17 +247,39 @@ export async function decryptMessage(
   
   const header = deserializeHeader(serializedHeader);
   
-  let currentState = state;
-  
-  // Check if we need to perform DH ratchet step
-  if (!currentState.receivingRatchetKey || 
-      !sodium.memcmp(header.ratchetPublicKey, currentState.receivingRatchetKey)) {
-    currentState = await performDHRatchetStep(currentState, header.ratchetPublicKey);
+  let currentState: DoubleRatchetState = { ...state, skippedKeys: new Map(state.skippedKeys) };
+  let messageKey: Uint8Array;
+  
+  const skippedKeyId = skippedKeyIdFor(header.ratchetPublicKey, header.messageNumber);
+  const skippedKey = currentState.skippedKeys.get(skippedKeyId);
+  
+  if (skippedKey) {
+    // Late message from a chain we already moved past
+    messageKey = skippedKey;
+    currentState.skippedKeys.delete(skippedKeyId);
+  } else {
+    // Check if we need to perform DH ratchet step
+    if (!currentState.receivingRatchetKey || 
+        !sodium.memcmp(header.ratchetPublicKey, currentState.receivingRatchetKey)) {
+      // Keep keys for messages still in flight on the chain we are leaving
+      if (currentState.receivingRatchetKey) {
+        currentState = skipMessageKeys(currentState, header.previousCounter, limits);
+      }
+      currentState = await performDHRatchetStep(currentState, header.ratchetPublicKey);
+    }
+    
+    currentState = skipMessageKeys(currentState, header.messageNumber, limits);
+    
+    messageKey = sodium.crypto_kdf_derive_from_key(32, 1, 'MSG_KEY', currentState.receivingChain.chainKey);
+    currentState = {
+      ...currentState,
+      receivingChain: {
+        chainKey: sodium.crypto_kdf_derive_from_key(32, 2, 'CHAIN_K', currentState.receivingChain.chainKey),
+        messageNumber: currentState.receivingChain.messageNumber + 1,
+      },
+    };
   }
   
-  // Try to decrypt with current receiving chain
-  const messageKey = await tryGetMessageKey(currentState, header);
-  
   // Extract nonce and ciphertext
   const nonce = fullCiphertext.slice(0, sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
   const ciphertext = fullCiphertext.slice(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
@@ -199,53 +293,55 @@ export async function decryptMessage(
     messageKey
   );
   
-  // Update receiving chain
-  const newChainKey = sodium.crypto_kdf_derive_from_key(32, 2, 'CHAIN_K', currentState.receivingChain.chainKey);
-  
-  const newState: DoubleRatchetState = {
-    ...currentState,
-    receivingChain: {
-      chainKey: newChainKey,
-      messageNumber: Math.max(currentState.receivingChain.messageNumber, header.messageNumber + 1),
-    },
-  };
-  
-  return { plaintext: sodium.to_string(plaintext), newState };
+  return { plaintext: sodium.to_string(plaintext), newState: currentState };
 }
 
 /**
- * Try to get message key, handling out-of-order messages
+ * Advance the receiving chain to `until`, storing the keys of the messages
+ * passed over. Refuses to skip more than `maxSkip` messages in one go and
+ * evicts the oldest stored keys beyond `maxSkippedKeys`.
  */
-async function tryGetMessageKey(
+function skipMessageKeys(
   state: DoubleRatchetState,
-  header: MessageHeader
-): Promise<Uint8Array> {
-  await initSodium();
+  until: number,
+  limits: RatchetLimits
+): DoubleRatchetState {
+  let chainKey = state.receivingChain.chainKey;
+  let messageNumber = state.receivingChain.messageNumber;
   
-  const keyId = `${sodium.to_base64(header.ratchetPublicKey)}-${header.messageNumber}`;
+  if (until - messageNumber > limits.maxSkip) {
+    throw new Error(`Too many skipped messages: ${until - messageNumber} exceeds ${limits.maxSkip}`);
+  }
   
-  // Check if we have a skipped key
-  if (state.skippedKeys.has(keyId)) {
-    const key = state.skippedKeys.get(keyId)!;
-    state.skippedKeys.delete(keyId);
-    return key;
+  if (!state.receivingRatchetKey || messageNumber >= until) {
+    return state;
   }
   
-  // Generate keys for skipped messages
-  let chainKey = state.receivingChain.chainKey;
-  let messageNumber = state.receivingChain.messageNumber;
+  const skippedKeys = new Map(state.skippedKeys);
   
-  while (messageNumber < header.messageNumber) {
+  while (messageNumber < until) {
     const messageKey = sodium.crypto_kdf_derive_from_key(32, 1, 'MSG_KEY', chainKey);
-    const skipKeyId = `${sodium.to_base64(header.ratchetPublicKey)}-${messageNumber}`;
-    state.skippedKeys.set(skipKeyId, messageKey);
+    skippedKeys.set(skippedKeyIdFor(state.receivingRatchetKey, messageNumber), messageKey);
     
     chainKey = sodium.crypto_kdf_derive_from_key(32, 2, 'CHAIN_K', chainKey);
     messageNumber++;
   }
   
-  // Generate current message key
-  return sodium.crypto_kdf_derive_from_key(32, 1, 'MSG_KEY', chainKey);
+  // Maps iterate in insertion order, so the first keys are the oldest
+  const excess = skippedKeys.size - limits.maxSkippedKeys;
+  if (excess > 0) {
+    Array.from(skippedKeys.keys()).slice(0, excess).forEach(keyId => skippedKeys.delete(keyId));
+  }
+  
+  return {
+    ...state,
+    receivingChain: { chainKey, messageNumber },
+    skippedKeys,
+  };
+}
+
+function skippedKeyIdFor(ratchetPublicKey: Uint8Array, messageNumber: number): string {
+  return `${sodium.to_base64(ratchetPublicKey)}-${messageNumber}`;
 }
 
 /**
@@ -296,11 +392,174 @@ function deserializeHeader(serialized: Uint8Array): MessageHeader {
 }
 
 /**
- * Utility function to concatenate Uint8Arrays
+ * Split an encoded header into the fields stored on a message envelope
+ */
+export async function unpackMessageHeader(header: string): Promise<EnvelopeHeader> {
+  await initSodium();
+
+  const decoded = deserializeHeader(sodium.from_base64(header));
+  return {
+    dhPublicKey: sodium.to_base64(decoded.ratchetPublicKey),
+    previousChainLength: decoded.previousCounter,
+    messageNumber: decoded.messageNumber,
+  };
+}
+
+/**
+ * Rebuild the encoded header from envelope fields
+ */
+export async function packMessageHeader(header: EnvelopeHeader): Promise<string> {
+  await initSodium();
+
+  return sodium.to_base64(serializeHeader({
+    ratchetPublicKey: sodium.from_base64(header.dhPublicKey),
+    previousCounter: header.previousChainLength,
+    messageNumber: header.messageNumber,
+  }));
+}
+
+/**
+ * Serialize ratchet state for storage. With a passphrase the result is
+ * encrypted under a key derived from it.
+ */
+export async function serializeRatchetState(state: DoubleRatchetState, passphrase?: string): Promise<string> {
+  await initSodium();
+
+  const serializable: SerializedRatchetState = {
+    version: RATCHET_STATE_VERSION,
+    rootKey: sodium.to_base64(state.rootKey),
+    sendingChain: {
+      chainKey: sodium.to_base64(state.sendingChain.chainKey),
+      messageNumber: state.sendingChain.messageNumber,
+    },
+    receivingChain: {
+      chainKey: sodium.to_base64(state.receivingChain.chainKey),
+      messageNumber: state.receivingChain.messageNumber,
+    },
+    sendingRatchetKey: {
+      publicKey: sodium.to_base64(state.sendingRatchetKey.publicKey),
+      privateKey: sodium.to_base64(state.sendingRatchetKey.privateKey),
+    },
+    receivingRatchetKey: state.receivingRatchetKey ? sodium.to_base64(state.receivingRatchetKey) : null,
+    previousCounter: state.previousCounter,
+    skippedKeys: Array.from(state.skippedKeys.entries()).map(([keyId, key]) => [keyId, sodium.to_base64(key)]),
+    messageNumber: state.messageNumber,
+  };
+
+  const serialized = JSON.stringify(serializable);
+  if (passphrase === undefined) {
+    return serialized;
+  }
+
+  const salt = sodium.randombytes_buf(16);
+  const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+  const wrapped: Omit<WrappedRatchetState, 'ciphertext'> = {
+    version: RATCHET_STATE_VERSION,
+    kdf: 'pbkdf2-sha256',
+    iterations: STATE_WRAP_ITERATIONS,
+    salt: sodium.to_base64(salt),
+    nonce: sodium.to_base64(nonce),
+  };
+
+  const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+    serialized,
+    wrappingAssociatedData(wrapped),
+    null,
+    nonce,
+    deriveWrappingKey(passphrase, salt, wrapped.iterations)
+  );
+
+  return JSON.stringify({ ...wrapped, ciphertext: sodium.to_base64(ciphertext) });
+}
+
+/**
+ * Restore ratchet state written by serializeRatchetState, migrating older
+ * versions. The passphrase is required if the state was wrapped.
+ */
+export async function deserializeRatchetState(serialized: string, passphrase?: string): Promise<DoubleRatchetState> {
+  await initSodium();
+
+  let data = JSON.parse(serialized);
+
+  if (data.kdf !== undefined) {
+    const wrapped = data as WrappedRatchetState;
+    if (wrapped.kdf !== 'pbkdf2-sha256') {
+      throw new Error(`Unsupported ratchet state key derivation: ${wrapped.kdf}`);
+    }
+    if (passphrase === undefined) {
+      throw new Error('Ratchet state is passphrase protected');
+    }
+
+    let plaintext: Uint8Array;
+    try {
+      plaintext = sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+        null,
+        sodium.from_base64(wrapped.ciphertext),
+        wrappingAssociatedData(wrapped),
+        sodium.from_base64(wrapped.nonce),
+        deriveWrappingKey(passphrase, sodium.from_base64(wrapped.salt), wrapped.iterations)
+      );
+    } catch {
+      throw new Error('Failed to unwrap ratchet state: wrong passphrase or corrupted data');
+    }
+
+    data = JSON.parse(sodium.to_string(plaintext));
+  }
+
+  const state = migrateRatchetState(data);
+
+  return {
+    rootKey: sodium.from_base64(state.rootKey),
+    sendingChain: {
+      chainKey: sodium.from_base64(state.sendingChain.chainKey),
+      messageNumber: state.sendingChain.messageNumber,
+    },
+    receivingChain: {
+      chainKey: sodium.from_base64(state.receivingChain.chainKey),
+      messageNumber: state.receivingChain.messageNumber,
+    },
+    sendingRatchetKey: {
+      publicKey: sodium.from_base64(state.sendingRatchetKey.publicKey),
+      privateKey: sodium.from_base64(state.sendingRatchetKey.privateKey),
+    },
+    receivingRatchetKey: state.receivingRatchetKey ? sodium.from_base64(state.receivingRatchetKey) : null,
+    previousCounter: state.previousCounter,
+    skippedKeys: new Map(state.skippedKeys.map(([keyId, key]) => [keyId, sodium.from_base64(key)] as [string, Uint8Array])),
+    messageNumber: state.messageNumber,
+  };
+}
+
+/**
+ * Bring a serialized state up to the current version. New format versions
+ * add a step here.
+ */
+function migrateRatchetState(data: any): SerializedRatchetState {
+  if (typeof data?.version !== 'number') {
+    throw new Error('Invalid ratchet state: missing version');
+  }
+
+  if (data.version > RATCHET_STATE_VERSION) {
+    throw new Error(`Unsupported ratchet state version: ${data.version}`);
+  }
+
+  return data as SerializedRatchetState;
+}
+
+/**
+ * Derive the state wrapping key from a passphrase (PBKDF2-SHA256)
+ */
+function deriveWrappingKey(passphrase: string, salt: Uint8Array, iterations: number): Uint8Array {
+  const key = CryptoJS.PBKDF2(passphrase, CryptoJS.enc.Hex.parse(sodium.to_hex(salt)), {
+    keySize: 256 / 32,
+    iterations,
+    hasher: CryptoJS.algo.SHA256,
+  });
+  return sodium.from_hex(key.toString(CryptoJS.enc.Hex));
+}
+
+/**
+ * Bind the wrapping parameters to the ciphertext
  */
-function concatenateArrays(a: Uint8Array, b: Uint8Array): Uint8Array {
-  const result = new Uint8Array(a.length + b.length);
-  result.set(a, 0);
-  result.set(b, a.length);
-  return result;
+function wrappingAssociatedData(wrapped: Omit<WrappedRatchetState, 'ciphertext'>): string {
+  return `${wrapped.version}:${wrapped.kdf}:${wrapped.iterations}:${wrapped.salt}:${wrapped.nonce}`;
 }
@@ -1,7 +1,7 @@
 import sodium from 'libsodium-wrappers';
 import { initSodium, X3DHKeyPair, performX3DHSender, performX3DHReceiver, X3DHKeyBundle } from './x3dh';
 import { DeviceIdentity, createPreKeyBundle, getOneTimePreKey, removeOneTimePreKey, rotateSignedPreKey, replenishOneTimePreKeys } from './identity';
-import { initializeDoubleRatchet, encryptMessage as doubleRatchetEncrypt, decryptMessage as doubleRatchetDecrypt, DoubleRatchetState, EncryptedMessage } from './double-ratchet';
+import { initializeDoubleRatchet, encryptMessage as doubleRatchetEncrypt, decryptMessage as doubleRatchetDecrypt, serializeRatchetState, deserializeRatchetState, DoubleRatchetState, EncryptedMessage, RatchetLimits, DEFAULT_RATCHET_LIMITS } from './double-ratchet';
 import { hybridEncrypt, hybridDecrypt } from './hybrid';
 
 export interface StreamChunk {
@@ -24,20 +24,28 @@ export interface FileStreamState {
   encryptionKey: Uint8Array;
 }
 
+export interface SessionInitiation {
+  identityKey: string; // base64 identity public key of the initiator
+  ephemeralKey: string; // base64 X3DH ephemeral public key
+}
+
 export class MessageEncryptionSDK {
   private identity: DeviceIdentity;
   private ratchetState: DoubleRatchetState | null = null;
   private fileStreams: Map<string, FileStreamState> = new Map();
   private readonly CHUNK_SIZE = 64 * 1024; // 64KB chunks
+  private ratchetLimits: RatchetLimits;
 
-  constructor(identity: DeviceIdentity) {
+  constructor(identity: DeviceIdentity, ratchetLimits: RatchetLimits = DEFAULT_RATCHET_LIMITS) {
     this.identity = identity;
+    this.ratchetLimits = ratchetLimits;
   }
 
   /**
-   * Initialize the messaging session using X3DH
+   * Initialize the messaging session using X3DH. The returned keys must be
+   * carried on our first messages so the peer can accept the session.
    */
-  async initializeSession(theirKeyBundle: X3DHKeyBundle): Promise<void> {
+  async initializeSession(theirKeyBundle: X3DHKeyBundle): Promise<SessionInitiation> {
     await initSodium();
 
     // Generate ephemeral key pair for X3DH
@@ -60,6 +68,54 @@ export class MessageEncryptionSDK {
       true,
       sodium.from_base64(theirKeyBundle.signedPreKey)
     );
+
+    return {
+      identityKey: sodium.to_base64(this.identity.identityKeyPair.publicKey),
+      ephemeralKey: sodium.to_base64(ephemeralKeyPair.publicKey),
+    };
+  }
+
+  /**
+   * Accept a session started by a peer from their first (prekey) message
+   */
+  async acceptSession(theirIdentityKey: string, theirEphemeralKey: string, oneTimePreKeyId?: string): Promise<void> {
+    await initSodium();
+
+    let oneTimePreKey: X3DHKeyPair | null = null;
+    if (oneTimePreKeyId) {
+      oneTimePreKey = getOneTimePreKey(this.identity, oneTimePreKeyId);
+      if (!oneTimePreKey) {
+        throw new Error(`One-time prekey ${oneTimePreKeyId} not found`);
+      }
+    }
+
+    const session = await performX3DHReceiver(
+      this.identity.identityKeyPair,
+      this.identity.signedPreKeyPair,
+      oneTimePreKey,
+      sodium.from_base64(theirIdentityKey),
+      sodium.from_base64(theirEphemeralKey)
+    );
+
+    // The initiator ratchets against our signed prekey, so it is our first ratchet key
+    this.ratchetState = await initializeDoubleRatchet(
+      session.rootKey,
+      false,
+      undefined,
+      this.identity.signedPreKeyPair
+    );
+
+    // One-time prekeys must never be reused
+    if (oneTimePreKeyId) {
+      removeOneTimePreKey(this.identity, oneTimePreKeyId);
+    }
+  }
+
+  /**
+   * Whether a ratchet session has been established
+   */
+  hasSession(): boolean {
+    return this.ratchetState !== null;
   }
 
   /**
@@ -83,7 +139,7 @@ export class MessageEncryptionSDK {
       throw new Error('Session not initialized. Call initializeSession first.');
     }
 
-    const result = await doubleRatchetDecrypt(this.ratchetState, encryptedMessage);
+    const result = await doubleRatchetDecrypt(this.ratchetState, encryptedMessage, this.ratchetLimits);
     this.ratchetState = result.newState;
     return result.plaintext;
   }
@@ -264,6 +320,24 @@ export class MessageEncryptionSDK {
     this.ratchetState = state;
   }
 
+  /**
+   * Serialize the current session, optionally protected by a passphrase
+   */
+  async serializeSession(passphrase?: string): Promise<string> {
+    if (!this.ratchetState) {
+      throw new Error('Session not initialized. Call initializeSession first.');
+    }
+
+    return serializeRatchetState(this.ratchetState, passphrase);
+  }
+
+  /**
+   * Restore a session written by serializeSession
+   */
+  async restoreSession(serialized: string, passphrase?: string): Promise<void> {
+    this.ratchetState = await deserializeRatchetState(serialized, passphrase);
+  }
+
   /**
    * Update device identity
    */
@@ -306,5 +380,3 @@ export class MessageEncryptionSDK {
     }
   }
 }
-
-export { MessageEncryptionSDK };
@@ -0,0 +1,452 @@
+import sodium from 'libsodium-wrappers';
+import { initSodium } from './x3dh';
+import { EncryptedMessage, RatchetLimits, DEFAULT_RATCHET_LIMITS } from './double-ratchet';
+import { PreKeyInitiation, SessionAddress, SessionManager, sessionAddressKey } from './session-store';
+import { AsyncLock } from './async-lock';
+
+// Sender key states kept per group member, so messages sent just before a
+// rekey can still be read
+export const MAX_SENDER_KEY_STATES = 5;
+
+// One member's sending chain in a group. Only the owner holds the private
+// signing key.
+export interface SenderKeyState {
+  groupId: string;
+  keyId: number;
+  iteration: number; // Index of the next message key
+  chainKey: Uint8Array;
+  signingKey: {
+    publicKey: Uint8Array;
+    privateKey?: Uint8Array;
+  };
+  skippedKeys: Map<number, Uint8Array>; // iteration -> message key
+}
+
+// Sent to each member over their pairwise session
+export interface SenderKeyDistribution {
+  groupId: string;
+  keyId: number;
+  iteration: number;
+  chainKey: string; // base64
+  signingKey: string; // base64 Ed25519 public key
+}
+
+// A group message: a single ciphertext for every member device
+export interface SenderKeyMessage {
+  keyId: number;
+  iteration: number;
+  ciphertext: string; // base64 nonce + ciphertext
+  signature: string; // base64 Ed25519 signature over header and ciphertext
+}
+
+/**
+ * Create a new sender chain for a group
+ */
+export async function createSenderKey(groupId: string): Promise<SenderKeyState> {
+  await initSodium();
+
+  const signingKeyPair = sodium.crypto_sign_keypair();
+
+  return {
+    groupId,
+    keyId: new DataView(sodium.randombytes_buf(4).buffer).getUint32(0, true),
+    iteration: 0,
+    chainKey: sodium.randombytes_buf(32),
+    signingKey: {
+      publicKey: signingKeyPair.publicKey,
+      privateKey: signingKeyPair.privateKey,
+    },
+    skippedKeys: new Map(),
+  };
+}
+
+/**
+ * Distribution message for our sender chain. Recipients can read messages
+ * from the chain's current iteration onwards.
+ */
+export async function createSenderKeyDistribution(state: SenderKeyState): Promise<string> {
+  await initSodium();
+
+  const distribution: SenderKeyDistribution = {
+    groupId: state.groupId,
+    keyId: state.keyId,
+    iteration: state.iteration,
+    chainKey: sodium.to_base64(state.chainKey),
+    signingKey: sodium.to_base64(state.signingKey.publicKey),
+  };
+
+  return JSON.stringify(distribution);
+}
+
+/**
+ * Receiving state from another member's distribution message
+ */
+export async function processSenderKeyDistribution(serialized: string): Promise<SenderKeyState> {
+  await initSodium();
+
+  const distribution: SenderKeyDistribution = JSON.parse(serialized);
+
+  return {
+    groupId: distribution.groupId,
+    keyId: distribution.keyId,
+    iteration: distribution.iteration,
+    chainKey: sodium.from_base64(distribution.chainKey),
+    signingKey: {
+      publicKey: sodium.from_base64(distribution.signingKey),
+    },
+    skippedKeys: new Map(),
+  };
+}
+
+/**
+ * Encrypt a group message with our sender chain and sign it
+ */
+export async function senderKeyEncrypt(
+  state: SenderKeyState,
+  plaintext: string
+): Promise<{ message: SenderKeyMessage; newState: SenderKeyState }> {
+  await initSodium();
+
+  if (!state.signingKey.privateKey) {
+    throw new Error('Cannot encrypt with another member\'s sender key');
+  }
+
+  const messageKey = sodium.crypto_kdf_derive_from_key(32, 1, 'SK_MSG_K', state.chainKey);
+  const header = senderKeyHeader(state.groupId, state.keyId, state.iteration);
+
+  const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+  const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+    plaintext,
+    header,
+    null,
+    nonce,
+    messageKey
+  );
+
+  const fullCiphertext = new Uint8Array(nonce.length + ciphertext.length);
+  fullCiphertext.set(nonce, 0);
+  fullCiphertext.set(ciphertext, nonce.length);
+
+  const signature = sodium.crypto_sign_detached(
+    signedContent(header, fullCiphertext),
+    state.signingKey.privateKey
+  );
+
+  return {
+    message: {
+      keyId: state.keyId,
+      iteration: state.iteration,
+      ciphertext: sodium.to_base64(fullCiphertext),
+      signature: sodium.to_base64(signature),
+    },
+    newState: {
+      ...state,
+      iteration: state.iteration + 1,
+      chainKey: sodium.crypto_kdf_derive_from_key(32, 2, 'SK_CHAIN', state.chainKey),
+    },
+  };
+}
+
+/**
+ * Verify and decrypt a group message from another member. The signature is
+ * checked before any chain keys are derived. The given state is not modified.
+ */
+export async function senderKeyDecrypt(
+  state: SenderKeyState,
+  message: SenderKeyMessage,
+  limits: RatchetLimits = DEFAULT_RATCHET_LIMITS
+): Promise<{ plaintext: string; newState: SenderKeyState }> {
+  await initSodium();
+
+  if (message.keyId !== state.keyId) {
+    throw new Error(`Sender key ${message.keyId} does not match state ${state.keyId}`);
+  }
+
+  const header = senderKeyHeader(state.groupId, message.keyId, message.iteration);
+  const fullCiphertext = sodium.from_base64(message.ciphertext);
+
+  const validSignature = sodium.crypto_sign_verify_detached(
+    sodium.from_base64(message.signature),
+    signedContent(header, fullCiphertext),
+    state.signingKey.publicKey
+  );
+  if (!validSignature) {
+    throw new Error('Invalid sender key message signature');
+  }
+
+  const skippedKeys = new Map(state.skippedKeys);
+  let chainKey = state.chainKey;
+  let iteration = state.iteration;
+  let messageKey: Uint8Array;
+
+  if (message.iteration < state.iteration) {
+    // Late message; only readable if its key was kept
+    const skipped = skippedKeys.get(message.iteration);
+    if (!skipped) {
+      throw new Error(`Message key for iteration ${message.iteration} is no longer available`);
+    }
+    messageKey = skipped;
+    skippedKeys.delete(message.iteration);
+  } else {
+    if (message.iteration - iteration > limits.maxSkip) {
+      throw new Error(`Too many skipped messages: ${message.iteration - iteration} exceeds ${limits.maxSkip}`);
+    }
+
+    while (iteration < message.iteration) {
+      skippedKeys.set(iteration, sodium.crypto_kdf_derive_from_key(32, 1, 'SK_MSG_K', chainKey));
+      chainKey = sodium.crypto_kdf_derive_from_key(32, 2, 'SK_CHAIN', chainKey);
+      iteration++;
+    }
+
+    // Maps iterate in insertion order, so the first keys are the oldest
+    const excess = skippedKeys.size - limits.maxSkippedKeys;
+    if (excess > 0) {
+      Array.from(skippedKeys.keys()).slice(0, excess).forEach(key => skippedKeys.delete(key));
+    }
+
+    messageKey = sodium.crypto_kdf_derive_from_key(32, 1, 'SK_MSG_K', chainKey);
+    chainKey = sodium.crypto_kdf_derive_from_key(32, 2, 'SK_CHAIN', chainKey);
+    iteration++;
+  }
+
+  const nonceLength = sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES;
+  const plaintext = sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+    null,
+    fullCiphertext.slice(nonceLength),
+    header,
+    fullCiphertext.slice(0, nonceLength),
+    messageKey
+  );
+
+  return {
+    plaintext: sodium.to_string(plaintext),
+    newState: {
+      ...state,
+      iteration,
+      chainKey,
+      skippedKeys,
+    },
+  };
+}
+
+function senderKeyHeader(groupId: string, keyId: number, iteration: number): Uint8Array {
+  return sodium.from_string(`${groupId}:${keyId}:${iteration}`);
+}
+
+function signedContent(header: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const content = new Uint8Array(header.length + ciphertext.length);
+  content.set(header, 0);
+  content.set(ciphertext, header.length);
+  return content;
+}
+
+// Sender key states of one member device in one group, newest first
+export interface SenderKeyRecord {
+  groupId: string;
+  sender: SessionAddress;
+  states: SenderKeyState[];
+}
+
+export interface SenderKeyStore {
+  load(groupId: string, sender: SessionAddress): Promise<SenderKeyRecord | null>;
+  save(record: SenderKeyRecord): Promise<void>;
+  remove(groupId: string, sender: SessionAddress): Promise<void>;
+
+  // Member devices we hold sender keys from in a group
+  listSenders(groupId: string): Promise<SessionAddress[]>;
+}
+
+function senderKeyRecordKey(groupId: string, sender: SessionAddress): string {
+  return `${groupId}/${sessionAddressKey(sender)}`;
+}
+
+export class InMemorySenderKeyStore implements SenderKeyStore {
+  private records = new Map<string, SenderKeyRecord>();
+
+  async load(groupId: string, sender: SessionAddress): Promise<SenderKeyRecord | null> {
+    return this.records.get(senderKeyRecordKey(groupId, sender)) || null;
+  }
+
+  async save(record: SenderKeyRecord): Promise<void> {
+    this.records.set(senderKeyRecordKey(record.groupId, record.sender), record);
+  }
+
+  async remove(groupId: string, sender: SessionAddress): Promise<void> {
+    this.records.delete(senderKeyRecordKey(groupId, sender));
+  }
+
+  async listSenders(groupId: string): Promise<SessionAddress[]> {
+    const senders: SessionAddress[] = [];
+    this.records.forEach(record => {
+      if (record.groupId === groupId) {
+        senders.push(record.sender);
+      }
+    });
+    return senders;
+  }
+}
+
+/**
+ * Group messaging with sender keys. Each member device encrypts a message
+ * once with its own chain; chains are handed out over the pairwise sessions
+ * of a SessionManager.
+ */
+export class GroupSessionManager {
+  private ownAddress: SessionAddress;
+  private sessions: SessionManager;
+  private store: SenderKeyStore;
+  private limits: RatchetLimits;
+  private lock = new AsyncLock();
+
+  constructor(
+    ownAddress: SessionAddress,
+    sessions: SessionManager,
+    store: SenderKeyStore,
+    limits: RatchetLimits = DEFAULT_RATCHET_LIMITS
+  ) {
+    this.ownAddress = ownAddress;
+    this.sessions = sessions;
+    this.store = store;
+    this.limits = limits;
+  }
+
+  /**
+   * Distribution message for our chain in a group, creating the chain on
+   * first use
+   */
+  async getDistribution(groupId: string): Promise<string> {
+    return this.withLock(groupId, this.ownAddress, async () => {
+      const state = await this.ownState(groupId);
+      return createSenderKeyDistribution(state);
+    });
+  }
+
+  /**
+   * Encrypt our distribution message for each member device over its
+   * pairwise session
+   */
+  async distributeSenderKey(
+    groupId: string,
+    recipients: SessionAddress[]
+  ): Promise<Array<{ address: SessionAddress; message: EncryptedMessage; preKey?: PreKeyInitiation }>> {
+    const distribution = await this.getDistribution(groupId);
+
+    const messages = [];
+    for (const address of recipients) {
+      const { message, preKey } = await this.sessions.encrypt(address, distribution);
+      messages.push({ address, message, preKey });
+    }
+    return messages;
+  }
+
+  /**
+   * Store a member device's chain from its (already decrypted) distribution
+   */
+  async processDistribution(sender: SessionAddress, serialized: string): Promise<void> {
+    const state = await processSenderKeyDistribution(serialized);
+
+    await this.withLock(state.groupId, sender, async () => {
+      const record = (await this.store.load(state.groupId, sender)) ||
+        { groupId: state.groupId, sender, states: [] };
+
+      record.states = [state, ...record.states.filter(existing => existing.keyId !== state.keyId)]
+        .slice(0, MAX_SENDER_KEY_STATES);
+      await this.store.save(record);
+    });
+  }
+
+  /**
+   * Decrypt a distribution received over a pairwise session and store it
+   */
+  async processDistributionMessage(
+    sender: SessionAddress,
+    message: EncryptedMessage,
+    initiation?: PreKeyInitiation
+  ): Promise<void> {
+    const distribution = await this.sessions.decrypt(sender, message, initiation);
+    await this.processDistribution(sender, distribution);
+  }
+
+  /**
+   * Encrypt a group message once for all members
+   */
+  async encrypt(groupId: string, plaintext: string): Promise<SenderKeyMessage> {
+    return this.withLock(groupId, this.ownAddress, async () => {
+      const record = await this.store.load(groupId, this.ownAddress);
+      if (!record?.states.length) {
+        throw new Error(`No sender key for group ${groupId}; distribute it first`);
+      }
+
+      const { message, newState } = await senderKeyEncrypt(record.states[0], plaintext);
+      record.states[0] = newState;
+      await this.store.save(record);
+
+      return message;
+    });
+  }
+
+  /**
+   * Decrypt a group message from a member device
+   */
+  async decrypt(groupId: string, sender: SessionAddress, message: SenderKeyMessage): Promise<string> {
+    return this.withLock(groupId, sender, async () => {
+      const record = await this.store.load(groupId, sender);
+      const index = record ? record.states.findIndex(state => state.keyId === message.keyId) : -1;
+      if (!record || index === -1) {
+        throw new Error(`No sender key ${message.keyId} from ${sessionAddressKey(sender)} in group ${groupId}`);
+      }
+
+      const { plaintext, newState } = await senderKeyDecrypt(record.states[index], message, this.limits);
+      record.states[index] = newState;
+      await this.store.save(record);
+
+      return plaintext;
+    });
+  }
+
+  /**
+   * Replace our chain with a fresh one. The new distribution must be sent to
+   * the remaining members.
+   */
+  async rekey(groupId: string): Promise<void> {
+    await this.withLock(groupId, this.ownAddress, async () => {
+      await this.store.save({
+        groupId,
+        sender: this.ownAddress,
+        states: [await createSenderKey(groupId)],
+      });
+    });
+  }
+
+  /**
+   * Forget a departed member's chains and rekey so they cannot read anything
+   * sent from now on
+   */
+  async removeMember(groupId: string, userId: string): Promise<void> {
+    const senders = await this.store.listSenders(groupId);
+
+    for (const sender of senders) {
+      if (sender.userId === userId) {
+        await this.withLock(groupId, sender, () => this.store.remove(groupId, sender));
+      }
+    }
+
+    await this.rekey(groupId);
+  }
+
+  // Our current chain for a group; callers hold the lock
+  private async ownState(groupId: string): Promise<SenderKeyState> {
+    const record = await this.store.load(groupId, this.ownAddress);
+    if (record?.states.length) {
+      return record.states[0];
+    }
+
+    const state = await createSenderKey(groupId);
+    await this.store.save({ groupId, sender: this.ownAddress, states: [state] });
+    return state;
+  }
+
+  private withLock<T>(groupId: string, sender: SessionAddress, fn: () => Promise<T>): Promise<T> {
+    return this.lock.run(senderKeyRecordKey(groupId, sender), fn);
+  }
+}
@@ -0,0 +1,280 @@
+import { X3DHKeyBundle } from './x3dh';
+import { DeviceIdentity } from './identity';
+import { DoubleRatchetState, EncryptedMessage } from './double-ratchet';
+import { MessageEncryptionSDK } from './sdk';
+import { AsyncLock } from './async-lock';
+
+export const MAX_ARCHIVED_SESSIONS = 20;
+
+// A peer device we hold ratchet sessions with
+export interface SessionAddress {
+  userId: string;
+  deviceId: string;
+}
+
+// X3DH values an initiator sends on its first messages
+export interface PreKeyInitiation {
+  identityKey: string; // base64 identity key of the initiator
+  ephemeralKey: string; // base64 ephemeral key, also the session's base key
+  preKeyId: number;
+  oneTimePreKeyId?: number;
+}
+
+export interface SessionRecord {
+  baseKey: string; // Ephemeral key of the X3DH exchange that created the session
+  initiator: boolean;
+  remoteIdentityKey: string;
+  pendingPreKey?: PreKeyInitiation; // Our initiation, resent until the peer replies
+  state: DoubleRatchetState;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface SessionEntry {
+  address: SessionAddress;
+  active: SessionRecord | null;
+  archived: SessionRecord[]; // Newest first; kept to decrypt late messages
+}
+
+// Persistence for ratchet sessions. Implementations store entries as-is;
+// DoubleRatchetState holds Uint8Arrays and a Map.
+export interface SessionStore {
+  load(address: SessionAddress): Promise<SessionEntry | null>;
+  save(entry: SessionEntry): Promise<void>;
+  remove(address: SessionAddress): Promise<void>;
+
+  // Devices of a user that have an active session
+  listDevices(userId: string): Promise<string[]>;
+}
+
+export function sessionAddressKey(address: SessionAddress): string {
+  return `${address.userId}:${address.deviceId}`;
+}
+
+export class InMemorySessionStore implements SessionStore {
+  private entries = new Map<string, SessionEntry>();
+
+  async load(address: SessionAddress): Promise<SessionEntry | null> {
+    return this.entries.get(sessionAddressKey(address)) || null;
+  }
+
+  async save(entry: SessionEntry): Promise<void> {
+    this.entries.set(sessionAddressKey(entry.address), entry);
+  }
+
+  async remove(address: SessionAddress): Promise<void> {
+    this.entries.delete(sessionAddressKey(address));
+  }
+
+  async listDevices(userId: string): Promise<string[]> {
+    const devices: string[] = [];
+    this.entries.forEach(entry => {
+      if (entry.address.userId === userId && entry.active) {
+        devices.push(entry.address.deviceId);
+      }
+    });
+    return devices;
+  }
+}
+
+/**
+ * Ratchet sessions with many peer devices on top of a SessionStore.
+ * Operations on the same address run one at a time.
+ */
+export class SessionManager {
+  private identity: DeviceIdentity;
+  private store: SessionStore;
+  private lock = new AsyncLock();
+
+  constructor(identity: DeviceIdentity, store: SessionStore) {
+    this.identity = identity;
+    this.store = store;
+  }
+
+  async hasSession(address: SessionAddress): Promise<boolean> {
+    const entry = await this.store.load(address);
+    return !!entry?.active;
+  }
+
+  async getDevices(userId: string): Promise<string[]> {
+    return this.store.listDevices(userId);
+  }
+
+  async removeSession(address: SessionAddress): Promise<void> {
+    await this.withLock(address, () => this.store.remove(address));
+  }
+
+  /**
+   * Start a session from the peer device's published bundle. Any existing
+   * session becomes archived.
+   */
+  async initiate(
+    address: SessionAddress,
+    bundle: X3DHKeyBundle,
+    keyIds: { preKeyId: number; oneTimePreKeyId?: number }
+  ): Promise<void> {
+    await this.withLock(address, async () => {
+      const sdk = new MessageEncryptionSDK(this.identity);
+      const initiation = await sdk.initializeSession(bundle);
+      const now = Date.now();
+
+      const record: SessionRecord = {
+        baseKey: initiation.ephemeralKey,
+        initiator: true,
+        remoteIdentityKey: bundle.identityKey,
+        pendingPreKey: {
+          identityKey: initiation.identityKey,
+          ephemeralKey: initiation.ephemeralKey,
+          preKeyId: keyIds.preKeyId,
+          oneTimePreKeyId: keyIds.oneTimePreKeyId,
+        },
+        state: sdk.getRatchetState()!,
+        createdAt: now,
+        lastUsedAt: now,
+      };
+
+      const entry = await this.loadEntry(address);
+      this.promote(entry, record);
+      await this.store.save(entry);
+    });
+  }
+
+  /**
+   * Encrypt with the active session. `preKey` is set while the peer has not
+   * yet replied and must be sent along with the message.
+   */
+  async encrypt(
+    address: SessionAddress,
+    plaintext: string
+  ): Promise<{ message: EncryptedMessage; preKey?: PreKeyInitiation }> {
+    return this.withLock(address, async () => {
+      const entry = await this.store.load(address);
+      if (!entry?.active) {
+        throw new Error(`No session with ${sessionAddressKey(address)}`);
+      }
+
+      const record = entry.active;
+      const sdk = this.sdkFor(record);
+      const message = await sdk.encryptMessage(plaintext);
+
+      record.state = sdk.getRatchetState()!;
+      record.lastUsedAt = Date.now();
+      await this.store.save(entry);
+
+      return { message, preKey: record.pendingPreKey };
+    });
+  }
+
+  /**
+   * Decrypt a message from a peer device. Messages carrying an initiation we
+   * have not seen start a new session; others are tried against the active
+   * session, then archived ones.
+   */
+  async decrypt(
+    address: SessionAddress,
+    message: EncryptedMessage,
+    initiation?: PreKeyInitiation
+  ): Promise<string> {
+    return this.withLock(address, async () => {
+      const entry = await this.loadEntry(address);
+
+      const known = initiation && [entry.active, ...entry.archived]
+        .some(record => record?.baseKey === initiation.ephemeralKey);
+
+      if (initiation && !known) {
+        const sdk = new MessageEncryptionSDK(this.identity);
+        await sdk.acceptSession(
+          initiation.identityKey,
+          initiation.ephemeralKey,
+          initiation.oneTimePreKeyId !== undefined ? String(initiation.oneTimePreKeyId) : undefined
+        );
+
+        const plaintext = await sdk.decryptMessage(message);
+        const now = Date.now();
+
+        this.adoptInbound(entry, {
+          baseKey: initiation.ephemeralKey,
+          initiator: false,
+          remoteIdentityKey: initiation.identityKey,
+          state: sdk.getRatchetState()!,
+          createdAt: now,
+          lastUsedAt: now,
+        });
+        await this.store.save(entry);
+
+        return plaintext;
+      }
+
+      const candidates = [entry.active, ...entry.archived].filter(
+        (record): record is SessionRecord => record !== null
+      );
+
+      for (const record of candidates) {
+        const sdk = this.sdkFor(record);
+        let plaintext: string;
+        try {
+          plaintext = await sdk.decryptMessage(message);
+        } catch {
+          continue;
+        }
+
+        record.state = sdk.getRatchetState()!;
+        record.lastUsedAt = Date.now();
+        // The peer answered, so our initiation no longer needs resending
+        record.pendingPreKey = undefined;
+
+        if (record !== entry.active) {
+          this.promote(entry, record);
+        }
+        await this.store.save(entry);
+
+        return plaintext;
+      }
+
+      throw new Error(`No session with ${sessionAddressKey(address)} could decrypt the message`);
+    });
+  }
+
+  /**
+   * A peer started a new session. If we have an unanswered initiation of our
+   * own, both sides keep the session with the lower base key so they converge
+   * on the same one; otherwise the peer re-keyed and the old session is archived.
+   */
+  private adoptInbound(entry: SessionEntry, record: SessionRecord): void {
+    const current = entry.active;
+
+    if (current?.pendingPreKey && current.baseKey < record.baseKey) {
+      this.archive(entry, record);
+    } else {
+      this.promote(entry, record);
+    }
+  }
+
+  private promote(entry: SessionEntry, record: SessionRecord): void {
+    entry.archived = entry.archived.filter(archived => archived !== record);
+    if (entry.active && entry.active !== record) {
+      this.archive(entry, entry.active);
+    }
+    entry.active = record;
+  }
+
+  private archive(entry: SessionEntry, record: SessionRecord): void {
+    entry.archived.unshift(record);
+    entry.archived = entry.archived.slice(0, MAX_ARCHIVED_SESSIONS);
+  }
+
+  // Ratchet operations return new states, so a failed decrypt leaves the record untouched
+  private sdkFor(record: SessionRecord): MessageEncryptionSDK {
+    const sdk = new MessageEncryptionSDK(this.identity);
+    sdk.setRatchetState(record.state);
+    return sdk;
+  }
+
+  private async loadEntry(address: SessionAddress): Promise<SessionEntry> {
+    return (await this.store.load(address)) || { address, active: null, archived: [] };
+  }
+
+  private withLock<T>(address: SessionAddress, fn: () => Promise<T>): Promise<T> {
+    return this.lock.run(sessionAddressKey(address), fn);
+  }
+}
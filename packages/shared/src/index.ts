@@ -9,3 +9,6 @@ export * from './schemas';
 
 // Constants
 export * from './constants';
+
+// Socket event maps
+export * from './socket-events';
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { MessageType } from './types';
+import { CONFIG } from './constants';
 
 // User schemas
 export const UserSchema = z.object({
@@ -71,6 +72,228 @@ export const PeerConnectionDataSchema = z.object({
   conversationId: z.string(),
 });
 
+// Socket event payloads for the /messaging namespace. Unknown keys are
+// stripped, so client-supplied sender fields never reach the server.
+const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, 'Invalid id');
+const conversationIdSchema = z.string().min(1).max(255);
+const messageIdSchema = z.string().min(1).max(255);
+const ciphertextSchema = z.string().min(1).max(64 * 1024);
+
+const envelopeMetadataSchema = z.object({
+  fileName: z.string().max(255).optional(),
+  fileSize: z.number().positive().max(100 * 1024 * 1024).optional(),
+  mimeType: z.string().max(100).optional(),
+  duration: z.number().positive().optional(),
+  dimensions: z.object({
+    width: z.number().positive(),
+    height: z.number().positive(),
+  }).optional(),
+  thumbnail: z.string().max(64 * 1024).optional(),
+});
+
+const envelopeFieldsSchema = z.object({
+  messageId: messageIdSchema.optional(),
+  conversationId: conversationIdSchema,
+  messageType: z.enum(['text', 'file', 'image', 'video', 'audio', 'document']),
+  encryptedContent: ciphertextSchema,
+  encryptedKey: z.string().max(4096).optional(),
+  metadata: envelopeMetadataSchema.optional(),
+  replyToMessageId: messageIdSchema.optional(),
+  expiresAt: z.coerce.date().optional(),
+  expiresIn: z.number().int()
+    .min(CONFIG.DISAPPEARING_MESSAGES_MIN_SECONDS)
+    .max(CONFIG.DISAPPEARING_MESSAGES_MAX_SECONDS)
+    .optional(), // Disappearing messages: seconds after the message is read
+  priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
+});
+
+const ratchetHeaderSchema = z.object({
+  dhPublicKey: z.string().min(1).max(256),
+  previousChainLength: z.number().int().min(0),
+  messageNumber: z.number().int().min(0),
+});
+
+// X3DH fields on the first message of a session
+const preKeyFieldsSchema = z.object({
+  preKeyId: z.number().int().min(0).optional(),
+  oneTimePreKeyId: z.number().int().min(0).optional(),
+  senderIdentityKey: z.string().max(256).optional(),
+  senderEphemeralKey: z.string().max(256).optional(),
+});
+
+export const RegisterDeviceEventSchema = z.object({
+  conversationIds: z.array(conversationIdSchema).max(1000).default([]),
+});
+
+export const JoinConversationsEventSchema = z.array(conversationIdSchema).max(1000);
+
+export const SendMessageEventSchema = envelopeFieldsSchema.merge(preKeyFieldsSchema).extend({
+  recipientId: objectIdSchema,
+  recipientDeviceId: objectIdSchema.optional(),
+  doubleRatchetHeader: ratchetHeaderSchema,
+});
+
+const bundleMessageIdSchema = z.string().min(1).max(128);
+
+const bundleEnvelopeSchema = preKeyFieldsSchema.extend({
+  userId: objectIdSchema,
+  deviceId: objectIdSchema,
+  encryptedContent: ciphertextSchema,
+  doubleRatchetHeader: ratchetHeaderSchema,
+});
+
+const senderKeyHeaderSchema = z.object({
+  keyId: z.number().int().min(0),
+  iteration: z.number().int().min(0),
+  signature: z.string().min(1).max(256),
+});
+
+// One message encrypted separately for every device of the recipient and
+// every other device of the sender. Each copy is stored as
+// `${messageId}:${deviceId}`.
+export const SendMessageBundleEventSchema = envelopeFieldsSchema.omit({ encryptedContent: true }).extend({
+  messageId: bundleMessageIdSchema,
+  recipientId: objectIdSchema,
+  envelopes: z.array(bundleEnvelopeSchema).min(1).max(100),
+});
+
+export const SendGroupMessageEventSchema = envelopeFieldsSchema.extend({
+  senderKeyHeader: senderKeyHeaderSchema,
+});
+
+// Edits, deletions and reactions are encrypted control messages: a bundle of
+// per-device copies, or one sender-key copy in groups. The server only sees
+// which message they refer to. A bundle may be empty when the only devices
+// to tell are gone.
+const controlBundleSchema = z.object({
+  messageId: bundleMessageIdSchema,
+  conversationId: conversationIdSchema,
+  targetMessageId: messageIdSchema,
+  recipientId: objectIdSchema,
+  envelopes: z.array(bundleEnvelopeSchema).max(100),
+});
+
+const controlGroupSchema = z.object({
+  messageId: bundleMessageIdSchema,
+  conversationId: conversationIdSchema,
+  targetMessageId: messageIdSchema,
+  encryptedContent: ciphertextSchema,
+  senderKeyHeader: senderKeyHeaderSchema,
+});
+
+export const EditMessageEventSchema = z.union([controlBundleSchema, controlGroupSchema]);
+
+export const ReactToMessageEventSchema = z.union([controlBundleSchema, controlGroupSchema]);
+
+// Deleting for me only tells the sender's other devices, so it is always a
+// bundle addressed to the sender
+export const DeleteMessageEventSchema = z.union([
+  controlBundleSchema.extend({ scope: z.enum(['me', 'everyone']) }),
+  controlGroupSchema.extend({ scope: z.literal('everyone') }),
+]);
+
+// A conversation's disappearing-messages timer; the value is encrypted
+export const SetDisappearingMessagesEventSchema = z.union([
+  controlBundleSchema.omit({ targetMessageId: true }),
+  controlGroupSchema.omit({ targetMessageId: true }),
+]);
+
+export const AcknowledgeMessageEventSchema = z.object({
+  messageId: messageIdSchema,
+  status: z.enum(['delivered', 'read']),
+  timestamp: z.coerce.date().optional(),
+});
+
+export const RequestSyncEventSchema = z.object({
+  conversationId: conversationIdSchema.optional(),
+  lastSyncTime: z.coerce.date().optional(),
+  messageCount: z.number().int().min(1).max(100).optional(),
+});
+
+export const TypingEventSchema = z.object({
+  conversationId: conversationIdSchema,
+});
+
+export const MessageIdEventSchema = messageIdSchema;
+
+// Heartbeats without a state keep the device's current one
+export const PresenceHeartbeatEventSchema = z.object({
+  state: z.enum(['online', 'away']).optional(),
+});
+
+// WebRTC call signaling. SDP and ICE are relayed between the devices of a
+// call's participants; the server only checks who may talk to whom.
+const callIdSchema = z.string().uuid();
+
+// A participant, or one of their devices; offers to a ringing callee go to
+// every device and the first to answer takes the call
+const signalTargetSchema = z.object({
+  userId: objectIdSchema,
+  deviceId: objectIdSchema.optional(),
+});
+
+export const CallStartEventSchema = z.object({
+  callId: callIdSchema,
+});
+
+export const CallEndEventSchema = z.object({
+  callId: callIdSchema,
+});
+
+export const WebRTCOfferEventSchema = z.object({
+  callId: callIdSchema,
+  to: signalTargetSchema,
+  sdp: z.string().min(1).max(64 * 1024),
+});
+
+// Answers go back to the device that made the offer
+export const WebRTCAnswerEventSchema = z.object({
+  callId: callIdSchema,
+  to: signalTargetSchema.required(),
+  sdp: z.string().min(1).max(64 * 1024),
+});
+
+export const WebRTCIceCandidateEventSchema = z.object({
+  callId: callIdSchema,
+  to: signalTargetSchema,
+  candidate: z.object({
+    candidate: z.string().max(1024),
+    sdpMLineIndex: z.number().int().min(0).nullable(),
+    sdpMid: z.string().max(255).nullable(),
+    usernameFragment: z.string().max(255).nullable().optional(),
+  }),
+});
+
+// Which of this participant's tracks are on
+export const CallMediaEventSchema = z.object({
+  callId: callIdSchema,
+  audioEnabled: z.boolean(),
+  videoEnabled: z.boolean(),
+  screenShareEnabled: z.boolean(),
+});
+
+// One participant's WebRTC stats for their leg of the call: bitrate in
+// kbit/s, packet loss in percent, round-trip latency and jitter in ms
+export const CallStatsSchema = z.object({
+  bitrate: z.number().min(0),
+  packetLoss: z.number().min(0).max(100),
+  latency: z.number().min(0),
+  jitter: z.number().min(0).default(0),
+});
+
+export const CallStatsEventSchema = CallStatsSchema.extend({
+  callId: callIdSchema,
+});
+
+// The caller's frame-encryption key for a call epoch, encrypted separately
+// for every participant device over its pairwise session. The server relays
+// the copies without storing them.
+export const CallKeyEventSchema = z.object({
+  callId: callIdSchema,
+  keyEpoch: z.number().int().min(1),
+  envelopes: z.array(bundleEnvelopeSchema).min(1).max(100),
+});
+
 // API Response schemas
 export const ApiResponseSchema = z.object({
   success: z.boolean(),
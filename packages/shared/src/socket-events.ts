@@ -0,0 +1,299 @@
+import type { z } from 'zod';
+import { SOCKET_EVENTS } from './constants';
+import type { ReceiptStatus } from './types';
+import type {
+  RegisterDeviceEventSchema,
+  SendMessageEventSchema,
+  SendMessageBundleEventSchema,
+  SendGroupMessageEventSchema,
+  EditMessageEventSchema,
+  DeleteMessageEventSchema,
+  ReactToMessageEventSchema,
+  SetDisappearingMessagesEventSchema,
+  AcknowledgeMessageEventSchema,
+  RequestSyncEventSchema,
+  TypingEventSchema,
+  PresenceHeartbeatEventSchema,
+  CallStartEventSchema,
+  CallEndEventSchema,
+  WebRTCOfferEventSchema,
+  WebRTCAnswerEventSchema,
+  WebRTCIceCandidateEventSchema,
+  CallKeyEventSchema,
+  CallStatsEventSchema,
+  CallMediaEventSchema
+} from './schemas';
+
+// Client payloads are whatever the server-side schemas accept
+export type RegisterDeviceEvent = z.input<typeof RegisterDeviceEventSchema>;
+export type SendMessageEvent = z.input<typeof SendMessageEventSchema>;
+export type SendMessageBundleEvent = z.input<typeof SendMessageBundleEventSchema>;
+export type SendGroupMessageEvent = z.input<typeof SendGroupMessageEventSchema>;
+export type EditMessageEvent = z.input<typeof EditMessageEventSchema>;
+export type DeleteMessageEvent = z.input<typeof DeleteMessageEventSchema>;
+export type ReactToMessageEvent = z.input<typeof ReactToMessageEventSchema>;
+export type SetDisappearingMessagesEvent = z.input<typeof SetDisappearingMessagesEventSchema>;
+export type AcknowledgeMessageEvent = z.input<typeof AcknowledgeMessageEventSchema>;
+export type RequestSyncEvent = z.input<typeof RequestSyncEventSchema>;
+export type TypingEvent = z.input<typeof TypingEventSchema>;
+export type PresenceHeartbeatEvent = z.input<typeof PresenceHeartbeatEventSchema>;
+export type CallStartEvent = z.input<typeof CallStartEventSchema>;
+export type CallEndEvent = z.input<typeof CallEndEventSchema>;
+export type WebRTCOfferEvent = z.input<typeof WebRTCOfferEventSchema>;
+export type WebRTCAnswerEvent = z.input<typeof WebRTCAnswerEventSchema>;
+export type WebRTCIceCandidateEvent = z.input<typeof WebRTCIceCandidateEventSchema>;
+export type CallKeyEvent = z.input<typeof CallKeyEventSchema>;
+export type CallStatsEvent = z.input<typeof CallStatsEventSchema>;
+export type CallMediaEvent = z.input<typeof CallMediaEventSchema>;
+
+// Devices a bundle missed (added) or that are no longer active (removed)
+export interface StaleDevices {
+  userId: string;
+  added: string[];
+  removed: string[];
+}
+
+export interface SocketAckResponse {
+  success: boolean;
+  error?: string;
+  code?: string;
+  messageId?: string;
+  conversationIds?: string[];
+  staleDevices?: StaleDevices[];
+}
+
+export type SocketAckCallback = (response: SocketAckResponse) => void;
+
+// Sender and recipient are ids, or user documents in sync responses
+export type EnvelopeUserRef = string | {
+  _id: string;
+  username?: string;
+  displayName?: string;
+  avatar?: string;
+};
+
+// What a control message does to the message it refers to, or to the
+// conversation for disappearing-message timers
+export interface MessageControl {
+  action: 'edit' | 'delete' | 'react' | 'timer';
+  targetMessageId?: string; // Unset for timers
+  scope?: 'me' | 'everyone'; // Deletions only
+}
+
+/**
+ * A stored message envelope as the server sends it. Only ciphertext and
+ * routing data; the server never sees message content.
+ */
+export interface MessageEnvelopePayload {
+  _id: string;
+  messageId: string;
+  bundleMessageId?: string; // The sender's message id, on copies of a bundle
+  conversationId: string;
+  senderId: EnvelopeUserRef;
+  senderDeviceId: string;
+  recipientId?: EnvelopeUserRef;
+  recipientDeviceId?: string;
+  messageType: 'text' | 'file' | 'image' | 'video' | 'audio' | 'document' | 'system';
+  encryptedContent: string;
+  encryptedKey?: string;
+  doubleRatchetHeader?: {
+    dhPublicKey: string;
+    previousChainLength: number;
+    messageNumber: number;
+  };
+  senderKeyHeader?: {
+    keyId: number;
+    iteration: number;
+    signature: string;
+  };
+  preKeyId?: number;
+  oneTimePreKeyId?: number;
+  senderIdentityKey?: string;
+  senderEphemeralKey?: string;
+  metadata?: Record<string, any>;
+  replyToMessageId?: string;
+  expiresIn?: number; // Disappearing messages: seconds after the message is read
+  control?: MessageControl; // Set on system messages that edit, delete or react
+  status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+  expiresAt?: Date;
+  deletedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Sent to the sender when a recipient's aggregate status changes
+export interface MessageStatusUpdate {
+  messageId: string;
+  status: 'delivered' | 'read'; // The recipient's status across their devices
+  timestamp: Date;
+  deviceId: string; // The device whose receipt caused the change
+  recipientId: string;
+  messageStatus: ReceiptStatus; // Across every recipient
+}
+
+export interface SyncResponse {
+  messages: MessageEnvelopePayload[];
+  syncTime: Date;
+}
+
+export interface TypingNotification {
+  userId: string;
+  conversationId: string;
+  timestamp: Date;
+}
+
+export type PresenceState = 'online' | 'away' | 'offline';
+
+// Presence of a contact. lastSeen is only sent for offline users who share it.
+export interface PresenceUpdate {
+  userId: string;
+  state: PresenceState;
+  lastSeen?: Date;
+}
+
+// Membership and detail changes; user and actor ids depend on the event
+export interface ConversationUpdate {
+  conversationId: string;
+  event: string;
+  [key: string]: any;
+}
+
+export type CallStatus = 'initiated' | 'ringing' | 'accepted' | 'rejected' | 'missed' | 'ended' | 'failed';
+
+// An incoming call, sent to every device of each callee
+export interface CallInvitation {
+  callId: string;
+  callerId: string;
+  callerDeviceId: string;
+  callType: 'audio' | 'video' | 'screen_share';
+  isGroupCall: boolean;
+  participantIds: string[];
+}
+
+// SDP or an ICE candidate from another participant's device
+export interface CallSignal {
+  callId: string;
+  from: { userId: string; deviceId: string };
+  sdp?: string;
+  candidate?: WebRTCIceCandidateEvent['candidate'];
+}
+
+// A participant left, declined or missed the call, or the call is over
+export interface CallEnded {
+  callId: string;
+  userId?: string; // Unset when the call timed out
+  status: CallStatus; // Of the call
+  participantStatus?: string; // Of the user, for group calls that go on
+  endReason?: 'user_ended' | 'timeout' | 'network_error' | 'server_error' | 'declined';
+}
+
+// A participant's place in a call as other members see it
+export interface CallParticipantState {
+  userId: string;
+  deviceId?: string; // The device they are in the call on
+  status: 'invited' | 'ringing' | 'joined' | 'left' | 'rejected' | 'missed' | 'removed';
+  audioEnabled: boolean;
+  videoEnabled: boolean;
+  screenShareEnabled: boolean;
+}
+
+// Sent to every member of a call when someone is invited, joins, rejoins
+// from another device or changes their media. Leaving, declining and being
+// removed by the host come as webrtc:call-end with the participantStatus.
+export interface CallParticipantUpdate {
+  callId: string;
+  change: 'invited' | 'joined' | 'rejoined' | 'media';
+  participant: CallParticipantState;
+}
+
+// The host asks a participant to turn tracks off; their client decides
+export interface CallMuteRequest {
+  callId: string;
+  from: string; // The host
+  audio: boolean;
+  video: boolean;
+}
+
+// This device's copy of a call key, to decrypt with the sender's session
+export interface CallKeyDelivery extends Pick<
+  MessageEnvelopePayload,
+  'encryptedContent' | 'doubleRatchetHeader' | 'preKeyId' | 'oneTimePreKeyId' | 'senderIdentityKey' | 'senderEphemeralKey'
+> {
+  callId: string;
+  keyEpoch: number;
+  senderId: string;
+  senderDeviceId: string;
+}
+
+// Another device of the user answered; this one should stop ringing
+export interface CallAnsweredElsewhere {
+  callId: string;
+  deviceId: string;
+}
+
+// Events a client emits on the /messaging namespace
+export interface ClientToServerEvents {
+  [SOCKET_EVENTS.REGISTER_DEVICE]: (payload: RegisterDeviceEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.JOIN_CONVERSATIONS]: (conversationIds: string[], ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.SEND_MESSAGE]: (envelope: SendMessageEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.SEND_MESSAGE_BUNDLE]: (bundle: SendMessageBundleEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.SEND_GROUP_MESSAGE]: (envelope: SendGroupMessageEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.EDIT_MESSAGE]: (control: EditMessageEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.DELETE_MESSAGE]: (control: DeleteMessageEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.REACT_TO_MESSAGE]: (control: ReactToMessageEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.SET_DISAPPEARING_MESSAGES]: (control: SetDisappearingMessagesEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.ACKNOWLEDGE_MESSAGE]: (ack: AcknowledgeMessageEvent) => void;
+  [SOCKET_EVENTS.REQUEST_SYNC]: (request: RequestSyncEvent) => void;
+  [SOCKET_EVENTS.START_TYPING]: (payload: TypingEvent) => void;
+  [SOCKET_EVENTS.STOP_TYPING]: (payload: TypingEvent) => void;
+  [SOCKET_EVENTS.PRESENCE_HEARTBEAT]: (payload: PresenceHeartbeatEvent) => void;
+  [SOCKET_EVENTS.WEBRTC_CALL_START]: (payload: CallStartEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.WEBRTC_OFFER]: (payload: WebRTCOfferEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.WEBRTC_ANSWER]: (payload: WebRTCAnswerEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.WEBRTC_ICE_CANDIDATE]: (payload: WebRTCIceCandidateEvent) => void;
+  [SOCKET_EVENTS.WEBRTC_CALL_END]: (payload: CallEndEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.WEBRTC_CALL_KEY]: (payload: CallKeyEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.WEBRTC_STATS]: (payload: CallStatsEvent, ack?: SocketAckCallback) => void;
+  [SOCKET_EVENTS.WEBRTC_MEDIA]: (payload: CallMediaEvent, ack?: SocketAckCallback) => void;
+}
+
+/**
+ * Events older clients still emit. The server maps them onto
+ * acknowledgeMessage; new code should not use them.
+ */
+export interface LegacyClientToServerEvents {
+  [SOCKET_EVENTS.MESSAGE_DELIVERED]: (messageId: string) => void;
+  [SOCKET_EVENTS.MESSAGE_READ]: (messageId: string) => void;
+}
+
+// Events the server emits on the /messaging namespace
+export interface ServerToClientEvents {
+  [SOCKET_EVENTS.NEW_MESSAGE]: (envelope: MessageEnvelopePayload) => void;
+  // Copies of the user's own messages for their other devices, and control
+  // messages for every participant device
+  [SOCKET_EVENTS.MESSAGE_SYNC]: (envelope: MessageEnvelopePayload) => void;
+  [SOCKET_EVENTS.MESSAGE_STATUS_UPDATE]: (update: MessageStatusUpdate) => void;
+  [SOCKET_EVENTS.SYNC_RESPONSE]: (response: SyncResponse) => void;
+  [SOCKET_EVENTS.SYNC_ERROR]: (error: { error: string }) => void;
+  [SOCKET_EVENTS.USER_STARTED_TYPING]: (notification: TypingNotification) => void;
+  [SOCKET_EVENTS.USER_STOPPED_TYPING]: (notification: TypingNotification) => void;
+  [SOCKET_EVENTS.CONVERSATION_UPDATED]: (update: ConversationUpdate) => void;
+  [SOCKET_EVENTS.USER_ONLINE]: (update: PresenceUpdate) => void;
+  [SOCKET_EVENTS.USER_STATUS]: (update: PresenceUpdate) => void;
+  [SOCKET_EVENTS.USER_OFFLINE]: (update: PresenceUpdate) => void;
+  [SOCKET_EVENTS.WEBRTC_CALL_START]: (invitation: CallInvitation) => void;
+  [SOCKET_EVENTS.WEBRTC_OFFER]: (signal: CallSignal) => void;
+  [SOCKET_EVENTS.WEBRTC_ANSWER]: (signal: CallSignal) => void;
+  [SOCKET_EVENTS.WEBRTC_ICE_CANDIDATE]: (signal: CallSignal) => void;
+  [SOCKET_EVENTS.WEBRTC_CALL_END]: (ended: CallEnded) => void;
+  [SOCKET_EVENTS.WEBRTC_ANSWERED_ELSEWHERE]: (notice: CallAnsweredElsewhere) => void;
+  [SOCKET_EVENTS.WEBRTC_CALL_KEY]: (delivery: CallKeyDelivery) => void;
+  [SOCKET_EVENTS.WEBRTC_PARTICIPANT_UPDATE]: (update: CallParticipantUpdate) => void;
+  [SOCKET_EVENTS.WEBRTC_MUTE_REQUEST]: (request: CallMuteRequest) => void;
+}
+
+// Data the server keeps on each authenticated socket
+export interface MessagingSocketData {
+  userId: string;
+  deviceId: string;
+}
@@ -27,6 +27,33 @@ export enum MessageType {
   IMAGE = 'image',
 }
 
+// Receipt types. A device that has read a message counts as delivered too.
+export type ReceiptStatus = 'sent' | 'delivered' | 'read';
+
+export interface DeviceReceipt {
+  deviceId: string;
+  status: ReceiptStatus;
+  deliveredAt?: Date;
+  readAt?: Date;
+}
+
+// One recipient: delivered once every expected device has the message, read
+// once every expected device has read it
+export interface RecipientReceipt {
+  userId: string;
+  status: ReceiptStatus;
+  deliveredAt?: Date;
+  readAt?: Date;
+  devices: DeviceReceipt[];
+}
+
+export interface MessageReceiptSummary {
+  messageId: string;
+  conversationId: string;
+  status: ReceiptStatus; // The lowest status of any recipient
+  recipients: RecipientReceipt[];
+}
+
 // Conversation types
 export interface Conversation {
   id: string;
@@ -45,32 +72,49 @@ export interface PeerConnectionData {
   conversationId: string;
 }
 
-// Socket event types
-export interface SocketEvents {
-  // Authentication
-  authenticate: (token: string) => void;
-  authenticated: (user: User) => void;
-  
-  // Messages
-  'message:send': (message: Omit<Message, 'id' | 'timestamp'>) => void;
-  'message:receive': (message: Message) => void;
-  'message:read': (messageId: string) => void;
-  
-  // Conversations
-  'conversation:join': (conversationId: string) => void;
-  'conversation:leave': (conversationId: string) => void;
-  'conversation:typing': (conversationId: string, isTyping: boolean) => void;
-  
-  // WebRTC signaling
-  'webrtc:offer': (data: PeerConnectionData) => void;
-  'webrtc:answer': (data: PeerConnectionData) => void;
-  'webrtc:ice-candidate': (data: { candidate: RTCIceCandidate; conversationId: string; userId: string }) => void;
-  
-  // User status
-  'user:status': (userId: string, isOnline: boolean) => void;
-  
-  // Errors
-  error: (error: { message: string; code?: string }) => void;
+// An RTCIceServer entry; TURN entries carry short-lived credentials
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface CallIceServers {
+  iceServers: IceServer[];
+  expiresAt: Date; // When the TURN credentials stop working
+}
+
+export type ConnectionQuality = 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
+
+export interface CallQualityMetrics {
+  bitrate: number; // kbit/s
+  packetLoss: number; // Percent
+  latency: number; // Round trip, ms
+  jitter: number; // ms
+}
+
+export interface MetricSummary {
+  mean: number;
+  p50: number;
+  p95: number;
+}
+
+// Means and percentiles over a set of quality samples
+export interface QualitySummary {
+  samples: number;
+  bitrate: MetricSummary;
+  packetLoss: MetricSummary;
+  latency: MetricSummary;
+  jitter: MetricSummary;
+}
+
+export interface CallQualitySummary {
+  callId: string;
+  overall: QualitySummary | null; // Null before any samples arrived
+  participants: Array<QualitySummary & {
+    userId: string;
+    connectionQuality: ConnectionQuality;
+  }>;
 }
 
 // API Response types